@@ -6,31 +6,158 @@
  * 2. Sign up (no credit card needed for free tier)
  * 3. Create new worker
  * 4. Paste this code
- * 5. Add environment variable: XAI_API_KEY = your_key
+ * 5. Add environment variables: XAI_API_KEY = your_key, PROXY_SECRET = the
+ *    same value as the app's XAI_PROXY_SECRET setting
  * 6. Deploy
  * 7. Copy your worker URL (e.g., https://your-worker.your-subdomain.workers.dev)
+ *
+ * Only requests signed with PROXY_SECRET are forwarded, and only chive
+ * analyses; the checks mirror proxy-server.js.
+ *
+ * Replays are caught per isolate in memory. Bind a KV namespace as NONCES to
+ * catch them across isolates too.
  */
 
+// The model the app asks for; set XAI_MODEL to change it.
+const DEFAULT_MODEL = 'grok-4-fast';
+const DEFAULT_MAX_SKEW_SECONDS = 300;
+
+const seenNonces = new Map();
+
+const json = (status, body) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+const fromHex = (hex) =>
+  /^(?:[0-9a-f]{2})+$/i.test(hex)
+    ? new Uint8Array(hex.match(/../g).map((byte) => parseInt(byte, 16)))
+    : null;
+
+// Same as verifyRequest in proxy-server.js.
+async function verifyRequest(request, raw, env) {
+  const timestamp = request.headers.get('X-Chiveit-Timestamp');
+  const nonce = request.headers.get('X-Chiveit-Nonce');
+  const signature = fromHex(request.headers.get('X-Chiveit-Signature') ?? '');
+  if (!timestamp || !nonce || !signature) {
+    return 'Missing signature';
+  }
+
+  const now = Date.now();
+  const maxSkewSeconds = Number(env.PROXY_MAX_SKEW_SECONDS) || DEFAULT_MAX_SKEW_SECONDS;
+  if (!/^\d+$/.test(timestamp) || Math.abs(now / 1000 - Number(timestamp)) > maxSkewSeconds) {
+    return 'Stale or invalid timestamp';
+  }
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(env.PROXY_SECRET),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['verify']
+  );
+  const valid = await crypto.subtle.verify(
+    'HMAC',
+    key,
+    signature,
+    encoder.encode(`${timestamp}.${nonce}.${raw}`)
+  );
+  if (!valid) {
+    return 'Invalid signature';
+  }
+
+  for (const [seen, expiresAt] of seenNonces) {
+    if (expiresAt <= now) seenNonces.delete(seen);
+  }
+  if (seenNonces.has(nonce) || (env.NONCES && (await env.NONCES.get(`nonce:${nonce}`)))) {
+    return 'Replayed request';
+  }
+  seenNonces.set(nonce, now + maxSkewSeconds * 2 * 1000);
+  if (env.NONCES) {
+    // KV expiries must be at least 60 seconds.
+    await env.NONCES.put(`nonce:${nonce}`, '1', {
+      expirationTtl: Math.max(60, maxSkewSeconds * 2),
+    });
+  }
+
+  return null;
+}
+
+const isImagePart = (part) =>
+  part?.type === 'image_url' &&
+  typeof part.image_url?.url === 'string' &&
+  part.image_url.url.startsWith('data:image/');
+
+const isTextPart = (part) => part?.type === 'text' && typeof part.text === 'string';
+
+// Same as toAllowedRequest in proxy-server.js.
+function toAllowedRequest(body, allowedModel) {
+  const { model, temperature, response_format, messages } = body ?? {};
+  if (model !== allowedModel || !Array.isArray(messages)) return null;
+  if (messages.length !== 2 && messages.length !== 4) return null;
+
+  const [system, analysis, ...repair] = messages;
+  if (system?.role !== 'system' || typeof system.content !== 'string') return null;
+  if (
+    analysis?.role !== 'user' ||
+    !Array.isArray(analysis.content) ||
+    analysis.content.length !== 2 ||
+    !isTextPart(analysis.content[0]) ||
+    !isImagePart(analysis.content[1])
+  ) {
+    return null;
+  }
+  if (
+    repair.length &&
+    (repair[0]?.role !== 'assistant' ||
+      typeof repair[0].content !== 'string' ||
+      repair[1]?.role !== 'user' ||
+      typeof repair[1].content !== 'string')
+  ) {
+    return null;
+  }
+
+  return {
+    model,
+    temperature: typeof temperature === 'number' ? Math.min(Math.max(temperature, 0), 1) : 0.2,
+    response_format: response_format?.type === 'json_object' ? response_format : { type: 'json_object' },
+    messages: messages.map(({ role, content }) => ({ role, content })),
+  };
+}
+
 export default {
   async fetch(request, env) {
-    // Handle CORS preflight
-    if (request.method === 'OPTIONS') {
-      return new Response(null, {
-        headers: {
-          'Access-Control-Allow-Origin': '*',
-          'Access-Control-Allow-Methods': 'POST, OPTIONS',
-          'Access-Control-Allow-Headers': 'Content-Type',
-        },
-      });
-    }
-
-    // Only allow POST
+    // Only allow POST; the app calls from its server, so there is no CORS.
     if (request.method !== 'POST') {
       return new Response('Method not allowed', { status: 405 });
     }
 
+    if (!env.XAI_API_KEY || !env.PROXY_SECRET) {
+      return json(500, { error: 'XAI_API_KEY and PROXY_SECRET must be configured on the worker' });
+    }
+
     try {
-      const body = await request.json();
+      // The signature covers the exact text sent, so read it before parsing.
+      const raw = await request.text();
+
+      const rejection = await verifyRequest(request, raw, env);
+      if (rejection) {
+        return json(401, { error: rejection });
+      }
+
+      let body;
+      try {
+        body = JSON.parse(raw);
+      } catch {
+        return json(400, { error: 'Body is not valid JSON' });
+      }
+
+      const allowed = toAllowedRequest(body, env.XAI_MODEL || DEFAULT_MODEL);
+      if (!allowed) {
+        return json(400, { error: 'Only chive analysis requests are accepted' });
+      }
 
       // Forward to X.AI API
       const response = await fetch('https://api.x.ai/v1/chat/completions', {
@@ -39,28 +166,18 @@ export default {
           'Authorization': `Bearer ${env.XAI_API_KEY}`,
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(body),
+        body: JSON.stringify(allowed),
       });
 
       // Get response data
       const data = await response.text();
 
-      // Return with CORS headers
       return new Response(data, {
         status: response.status,
-        headers: {
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*',
-        },
+        headers: { 'Content-Type': 'application/json' },
       });
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500,
-        headers: {
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*',
-        },
-      });
+      return json(500, { error: error.message });
     }
   },
 };
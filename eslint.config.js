@@ -62,6 +62,8 @@ export default defineConfig([
       'eslint.config.js',
       '**/vite.config.ts',
       'devvit.config.ts',
+      // Specs sit outside the tsconfig projects, so they skip the type-aware rules.
+      '**/*.test.ts',
     ],
     languageOptions: {
       parserOptions: {
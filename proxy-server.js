@@ -13,29 +13,144 @@
  *   1. Deploy this file
  *   2. Set PROXY_URL environment variable in your Devvit app to point to this server
  *   3. Set XAI_API_KEY environment variable here (not in Devvit)
+ *   4. Set PROXY_SECRET here to the same value as the app's XAI_PROXY_SECRET
+ *
+ * Only requests signed with PROXY_SECRET are forwarded (see verifyRequest), and
+ * only chive analyses: the expected model with one image and the app's prompt
+ * shape. Anything else is refused, so the proxy is no use as a general relay.
  */
 
+import crypto from 'crypto';
 import express from 'express';
-import cors from 'cors';
+import { pathToFileURL } from 'url';
 
-const app = express();
+export const app = express();
 const PORT = process.env.PORT || 3000;
 
-// Enable CORS for your Reddit Devvit app
-app.use(cors());
-app.use(express.json({ limit: '50mb' }));
+// The model the app asks for; requests naming any other are refused.
+const ALLOWED_MODEL = process.env.XAI_MODEL || 'grok-4-fast';
+// How far a request's timestamp may be from this server's clock.
+const MAX_SKEW_SECONDS = Number(process.env.PROXY_MAX_SKEW_SECONDS) || 300;
+
+// Nonces seen within the skew window -> when they can be forgotten (ms). A
+// request outside the window is refused on its timestamp alone.
+const seenNonces = new Map();
+
+// The signature covers the exact bytes sent, so keep the raw body.
+app.use(express.raw({ type: 'application/json', limit: '50mb' }));
+
+/**
+ * Checks the X-Chiveit-* headers the app adds (signProxyRequest in
+ * src/server/services/grokClient.ts). Returns an error message, or null when
+ * the request is genuine and fresh.
+ */
+export function verifyRequest(req, secret, now = Date.now()) {
+  const timestamp = req.get('X-Chiveit-Timestamp');
+  const nonce = req.get('X-Chiveit-Nonce');
+  const signature = req.get('X-Chiveit-Signature');
+  if (!timestamp || !nonce || !signature || !Buffer.isBuffer(req.body)) {
+    return 'Missing signature';
+  }
+
+  if (!/^\d+$/.test(timestamp) || Math.abs(now / 1000 - Number(timestamp)) > MAX_SKEW_SECONDS) {
+    return 'Stale or invalid timestamp';
+  }
+
+  const expected = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${nonce}.`)
+    .update(req.body)
+    .digest();
+  const given = Buffer.from(signature, 'hex');
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+    return 'Invalid signature';
+  }
+
+  for (const [seen, expiresAt] of seenNonces) {
+    if (expiresAt <= now) seenNonces.delete(seen);
+  }
+  if (seenNonces.has(nonce)) {
+    return 'Replayed request';
+  }
+  seenNonces.set(nonce, now + MAX_SKEW_SECONDS * 2 * 1000);
+
+  return null;
+}
+
+const isImagePart = (part) =>
+  part?.type === 'image_url' &&
+  typeof part.image_url?.url === 'string' &&
+  part.image_url.url.startsWith('data:image/');
+
+const isTextPart = (part) => part?.type === 'text' && typeof part.text === 'string';
+
+/**
+ * Rebuilds the chat request from the fields a chive analysis uses (see
+ * buildChiveChatRequest in src/server/services/chivePrompt.ts): a system
+ * prompt, one user turn with text and a single inline image, and optionally a
+ * repair exchange. Returns null for anything else.
+ */
+export function toAllowedRequest(body) {
+  const { model, temperature, response_format, messages } = body ?? {};
+  if (model !== ALLOWED_MODEL || !Array.isArray(messages)) return null;
+  if (messages.length !== 2 && messages.length !== 4) return null;
+
+  const [system, analysis, ...repair] = messages;
+  if (system?.role !== 'system' || typeof system.content !== 'string') return null;
+  if (
+    analysis?.role !== 'user' ||
+    !Array.isArray(analysis.content) ||
+    analysis.content.length !== 2 ||
+    !isTextPart(analysis.content[0]) ||
+    !isImagePart(analysis.content[1])
+  ) {
+    return null;
+  }
+  if (
+    repair.length &&
+    (repair[0]?.role !== 'assistant' ||
+      typeof repair[0].content !== 'string' ||
+      repair[1]?.role !== 'user' ||
+      typeof repair[1].content !== 'string')
+  ) {
+    return null;
+  }
+
+  return {
+    model,
+    temperature: typeof temperature === 'number' ? Math.min(Math.max(temperature, 0), 1) : 0.2,
+    response_format: response_format?.type === 'json_object' ? response_format : { type: 'json_object' },
+    messages: messages.map(({ role, content }) => ({ role, content })),
+  };
+}
 
 app.post('/api/grok/vision', async (req, res) => {
   try {
     const XAI_API_KEY = process.env.XAI_API_KEY;
+    const PROXY_SECRET = process.env.PROXY_SECRET;
 
-    if (!XAI_API_KEY) {
+    if (!XAI_API_KEY || !PROXY_SECRET) {
       return res.status(500).json({
-        error: 'XAI_API_KEY not configured on proxy server'
+        error: 'XAI_API_KEY and PROXY_SECRET must be configured on the proxy server'
       });
     }
 
-    const { model, temperature, response_format, messages } = req.body;
+    const rejection = verifyRequest(req, PROXY_SECRET);
+    if (rejection) {
+      return res.status(401).json({ error: rejection });
+    }
+
+    let body;
+    try {
+      body = JSON.parse(req.body.toString('utf8'));
+    } catch {
+      return res.status(400).json({ error: 'Body is not valid JSON' });
+    }
+
+    const allowed = toAllowedRequest(body);
+    if (!allowed) {
+      return res.status(400).json({ error: 'Only chive analysis requests are accepted' });
+    }
 
     const response = await fetch('https://api.x.ai/v1/chat/completions', {
       method: 'POST',
@@ -43,12 +158,7 @@ app.post('/api/grok/vision', async (req, res) => {
         'Authorization': `Bearer ${XAI_API_KEY}`,
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({
-        model: model || 'grok-4-fast',
-        temperature: temperature || 0.2,
-        response_format: response_format || { type: 'json_object' },
-        messages,
-      }),
+      body: JSON.stringify(allowed),
     });
 
     if (!response.ok) {
@@ -74,6 +184,9 @@ app.get('/health', (req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
-app.listen(PORT, () => {
-  console.log(`X.AI Proxy Server running on port ${PORT}`);
-});
+// Only listen when run directly, so the checks above can be imported.
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  app.listen(PORT, () => {
+    console.log(`X.AI Proxy Server running on port ${PORT}`);
+  });
+}
@@ -1,5 +1,42 @@
-import { useState } from 'react';
-import type { AnalyzeResponse, AnalyzeResultItem } from '../../shared/types/api';
+import { useRef, useState } from 'react';
+import { navigateTo } from '@devvit/web/client';
+import type {
+  AnalyzeAsyncResponse,
+  AnalyzeResponse,
+  AnalyzeResultItem,
+  BatchJob,
+  BatchResponse,
+  CutStyle,
+  JobStatus,
+  ReferenceObject,
+} from '../../shared/types/api';
+import { useJobUpdates } from '../hooks/useJobUpdates';
+import { useModerator } from '../hooks/useModerator';
+import { useQuota } from '../hooks/useQuota';
+import { useScorecards } from '../hooks/useScorecards';
+import { HistoryView } from './HistoryView';
+import { DuplicatesPanel } from './DuplicatesPanel';
+import { RescorePanel } from './RescorePanel';
+import { OpsDashboard } from './OpsDashboard';
+import { GalleryView } from './GalleryView';
+import { LeaderboardPanel } from './LeaderboardPanel';
+import { PeoplesChoicePanel } from './PeoplesChoicePanel';
+import { ChallengeBanner } from './ChallengeBanner';
+import { CUT_STYLES, cutStyleLabel } from './cutStyles';
+import { REFERENCE_OBJECTS, referenceLabel } from './references';
+
+type View = 'analyze' | 'gallery' | 'history' | 'leaderboard' | 'moderation';
+
+const isFinished = (job: BatchJob) =>
+  job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+
+// Region tiles are tinted by their sub-score so weak areas stand out.
+const regionTone = (score: number | null) => {
+  if (score == null) return 'border-slate-800 bg-slate-950';
+  if (score >= 80) return 'border-emerald-700/60 bg-emerald-950/40';
+  if (score >= 65) return 'border-yellow-700/60 bg-yellow-950/30';
+  return 'border-red-700/60 bg-red-950/40';
+};
 
 type Preview = {
   index: number;
@@ -8,13 +45,22 @@ type Preview = {
 };
 
 export const App = () => {
+  const [view, setView] = useState<View>('analyze');
+  const { isModerator } = useModerator();
+  const { daily: dailyQuota, refresh: refreshQuota } = useQuota();
+  const scorecards = useScorecards();
   const [files, setFiles] = useState<FileList | null>(null);
+  const [cutStyle, setCutStyle] = useState<CutStyle>('fine');
+  const [reference, setReference] = useState<ReferenceObject>('none');
   const [previews, setPreviews] = useState<Preview[]>([]);
   const [loading, setLoading] = useState(false);
+  const [batchId, setBatchId] = useState<string | null>(null);
   const [status, setStatus] = useState<string | null>(null);
   const [results, setResults] = useState<AnalyzeResultItem[] | null>(null);
   const [rawJson, setRawJson] = useState<string>('No analysis yet.');
   const [error, setError] = useState<string | null>(null);
+  const batchRef = useRef<BatchResponse | null>(null);
+  const wakeRef = useRef<(() => void) | null>(null);
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const fileList = event.target.files;
@@ -36,80 +82,170 @@ export const App = () => {
     setPreviews(nextPreviews);
   };
 
-  const pollResults = async (jobIds: string[]): Promise<AnalyzeResultItem[]> => {
-    const results: AnalyzeResultItem[] = [];
-    const maxAttempts = 60; // 60 attempts * 2s = 2 minutes max
-
-    for (const jobId of jobIds) {
-      let attempts = 0;
-
-      while (attempts < maxAttempts) {
-        const response = await fetch(`/api/result/${jobId}`);
-        const data = await response.json();
-
-        if (data.status === 'completed') {
-          const result = data.result;
-          results.push({
-            filename: `Job ${jobId.slice(0, 8)}`,
-            bunchIndex: results.length,
-            averageThicknessMm: result.averageThicknessMm,
-            thicknessStdDevMm: result.thicknessStdDevMm,
-            cutQualityLabel: result.cutQualityLabel,
-            rawNotes: result.rawNotes,
-            regions: result.regions,
-            thicknessConsistencyScore: result.thicknessConsistencyScore,
-            cutQualityScore: result.cutQualityScore,
-            overallScore: result.overallScore,
-            notes: result.notes,
-          });
-          break;
-        } else if (data.status === 'failed') {
-          results.push({
-            filename: `Job ${jobId.slice(0, 8)}`,
-            bunchIndex: results.length,
-            averageThicknessMm: null,
-            thicknessStdDevMm: null,
-            cutQualityLabel: 'unknown',
-            overallScore: null,
-            thicknessConsistencyScore: null,
-            cutQualityScore: null,
-            notes: `Analysis failed: ${data.error}`,
-            rawNotes: '',
-            regions: [],
-          });
-          break;
-        }
+  const failedItem = (filename: string, bunchIndex: number, notes: string): AnalyzeResultItem => ({
+    filename,
+    bunchIndex,
+    averageThicknessMm: null,
+    thicknessStdDevMm: null,
+    cutQualityLabel: 'unknown',
+    overallScore: null,
+    thicknessConsistencyScore: null,
+    cutQualityScore: null,
+    notes,
+    rawNotes: '',
+    regions: [],
+  });
+
+  const toResultItem = (job: BatchJob): AnalyzeResultItem => {
+    if (job.status === 'completed' && job.result) {
+      return { filename: job.filename, bunchIndex: job.uploadIndex, ...job.result };
+    }
+
+    const notes =
+      job.status === 'cancelled'
+        ? 'Analysis cancelled'
+        : job.status === 'failed'
+          ? `Analysis failed: ${job.error}`
+          : 'Analysis timed out';
+    return failedItem(job.filename, job.uploadIndex, notes);
+  };
+
+  const describeBatch = (batch: BatchResponse) => {
+    const { counts, total } = batch;
+    const finished = counts.completed + counts.failed + counts.cancelled;
+    const retrying = batch.jobs.find((job) => job.status === 'retrying');
+    if (retrying) {
+      const nextRetry = retrying.nextRetryAt
+        ? ` at ${new Date(retrying.nextRetryAt).toLocaleTimeString()}`
+        : '';
+      return `${finished}/${total} done; ${retrying.filename} hit a temporary error, retrying (attempt ${(retrying.attempts ?? 0) + 1})${nextRetry}...`;
+    }
+    return `${finished}/${total} done, ${counts.processing} processing, ${counts.pending} queued...`;
+  };
 
-        // Still processing, wait and retry
-        setStatus(`Processing job ${results.length + 1}/${jobIds.length}...`);
-        await new Promise(resolve => setTimeout(resolve, 2000));
-        attempts++;
+  // Replaces one job in the batch and recomputes the summary. A late update
+  // never moves a finished job back to an earlier state.
+  const withJob = (batch: BatchResponse, job: BatchJob): BatchResponse => {
+    const jobs = batch.jobs.map((existing) =>
+      existing.jobId !== job.jobId || isFinished(existing) ? existing : job
+    );
+    const counts = { ...batch.counts };
+    (Object.keys(counts) as JobStatus[]).forEach((key) => (counts[key] = 0));
+    jobs.forEach((item) => (counts[item.status] += 1));
+    return { ...batch, jobs, counts, status: jobs.every(isFinished) ? 'done' : 'running' };
+  };
+
+  const { connected: realtimeConnected } = useJobUpdates((message) => {
+    const batch = batchRef.current;
+    if (!batch || message.batchId !== batch.batchId) return;
+    batchRef.current = withJob(batch, message.job);
+    wakeRef.current?.();
+  });
+  const realtimeRef = useRef(realtimeConnected);
+  realtimeRef.current = realtimeConnected;
+
+  // Resolves true when a realtime update arrives, false after `ms`.
+  const waitForUpdate = (ms: number) =>
+    new Promise<boolean>((resolve) => {
+      const timer = setTimeout(() => {
+        wakeRef.current = null;
+        resolve(false);
+      }, ms);
+      wakeRef.current = () => {
+        clearTimeout(timer);
+        wakeRef.current = null;
+        resolve(true);
+      };
+    });
+
+  const fetchBatch = async (batchId: string): Promise<BatchResponse> => {
+    const response = await fetch(`/api/batch/${batchId}`);
+    if (!response.ok) {
+      throw new Error(`Server error: ${response.status}`);
+    }
+    return response.json();
+  };
+
+  const pollResults = async (batchId: string): Promise<AnalyzeResultItem[]> => {
+    const stallTimeoutMs = 3 * 60 * 1000; // give up after 3 minutes without progress
+    let lastProgressAt = Date.now();
+    let lastFinished = -1;
+    let batch = await fetchBatch(batchId);
+    batchRef.current = batch;
+
+    while (true) {
+      // Show finished scores while the rest of the batch is still running.
+      const current = batch;
+      const items = current.jobs.map((job) => toResultItem(job));
+      setResults(items.filter((_, i) => current.jobs[i]?.status === 'completed'));
+      if (current.status === 'done') break;
+
+      setStatus(describeBatch(current));
+
+      // Only stalls count against the timeout; a batch that keeps finishing
+      // jobs, or is waiting out a retry backoff, may take longer.
+      const { pending, processing, retrying } = current.counts;
+      const done = current.total - pending - processing - retrying;
+      if (done !== lastFinished || retrying > 0) {
+        lastFinished = done;
+        lastProgressAt = Date.now();
+      } else if (Date.now() - lastProgressAt > stallTimeoutMs) {
+        break;
       }
 
-      if (attempts >= maxAttempts) {
-        results.push({
-          filename: `Job ${jobId.slice(0, 8)}`,
-          bunchIndex: results.length,
-          averageThicknessMm: null,
-          thicknessStdDevMm: null,
-          cutQualityLabel: 'unknown',
-          overallScore: null,
-          thicknessConsistencyScore: null,
-          cutQualityScore: null,
-          notes: 'Analysis timed out',
-          rawNotes: '',
-          regions: [],
-        });
+      // With realtime connected the server pushes each transition, so polling
+      // drops to an occasional safety net; without it, poll every 2s.
+      const woken = await waitForUpdate(realtimeRef.current ? 15000 : 2000);
+      batch = woken && batchRef.current ? batchRef.current : await fetchBatch(batchId);
+      batchRef.current = batch;
+    }
+
+    batchRef.current = null;
+    return batch.jobs.map((job) => toResultItem(job));
+  };
+
+  const handleCancel = async () => {
+    if (!batchId) return;
+    setStatus('Cancelling...');
+    try {
+      const response = await fetch(`/api/batch/${batchId}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(`Server error: ${response.status}`);
       }
+    } catch (err) {
+      setError((err as Error).message);
     }
+  };
 
-    return results;
+  // Without a queue worker the server analyses the upload within the request:
+  // slower, and a large batch may time out, but better than jobs that never run.
+  const analyzeDirectly = async (formData: FormData) => {
+    setStatus('No analysis worker is running; analyzing directly, this may take a while...');
+    const response = await fetch('/api/analyze', {
+      method: 'POST',
+      body: formData,
+    });
+
+    if (!response.ok) {
+      const body = (await response.json().catch(() => null)) as { message?: string } | null;
+      throw new Error(body?.message ?? `Server error: ${response.status}`);
+    }
+
+    const data: AnalyzeResponse = await response.json();
+    const results = [...data.results].sort((a, b) => a.bunchIndex - b.bunchIndex);
+    const analyzed = results.filter((item) => item.overallScore != null).length;
+
+    setStatus(`Analyzed ${analyzed} of ${results.length} image(s).`);
+    setResults(results);
+    setRawJson(JSON.stringify(data, null, 2));
   };
 
   const handleAnalyze = async () => {
     if (!files || files.length === 0) return;
 
     const formData = new FormData();
+    formData.append('cutStyle', cutStyle);
+    formData.append('reference', reference);
     for (let index = 0; index < files.length; index += 1) {
       const file = files[index];
       formData.append('images', file);
@@ -128,17 +264,39 @@ export const App = () => {
       });
 
       if (!response.ok) {
-        throw new Error(`Server error: ${response.status}`);
+        // Upload limits and quotas come back as `{ status: 'error', message }`.
+        const body = (await response.json().catch(() => null)) as {
+          code?: string;
+          message?: string;
+        } | null;
+        if (body?.code === 'worker_unavailable') {
+          await analyzeDirectly(formData);
+          return;
+        }
+        throw new Error(body?.message ?? `Server error: ${response.status}`);
       }
 
-      const data: { jobs: string[] } = await response.json();
+      const data: AnalyzeAsyncResponse = await response.json();
+      setBatchId(data.batchId);
       setStatus('Images queued, waiting for processing...');
-      setRawJson(JSON.stringify({ queuedJobs: data.jobs }, null, 2));
+      setRawJson(
+        JSON.stringify(
+          { batchId: data.batchId, queuedJobs: data.jobs, rejected: data.rejected },
+          null,
+          2
+        )
+      );
+
+      const rejected = data.rejected.map((item) =>
+        failedItem(item.filename, item.index, `Upload rejected: ${item.error}`)
+      );
 
       // Poll for results
-      const results = await pollResults(data.jobs);
+      const analyzedResults = data.batchId ? await pollResults(data.batchId) : [];
+      const results = [...analyzedResults, ...rejected].sort((a, b) => a.bunchIndex - b.bunchIndex);
+      const analyzed = results.filter((item) => item.overallScore != null).length;
 
-      setStatus(`Analyzed ${results.length} image(s).`);
+      setStatus(`Analyzed ${analyzed} of ${results.length} image(s).`);
       setResults(results);
       setRawJson(JSON.stringify({ analyzedCount: results.length, results }, null, 2));
     } catch (err) {
@@ -148,6 +306,8 @@ export const App = () => {
       setRawJson(e.message);
     } finally {
       setLoading(false);
+      setBatchId(null);
+      void refreshQuota();
     }
   };
 
@@ -162,17 +322,31 @@ export const App = () => {
     return <span className="ml-1 rounded-full bg-red-400/20 px-2 py-0.5 text-xs uppercase tracking-wide text-red-200">Poor</span>;
   };
 
-  const renderRegionGrid = (item: AnalyzeResultItem) => {
-    if (!previews.length || !item.regions || item.regions.length === 0) return null;
-
-    const preview = previews.find((p) => p.index === item.bunchIndex);
-    if (!preview) return null;
+  // Also draws the gallery's submissions, which carry only the regions.
+  const renderRegionGrid = (
+    item: Pick<AnalyzeResultItem, 'regions' | 'regional' | 'scoringMode' | 'regionScores'>,
+    imageUrl: string | undefined
+  ) => {
+    if (!imageUrl || !item.regions || item.regions.length === 0) return null;
 
     const regionIds = ['r1c1', 'r1c2', 'r1c3', 'r2c1', 'r2c2', 'r2c3', 'r3c1', 'r3c2', 'r3c3'];
+    const regional = item.regional;
 
     return (
       <div className="mt-1">
         <div className="mb-1 text-xs text-gray-400">3×3 grid analysis (per region):</div>
+        {regional ? (
+          <div className="mb-1 text-xs text-gray-400">
+            Regions: {regional.averageThicknessMm.toFixed(1)} mm avg · σ between regions{' '}
+            {regional.interRegionStdDevMm.toFixed(2)} mm · {Math.round(regional.raggedShare * 100)}% ragged
+            {item.scoringMode === 'regional' ? ' · used for the score' : ''}
+            {regional.disagreement ? (
+              <span className="ml-1 text-amber-300">
+                · disagrees with the model's overall estimate
+              </span>
+            ) : null}
+          </div>
+        ) : null}
         <div className="grid grid-cols-3 gap-2 text-xs">
           {regionIds.map((id) => {
             const r = item.regions?.find((region) => region.id === id);
@@ -185,6 +359,7 @@ export const App = () => {
                 ? `${r.regionThicknessStdDevMm.toFixed(2)} mm`
                 : 'n/a';
             const label = r?.regionCutQualityLabel ?? 'no_chives';
+            const regionScore = item.regionScores?.find((region) => region.id === id)?.score ?? null;
 
             const row = parseInt(id.charAt(1), 10) - 1;
             const col = parseInt(id.charAt(3), 10) - 1;
@@ -192,17 +367,20 @@ export const App = () => {
             const posY = row === 0 ? '0%' : row === 1 ? '50%' : '100%';
 
             return (
-              <div key={id} className="flex items-center gap-2 rounded border border-slate-800 bg-slate-950 p-1.5">
+              <div key={id} className={`flex items-center gap-2 rounded border p-1.5 ${regionTone(regionScore)}`}>
                 <div
                   className="h-16 w-16 rounded bg-cover bg-no-repeat"
                   style={{
-                    backgroundImage: `url(${preview.url})`,
+                    backgroundImage: `url(${imageUrl})`,
                     backgroundPosition: `${posX} ${posY}`,
                     backgroundSize: '300% 300%',
                   }}
                 />
                 <div className="space-y-0.5">
-                  <div className="font-semibold">{id} · {label}</div>
+                  <div className="font-semibold">
+                    {id} · {label}
+                    {regionScore != null ? ` · ${regionScore}` : ''}
+                  </div>
                   <div className="text-gray-400">avg {avg}</div>
                   <div className="text-gray-400">σ {sd}</div>
                 </div>
@@ -214,6 +392,43 @@ export const App = () => {
     );
   };
 
+  const renderShareControls = (entryId: string) => {
+    const { scorecard, busy, error } = scorecards.stateOf(entryId);
+    return (
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        {scorecard ? (
+          <>
+            <button
+              type="button"
+              onClick={() => navigateTo(scorecard.permalink)}
+              className="text-emerald-300 underline"
+            >
+              View scorecard comment
+            </button>
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => void scorecards.remove(entryId)}
+              className="rounded-md border border-slate-700 px-2 py-1 text-slate-300 disabled:opacity-50"
+            >
+              {busy ? 'Deleting…' : 'Delete comment'}
+            </button>
+          </>
+        ) : (
+          <button
+            type="button"
+            disabled={busy}
+            onClick={() => void scorecards.share(entryId)}
+            className="rounded-md bg-emerald-500 px-2 py-1 font-semibold text-emerald-950 disabled:opacity-50"
+          >
+            {busy ? 'Sharing…' : 'Share to thread'}
+          </button>
+        )}
+        {error ? <span className="text-red-300">{error}</span> : null}
+      </div>
+    );
+  };
+
   const renderResultCard = (item: AnalyzeResultItem) => {
     const thickness =
       item.averageThicknessMm != null ? `${item.averageThicknessMm.toFixed(1)} mm` : 'n/a';
@@ -244,6 +459,16 @@ export const App = () => {
           <div className="text-sm font-bold">
             {overall}
             {scoreTag(item.overallScore ?? null)}
+            {item.calibrated ? (
+              <span className="ml-1 rounded-full bg-sky-500/20 px-2 py-0.5 text-xs uppercase tracking-wide text-sky-200">
+                Calibrated
+              </span>
+            ) : null}
+            {item.consensus?.lowConfidence ? (
+              <span className="ml-1 rounded-full bg-amber-500/20 px-2 py-0.5 text-xs uppercase tracking-wide text-amber-200">
+                Low confidence
+              </span>
+            ) : null}
           </div>
         </div>
         <div className="space-y-1 text-xs">
@@ -263,6 +488,40 @@ export const App = () => {
             <span className="text-gray-400">Quality label</span>
             <span className="font-mono">{item.cutQualityLabel || 'n/a'}</span>
           </div>
+          {item.calibration ? (
+            <div className="flex justify-between">
+              <span className="text-gray-400">Scale ({referenceLabel(item.calibration.reference)})</span>
+              <span className="font-mono">
+                {item.calibration.pxPerMm != null
+                  ? `${item.calibration.pxPerMm} px/mm`
+                  : 'not found; estimated'}
+              </span>
+            </div>
+          ) : null}
+          {item.consensus ? (
+            <div className="flex justify-between">
+              <span className="text-gray-400">Consensus ({item.consensus.samples} analyses)</span>
+              <span className="font-mono">
+                {Math.round(item.consensus.confidence * 100)}% confident
+                {item.consensus.scoreRange
+                  ? ` · ${item.consensus.scoreRange.min}-${item.consensus.scoreRange.max}`
+                  : ''}
+              </span>
+            </div>
+          ) : null}
+          {item.cutStyle && item.cutStyle !== 'fine' ? (
+            <div className="flex justify-between">
+              <span className="text-gray-400">{cutStyleLabel(item.cutStyle)}</span>
+              <span className="font-mono">
+                {item.averageCutAngleDeg != null
+                  ? `${Math.round(item.averageCutAngleDeg)}°`
+                  : item.averagePieceLengthMm != null
+                    ? `${Math.round(item.averagePieceLengthMm)} mm`
+                    : 'n/a'}
+                {item.targetScore != null ? ` · ${Math.round(item.targetScore * 100)}% on target` : ''}
+              </span>
+            </div>
+          ) : null}
         </div>
         <div className="mt-2 space-y-1 text-xs text-gray-300">
           <div>
@@ -271,10 +530,17 @@ export const App = () => {
           <div>
             Overall score balances thickness consistency ({consistencyPct}) and cut quality ({cutQualityPct}).
           </div>
-          {renderRegionGrid(item)}
+          {renderRegionGrid(item, preview?.url)}
           {modelNotes ? <div>Model notes: {modelNotes}</div> : null}
           <div>{item.notes}</div>
+          {item.cache?.hit && item.cache.cachedAt != null ? (
+            <div className="text-slate-500">
+              Same image as an analysis from {new Date(item.cache.cachedAt).toLocaleString()}; reused
+              that result ({item.cache.model}).
+            </div>
+          ) : null}
         </div>
+        {item.entryId ? renderShareControls(item.entryId) : null}
       </div>
     );
   };
@@ -288,44 +554,130 @@ export const App = () => {
           to estimate chive thickness and cut quality, then score each bunch from 0–100.
         </p>
 
-        <div className="mt-4 flex flex-col gap-3 md:flex-row md:items-center">
-          <input
-            type="file"
-            accept="image/jpeg,image/png"
-            multiple
-            onChange={handleFileChange}
-            className="block w-full text-sm text-slate-200 file:mr-3 file:rounded-md file:border-0 file:bg-emerald-500 file:px-3 file:py-1.5 file:text-sm file:font-semibold file:text-emerald-950 hover:file:bg-emerald-400"
-          />
-          <button
-            type="button"
-            onClick={handleAnalyze}
-            disabled={!files || files.length === 0 || loading}
-            className="inline-flex items-center justify-center rounded-md bg-emerald-500 px-4 py-2 text-sm font-semibold text-emerald-950 disabled:cursor-not-allowed disabled:bg-slate-700"
-          >
-            {loading ? 'Analyzing…' : 'Analyze chives'}
-          </button>
+        <ChallengeBanner />
+
+        <div className="mt-3 flex gap-2 border-b border-slate-800 text-sm">
+          {(
+            [
+              ['analyze', 'Analyze'],
+              ['gallery', 'Gallery'],
+              ['history', 'My history'],
+              ['leaderboard', 'Leaderboard'],
+              ...(isModerator ? ([['moderation', 'Mod tools']] as const) : []),
+            ] as const
+          ).map(([id, label]) => (
+            <button
+              key={id}
+              type="button"
+              onClick={() => setView(id)}
+              className={`-mb-px border-b-2 px-3 py-1.5 ${
+                view === id ? 'border-emerald-400 text-slate-50' : 'border-transparent text-slate-400'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
         </div>
 
-        {status ? <p className="mt-2 text-sm text-slate-300">{status}</p> : null}
-        {error ? <p className="mt-1 text-sm text-red-400">{error}</p> : null}
+        {view === 'gallery' ? (
+          <GalleryView renderRegionGrid={(submission) => renderRegionGrid(submission, submission.mediaUrl)} />
+        ) : null}
+        {view === 'history' ? <HistoryView /> : null}
+        {view === 'leaderboard' ? (
+          <>
+            <LeaderboardPanel />
+            <PeoplesChoicePanel />
+          </>
+        ) : null}
+        {view === 'moderation' ? (
+          <>
+            <OpsDashboard />
+            <RescorePanel />
+            <DuplicatesPanel />
+          </>
+        ) : null}
+
+        {view === 'analyze' ? (
+          <>
+            <div className="mt-4 flex flex-col gap-3 md:flex-row md:items-center">
+              <select
+                value={cutStyle}
+                onChange={(event) => setCutStyle(event.target.value as CutStyle)}
+                disabled={loading}
+                className="rounded-md border border-slate-700 bg-slate-950 px-2 py-1.5 text-sm text-slate-200"
+              >
+                {CUT_STYLES.map(([id, label]) => (
+                  <option key={id} value={id}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={reference}
+                onChange={(event) => setReference(event.target.value as ReferenceObject)}
+                disabled={loading}
+                title="A coin, ruler or grid in the photo lets the thickness be measured instead of estimated"
+                className="rounded-md border border-slate-700 bg-slate-950 px-2 py-1.5 text-sm text-slate-200"
+              >
+                {REFERENCE_OBJECTS.map(([id, label]) => (
+                  <option key={id} value={id}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="file"
+                accept="image/jpeg,image/png,image/webp,image/heic,image/heif,.heic,.heif"
+                multiple
+                onChange={handleFileChange}
+                className="block w-full text-sm text-slate-200 file:mr-3 file:rounded-md file:border-0 file:bg-emerald-500 file:px-3 file:py-1.5 file:text-sm file:font-semibold file:text-emerald-950 hover:file:bg-emerald-400"
+              />
+              <button
+                type="button"
+                onClick={handleAnalyze}
+                disabled={!files || files.length === 0 || loading}
+                className="inline-flex items-center justify-center rounded-md bg-emerald-500 px-4 py-2 text-sm font-semibold text-emerald-950 disabled:cursor-not-allowed disabled:bg-slate-700"
+              >
+                {loading ? 'Analyzing…' : 'Analyze chives'}
+              </button>
+              {loading && batchId ? (
+                <button
+                  type="button"
+                  onClick={handleCancel}
+                  className="inline-flex items-center justify-center rounded-md border border-slate-600 px-4 py-2 text-sm font-semibold text-slate-200 hover:bg-slate-800"
+                >
+                  Cancel
+                </button>
+              ) : null}
+            </div>
 
-        <div className="mt-4">
-          <h2 className="text-lg font-semibold">Scores</h2>
-          {results && results.length > 0 ? (
-            <div className="mt-2 grid gap-3 md:grid-cols-2 lg:grid-cols-3">
-              {results.map((item) => renderResultCard(item))}
+            {dailyQuota ? (
+              <p className={`mt-2 text-xs ${dailyQuota.remaining > 0 ? 'text-slate-400' : 'text-amber-300'}`}>
+                {dailyQuota.remaining} of {dailyQuota.limit} analyses left today
+              </p>
+            ) : null}
+            {status ? <p className="mt-2 text-sm text-slate-300">{status}</p> : null}
+            {error ? <p className="mt-1 text-sm text-red-400">{error}</p> : null}
+
+            <div className="mt-4">
+              <h2 className="text-lg font-semibold">Scores</h2>
+              {results && results.length > 0 ? (
+                <div className="mt-2 grid gap-3 md:grid-cols-2 lg:grid-cols-3">
+                  {results.map((item) => renderResultCard(item))}
+                </div>
+              ) : (
+                <p className="mt-1 text-sm text-slate-400">No analysis yet.</p>
+              )}
             </div>
-          ) : (
-            <p className="mt-1 text-sm text-slate-400">No analysis yet.</p>
-          )}
-        </div>
 
-        <div className="mt-4">
-          <h3 className="text-sm font-semibold text-slate-200">Raw API response</h3>
-          <pre className="mt-1 max-h-64 overflow-auto rounded bg-slate-950 p-2 text-[11px] leading-snug text-slate-100">
-            {rawJson}
-          </pre>
-        </div>
+            <div className="mt-4">
+              <h3 className="text-sm font-semibold text-slate-200">Raw API response</h3>
+              <pre className="mt-1 max-h-64 overflow-auto rounded bg-slate-950 p-2 text-[11px] leading-snug text-slate-100">
+                {rawJson}
+              </pre>
+            </div>
+          </>
+        ) : null}
       </div>
     </div>
   );
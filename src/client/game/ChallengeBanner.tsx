@@ -0,0 +1,53 @@
+import { context, navigateTo } from '@devvit/web/client';
+import { useChallenge } from '../hooks/useChallenge';
+import { LeaderboardPanel } from './LeaderboardPanel';
+
+export const ChallengeBanner = () => {
+  const data = useChallenge();
+  if (!data?.challenge) return null;
+
+  const { challenge, isOpen, latest } = data;
+  const goToLatest = () => {
+    if (!latest) return;
+    navigateTo(`https://reddit.com/r/${context.subredditName}/comments/${latest.postId}`);
+  };
+
+  return (
+    <div className="mt-3 rounded-lg border border-emerald-700/50 bg-emerald-950/40 p-3 text-sm">
+      <div className="font-semibold">{challenge.title}</div>
+      {challenge.theme || challenge.targetThicknessMm != null ? (
+        <div className="mt-0.5 text-xs text-emerald-200">
+          {challenge.theme ? <span>Theme: {challenge.theme}. </span> : null}
+          {challenge.targetThicknessMm != null ? (
+            <span>
+              Aim for {challenge.targetThicknessMm} mm pieces: fine snips here are scored against
+              it.
+            </span>
+          ) : null}
+        </div>
+      ) : null}
+
+      {isOpen ? (
+        <p className="mt-1 text-xs text-slate-300">
+          Submit your chives below; your best score today counts toward this challenge.
+        </p>
+      ) : (
+        <>
+          <p className="mt-1 text-xs text-slate-300">
+            This challenge has ended. New entries are still scored but no longer change the
+            standings.
+            {latest && latest.postId !== challenge.postId ? (
+              <>
+                {' '}
+                <button type="button" onClick={goToLatest} className="underline">
+                  Go to today&apos;s challenge
+                </button>
+              </>
+            ) : null}
+          </p>
+          <LeaderboardPanel title="Final standings" initialScope="post" initialWindow="alltime" />
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import { useDuplicates } from '../hooks/useDuplicates';
+import type { HistoryEntry } from '../../shared/types/api';
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+const EntrySummary = ({ entry, label }: { entry: HistoryEntry | null; label: string }) => (
+  <div className="flex flex-1 items-center gap-2">
+    {entry?.mediaUrl ? (
+      <img src={entry.mediaUrl} alt="" className="h-10 w-10 rounded object-cover" />
+    ) : (
+      <div className="h-10 w-10 rounded bg-slate-800" />
+    )}
+    <div>
+      <div className="text-slate-400">{label}</div>
+      {entry ? (
+        <div>
+          u/{entry.username} · {formatDate(entry.createdAt)}
+          {entry.overallScore != null ? ` · ${Math.round(entry.overallScore)}/100` : ''}
+        </div>
+      ) : (
+        <div className="text-slate-500">No longer available</div>
+      )}
+    </div>
+  </div>
+);
+
+/** Moderator view of entries whose photo matched an earlier submission. */
+export const DuplicatesPanel = () => {
+  const { items, nextCursor, loading, error, refresh, loadMore } = useDuplicates();
+
+  return (
+    <div className="mt-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Flagged resubmissions</h2>
+        <button
+          type="button"
+          onClick={() => void refresh()}
+          disabled={loading}
+          className="rounded-md border border-slate-700 px-2 py-1 text-xs text-slate-300 disabled:opacity-50"
+        >
+          Refresh
+        </button>
+      </div>
+
+      {error ? <p className="text-sm text-red-400">{error}</p> : null}
+
+      {items.length > 0 ? (
+        <ul className="divide-y divide-slate-800 rounded-lg border border-slate-800 bg-slate-950">
+          {items.map(({ entry, original, distance, flaggedAt }) => (
+            <li key={entry.id} className="flex flex-col gap-2 p-2 text-xs md:flex-row md:items-center">
+              <EntrySummary entry={entry} label="Submission" />
+              <EntrySummary entry={original} label="Matches" />
+              <div className="text-slate-400 md:text-right">
+                {distance === 0 ? 'Identical' : `${distance} bits apart`}
+                <br />
+                flagged {formatDate(flaggedAt)}
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : !loading ? (
+        <p className="text-sm text-slate-400">No resubmitted photos flagged.</p>
+      ) : null}
+
+      {nextCursor != null ? (
+        <button
+          type="button"
+          onClick={loadMore}
+          disabled={loading}
+          className="w-full rounded-md border border-slate-700 py-1.5 text-xs text-slate-300 disabled:opacity-50"
+        >
+          {loading ? 'Loading…' : 'Load more'}
+        </button>
+      ) : null}
+    </div>
+  );
+};
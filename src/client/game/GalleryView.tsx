@@ -0,0 +1,153 @@
+import { useState, type ReactNode } from 'react';
+import { useSubmissions } from '../hooks/useSubmissions';
+import type { Submission, SubmissionSort } from '../../shared/types/api';
+import { describeCrowd } from './community';
+import { VoteControls } from './VoteControls';
+
+const SORTS: [SubmissionSort, string][] = [
+  ['newest', 'Newest'],
+  ['ai', 'Top AI score'],
+  ['community', 'Top community score'],
+];
+
+const pillClass = (active: boolean) =>
+  `rounded-full px-2.5 py-1 text-xs ${
+    active ? 'bg-emerald-500 text-emerald-950' : 'bg-slate-800 text-slate-300'
+  }`;
+
+const formatScore = (score: number | null) => (score != null ? `${Math.round(score)}/100` : 'n/a');
+
+const formatShare = (score: number | null) =>
+  score != null ? `${Math.round(score * 100)}%` : 'n/a';
+
+type GalleryViewProps = {
+  /** The analyze view's 3×3 breakdown, drawn over the submission's photo. */
+  renderRegionGrid: (submission: Submission) => ReactNode;
+};
+
+export const GalleryView = ({ renderRegionGrid }: GalleryViewProps) => {
+  const [sort, setSort] = useState<SubmissionSort>('newest');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { page, loading, error, cursor, busy, vote, nextPage, prevPage } = useSubmissions(sort);
+  const selected = page?.entries.find((entry) => entry.entryId === selectedId) ?? null;
+
+  if (selected) {
+    return (
+      <div className="mt-4 space-y-3">
+        <button
+          type="button"
+          onClick={() => setSelectedId(null)}
+          className="rounded-md border border-slate-700 px-2 py-1 text-xs text-slate-300"
+        >
+          ← Back to gallery
+        </button>
+
+        <img
+          src={selected.mediaUrl}
+          alt={`Chives cut by u/${selected.username}`}
+          className="max-h-96 w-full rounded-lg object-contain"
+        />
+
+        <div className="flex items-start justify-between gap-3">
+          <div className="space-y-1 text-sm">
+            <div className="font-semibold">
+              u/{selected.username} · {formatScore(selected.overallScore)}
+              {selected.calibrated ? (
+                <span className="ml-1 font-normal text-sky-300">· calibrated</span>
+              ) : null}
+            </div>
+            <div className="text-xs text-slate-400">
+              {selected.cutQualityLabel}
+              {selected.averageThicknessMm != null
+                ? ` · ${selected.averageThicknessMm.toFixed(1)} mm`
+                : ''}
+              {' · '}consistency {formatShare(selected.thicknessConsistencyScore)} · cut quality{' '}
+              {formatShare(selected.cutQualityScore)}
+            </div>
+            <div className="text-xs text-slate-400">{describeCrowd(selected.votes)}</div>
+          </div>
+          <VoteControls
+            votes={selected.votes}
+            busy={busy === selected.entryId}
+            onVote={(value) => void vote(selected.entryId, value)}
+          />
+        </div>
+
+        <div className="text-xs text-gray-300">{renderRegionGrid(selected)}</div>
+        {error ? <p className="text-sm text-red-400">{error}</p> : null}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-4 space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {SORTS.map(([id, label]) => (
+          <button
+            key={id}
+            type="button"
+            onClick={() => setSort(id)}
+            className={pillClass(sort === id)}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {sort === 'community' ? (
+        <p className="text-xs text-slate-400">
+          Submissions join this order once a few people have voted on them.
+        </p>
+      ) : null}
+
+      {error ? <p className="text-sm text-red-400">{error}</p> : null}
+
+      {page && page.entries.length > 0 ? (
+        <ul className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+          {page.entries.map((entry) => (
+            <li key={entry.entryId}>
+              <button
+                type="button"
+                onClick={() => setSelectedId(entry.entryId)}
+                className="w-full overflow-hidden rounded-lg border border-slate-800 bg-slate-950 text-left"
+              >
+                <img src={entry.mediaUrl} alt="" className="aspect-square w-full object-cover" />
+                <div className="space-y-0.5 p-2 text-xs">
+                  <div className="truncate font-semibold">u/{entry.username}</div>
+                  <div className="text-slate-400">
+                    AI {formatScore(entry.overallScore)}
+                    {entry.votes.communityScore != null
+                      ? ` · crowd ${entry.votes.communityScore}`
+                      : ''}
+                  </div>
+                  <div className="truncate text-slate-500">{entry.cutQualityLabel}</div>
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : !loading ? (
+        <p className="text-sm text-slate-400">No submissions on this post yet.</p>
+      ) : null}
+
+      <div className="flex justify-between text-xs">
+        <button
+          type="button"
+          onClick={prevPage}
+          disabled={loading || cursor === 0}
+          className="rounded-md border border-slate-700 px-2 py-1 text-slate-300 disabled:opacity-40"
+        >
+          Previous
+        </button>
+        <button
+          type="button"
+          onClick={nextPage}
+          disabled={loading || page?.nextCursor == null}
+          className="rounded-md border border-slate-700 px-2 py-1 text-slate-300 disabled:opacity-40"
+        >
+          Next
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,194 @@
+import { useState } from 'react';
+import { useFlair } from '../hooks/useFlair';
+import { useHistory } from '../hooks/useHistory';
+import { useVotes } from '../hooks/useVotes';
+import type { CommunityVotes, CutStyle, HistoryEntry } from '../../shared/types/api';
+import { describeCrowd } from './community';
+import { CUT_STYLES } from './cutStyles';
+
+const TREND_WINDOW = 5;
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+const average = (values: number[]) =>
+  values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+const Sparkline = ({ scores }: { scores: number[] }) => {
+  if (scores.length < 2) return null;
+
+  const width = 240;
+  const height = 48;
+  const step = width / (scores.length - 1);
+  const points = scores
+    .map((score, i) => `${(i * step).toFixed(1)},${(height - (score / 100) * height).toFixed(1)}`)
+    .join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="h-12 w-full" preserveAspectRatio="none">
+      <polyline
+        points={points}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth="2"
+        className="text-emerald-400"
+      />
+    </svg>
+  );
+};
+
+const CrowdLine = ({ votes }: { votes: CommunityVotes | null }) =>
+  votes ? <div className="text-slate-400">{describeCrowd(votes)}</div> : null;
+
+export const HistoryView = () => {
+  const [cutStyle, setCutStyle] = useState<CutStyle>('fine');
+  const { entries, best, nextCursor, loading, error, refresh, loadMore } = useHistory(cutStyle);
+  const { flair, saving: savingFlair, setOptOut } = useFlair();
+  const { votesOf } = useVotes(entries.map((e) => e.id));
+
+  // Entries arrive newest-first; the trend reads oldest → newest.
+  const scored = entries
+    .filter((e): e is HistoryEntry & { overallScore: number } => e.overallScore != null)
+    .slice()
+    .reverse();
+  const scores = scored.map((e) => e.overallScore);
+
+  const recent = average(scores.slice(-TREND_WINDOW));
+  const earlier = average(scores.slice(-TREND_WINDOW * 2, -TREND_WINDOW));
+  const delta = recent != null && earlier != null ? Math.round(recent - earlier) : null;
+
+  return (
+    <div className="mt-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">My history</h2>
+        <button
+          type="button"
+          onClick={() => void refresh()}
+          disabled={loading}
+          className="rounded-md border border-slate-700 px-2 py-1 text-xs text-slate-300 disabled:opacity-50"
+        >
+          Refresh
+        </button>
+      </div>
+
+      {flair?.enabled ? (
+        <label className="flex items-center justify-between gap-2 rounded-lg border border-slate-800 bg-slate-950 p-3 text-xs">
+          <span className="text-slate-300">
+            Score flair:{' '}
+            <span className="font-mono">
+              {flair.optedOut ? 'off' : (flair.best?.text ?? 'awarded with your first ranked score')}
+            </span>
+          </span>
+          <input
+            type="checkbox"
+            checked={!flair.optedOut}
+            disabled={savingFlair}
+            onChange={(event) => void setOptOut(!event.target.checked)}
+          />
+        </label>
+      ) : null}
+
+      <div className="flex flex-wrap gap-2">
+        {CUT_STYLES.map(([id, label]) => (
+          <button
+            key={id}
+            type="button"
+            onClick={() => setCutStyle(id)}
+            className={`rounded-full px-2.5 py-1 text-xs ${
+              cutStyle === id ? 'bg-emerald-500 text-emerald-950' : 'bg-slate-800 text-slate-300'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {error ? <p className="text-sm text-red-400">{error}</p> : null}
+
+      <div className="grid gap-3 md:grid-cols-2">
+        <div className="rounded-lg border border-slate-800 bg-slate-950 p-3">
+          <div className="text-xs uppercase tracking-wide text-slate-400">Personal best</div>
+          {best && best.overallScore != null ? (
+            <div className="mt-1 flex items-baseline gap-2">
+              <span className="text-2xl font-bold">{Math.round(best.overallScore)}/100</span>
+              <span className="text-xs text-slate-400">
+                {best.cutQualityLabel} · {formatDate(best.createdAt)}
+              </span>
+            </div>
+          ) : (
+            <p className="mt-1 text-sm text-slate-400">No scored analyses yet.</p>
+          )}
+        </div>
+
+        <div className="rounded-lg border border-slate-800 bg-slate-950 p-3">
+          <div className="text-xs uppercase tracking-wide text-slate-400">Trend</div>
+          <Sparkline scores={scores} />
+          {delta != null ? (
+            <p className="text-xs text-slate-300">
+              Last {TREND_WINDOW} average is{' '}
+              <span className={delta >= 0 ? 'text-emerald-300' : 'text-red-300'}>
+                {delta >= 0 ? `+${delta}` : delta}
+              </span>{' '}
+              vs the {TREND_WINDOW} before.
+            </p>
+          ) : (
+            <p className="text-xs text-slate-400">Analyze a few more bunches to see a trend.</p>
+          )}
+        </div>
+      </div>
+
+      {entries.length > 0 ? (
+        <ul className="divide-y divide-slate-800 rounded-lg border border-slate-800 bg-slate-950">
+          {entries.map((entry) => (
+            <li key={entry.id} className="flex items-center gap-3 p-2 text-xs">
+              {entry.mediaUrl ? (
+                <img src={entry.mediaUrl} alt="" className="h-10 w-10 rounded object-cover" />
+              ) : (
+                <div className="h-10 w-10 rounded bg-slate-800" />
+              )}
+              <div className="flex-1">
+                <div className="font-semibold">
+                  {entry.overallScore != null
+                    ? `${Math.round(entry.overallScore)}/100`
+                    : 'Not scored'}
+                  {entry.calibrated ? (
+                    <span className="ml-1 font-normal text-sky-300">· calibrated</span>
+                  ) : null}
+                  {entry.consensus?.lowConfidence ? (
+                    <span className="ml-1 font-normal text-amber-300">· low confidence</span>
+                  ) : null}
+                </div>
+                <div className="text-slate-400">
+                  {formatDate(entry.createdAt)} · {entry.cutQualityLabel}
+                  {entry.averageThicknessMm != null
+                    ? ` · ${entry.averageThicknessMm.toFixed(1)} mm`
+                    : ''}
+                  {entry.averagePieceLengthMm != null
+                    ? ` · ${Math.round(entry.averagePieceLengthMm)} mm pieces`
+                    : ''}
+                  {entry.averageCutAngleDeg != null
+                    ? ` · ${Math.round(entry.averageCutAngleDeg)}° cut`
+                    : ''}
+                </div>
+                <CrowdLine votes={votesOf(entry.id)} />
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : !loading ? (
+        <p className="text-sm text-slate-400">No analyses recorded yet.</p>
+      ) : null}
+
+      {nextCursor != null ? (
+        <button
+          type="button"
+          onClick={loadMore}
+          disabled={loading}
+          className="w-full rounded-md border border-slate-700 py-1.5 text-xs text-slate-300 disabled:opacity-50"
+        >
+          {loading ? 'Loading…' : 'Load more'}
+        </button>
+      ) : null}
+    </div>
+  );
+};
@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { useLeaderboard } from '../hooks/useLeaderboard';
+import type { CutStyle, LeaderboardScope, LeaderboardWindow } from '../../shared/types/api';
+import { CUT_STYLES } from './cutStyles';
+
+const SCOPES: [LeaderboardScope, string][] = [
+  ['post', 'This post'],
+  ['subreddit', 'Subreddit'],
+  ['verified', 'Verified'],
+];
+
+const WINDOWS: [LeaderboardWindow, string][] = [
+  ['daily', 'Today'],
+  ['weekly', 'This week'],
+  ['alltime', 'All time'],
+];
+
+const pillClass = (active: boolean) =>
+  `rounded-full px-2.5 py-1 text-xs ${
+    active ? 'bg-emerald-500 text-emerald-950' : 'bg-slate-800 text-slate-300'
+  }`;
+
+type LeaderboardPanelProps = {
+  title?: string;
+  initialScope?: LeaderboardScope;
+  initialWindow?: LeaderboardWindow;
+};
+
+export const LeaderboardPanel = ({
+  title = 'Leaderboard',
+  initialScope = 'post',
+  initialWindow = 'daily',
+}: LeaderboardPanelProps) => {
+  const [scope, setScope] = useState<LeaderboardScope>(initialScope);
+  const [timeWindow, setTimeWindow] = useState<LeaderboardWindow>(initialWindow);
+  const [cutStyle, setCutStyle] = useState<CutStyle>('fine');
+  const { board, loading, error, cursor, nextPage, prevPage } = useLeaderboard(
+    scope,
+    timeWindow,
+    cutStyle
+  );
+
+  return (
+    <div className="mt-4 space-y-3">
+      <h2 className="text-lg font-semibold">{title}</h2>
+
+      <div className="flex flex-wrap gap-2">
+        {SCOPES.map(([id, label]) => (
+          <button
+            key={id}
+            type="button"
+            onClick={() => setScope(id)}
+            className={pillClass(scope === id)}
+          >
+            {label}
+          </button>
+        ))}
+        <span className="mx-1 border-l border-slate-700" />
+        {WINDOWS.map(([id, label]) => (
+          <button
+            key={id}
+            type="button"
+            onClick={() => setTimeWindow(id)}
+            className={pillClass(timeWindow === id)}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {CUT_STYLES.map(([id, label]) => (
+          <button
+            key={id}
+            type="button"
+            onClick={() => setCutStyle(id)}
+            className={pillClass(cutStyle === id)}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {scope === 'verified' ? (
+        <p className="text-xs text-slate-400">
+          Only photos measured against a coin, ruler or grid count here.
+        </p>
+      ) : null}
+
+      {error ? <p className="text-sm text-red-400">{error}</p> : null}
+
+      {board?.me ? (
+        <p className="text-sm text-slate-300">
+          Your rank: <span className="font-semibold">#{board.me.rank}</span> of {board.total} · best{' '}
+          {Math.round(board.me.score)}/100
+        </p>
+      ) : board ? (
+        <p className="text-sm text-slate-400">You have no score on this board yet.</p>
+      ) : null}
+
+      {board && board.entries.length > 0 ? (
+        <ol className="divide-y divide-slate-800 rounded-lg border border-slate-800 bg-slate-950">
+          {board.entries.map((entry) => (
+            <li
+              key={entry.userId}
+              className={`flex items-center justify-between px-3 py-2 text-sm ${
+                board.me?.rank === entry.rank ? 'bg-emerald-500/10' : ''
+              }`}
+            >
+              <span>
+                <span className="mr-2 inline-block w-8 font-mono text-slate-400">
+                  #{entry.rank}
+                </span>
+                u/{entry.username}
+              </span>
+              <span className="font-mono font-semibold">{Math.round(entry.score)}</span>
+            </li>
+          ))}
+        </ol>
+      ) : !loading ? (
+        <p className="text-sm text-slate-400">No scores on this board yet.</p>
+      ) : null}
+
+      <div className="flex justify-between text-xs">
+        <button
+          type="button"
+          onClick={prevPage}
+          disabled={loading || cursor === 0}
+          className="rounded-md border border-slate-700 px-2 py-1 text-slate-300 disabled:opacity-40"
+        >
+          Previous
+        </button>
+        <button
+          type="button"
+          onClick={nextPage}
+          disabled={loading || board?.nextCursor == null}
+          className="rounded-md border border-slate-700 px-2 py-1 text-slate-300 disabled:opacity-40"
+        >
+          Next
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,253 @@
+import type { ReactNode } from 'react';
+import { useOps } from '../hooks/useOps';
+import type { OpsJob } from '../../shared/types/api';
+
+// The worker reports every few seconds; older stats mean none is running.
+const STALE_STATS_MS = 120000;
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const buttonClass =
+  'rounded-md border border-slate-700 px-2 py-1 text-xs text-slate-300 disabled:opacity-50';
+
+const Stat = ({ label, value }: { label: string; value: number | string }) => (
+  <div className="rounded-lg border border-slate-800 bg-slate-950 p-2">
+    <div className="text-xs text-slate-400">{label}</div>
+    <div className="font-mono text-lg">{value}</div>
+  </div>
+);
+
+const JobRow = ({ job, children }: { job: OpsJob; children?: ReactNode }) => (
+  <li className="flex items-start justify-between gap-2 p-2 text-xs">
+    <div className="min-w-0">
+      <div className="truncate">
+        {job.filename ?? `Job ${job.jobId.slice(0, 8)}`}
+        {job.submittedByName ? ` · u/${job.submittedByName}` : ''}
+        {job.attempts ? ` · ${job.attempts} attempt(s)` : ''}
+      </div>
+      {job.error ? <div className="text-red-300">{job.error}</div> : null}
+      {job.deadline != null ? (
+        <div className={job.stuck ? 'text-amber-300' : 'text-slate-500'}>
+          {job.stuck ? 'Stuck; claim ran out' : 'Claim runs out'} {formatTime(job.deadline)}
+        </div>
+      ) : null}
+      {job.failedAt != null ? (
+        <div className="text-slate-500">Failed {formatTime(job.failedAt)}</div>
+      ) : null}
+    </div>
+    {children}
+  </li>
+);
+
+/** Moderator view of the analysis pipeline, with the actions that fix it. */
+export const OpsDashboard = () => {
+  const {
+    overview,
+    loading,
+    busy,
+    error,
+    message,
+    refresh,
+    requeue,
+    purgeStuck,
+    setHidden,
+    ban,
+    unban,
+  } = useOps();
+
+  const stale = overview?.queue ? Date.now() - overview.queue.at > STALE_STATS_MS : true;
+  const stuck = overview?.inFlight.filter((job) => job.stuck).length ?? 0;
+  const banned = new Set(overview?.bans.map((b) => b.userId));
+  const maxDaily = Math.max(1, ...(overview?.daily.map((d) => d.recorded + d.failed) ?? []));
+
+  return (
+    <div className="mt-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Analysis pipeline</h2>
+        <button
+          type="button"
+          onClick={() => void refresh()}
+          disabled={loading}
+          className={buttonClass}
+        >
+          Refresh
+        </button>
+      </div>
+
+      {error ? <p className="text-sm text-red-400">{error}</p> : null}
+      {message ? <p className="text-sm text-emerald-300">{message}</p> : null}
+
+      {overview ? (
+        <>
+          <div className="grid grid-cols-2 gap-2 md:grid-cols-4">
+            <Stat label="Queued" value={overview.queue?.queued ?? '?'} />
+            <Stat label="Processing" value={overview.queue?.processing ?? '?'} />
+            <Stat label="Waiting to start or retry" value={overview.delayed} />
+            <Stat label="Dead-lettered" value={overview.queue?.dead ?? '?'} />
+          </div>
+          {stale ? (
+            <p className="text-xs text-amber-300">
+              {overview.queue
+                ? `No worker has reported since ${formatTime(overview.queue.at)}; is one running?`
+                : 'No worker has reported yet; queue counts are unknown.'}
+            </p>
+          ) : null}
+
+          <section className="space-y-1">
+            <h3 className="text-sm font-semibold">Analyses per day</h3>
+            <div className="flex h-20 items-end gap-1">
+              {overview.daily.map(({ date, recorded, failed }) => (
+                <div
+                  key={date}
+                  title={`${date}: ${recorded} recorded, ${failed} failed`}
+                  className="flex flex-1 flex-col justify-end"
+                  style={{ height: '100%' }}
+                >
+                  <div
+                    className="bg-red-500/60"
+                    style={{ height: `${(failed / maxDaily) * 100}%` }}
+                  />
+                  <div
+                    className="bg-emerald-500/70"
+                    style={{ height: `${(recorded / maxDaily) * 100}%` }}
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-slate-400">
+              Last {overview.daily.length} days (UTC); green recorded, red failed.
+            </p>
+          </section>
+
+          <section className="space-y-1">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold">In flight ({overview.inFlight.length})</h3>
+              <button
+                type="button"
+                onClick={() => void purgeStuck()}
+                disabled={busy || stuck === 0}
+                className={buttonClass}
+              >
+                Purge {stuck} stuck
+              </button>
+            </div>
+            {overview.inFlight.length ? (
+              <ul className="divide-y divide-slate-800 rounded-lg border border-slate-800 bg-slate-950">
+                {overview.inFlight.map((job) => (
+                  <JobRow key={job.jobId} job={job} />
+                ))}
+              </ul>
+            ) : (
+              <p className="text-xs text-slate-400">Nothing is being analyzed.</p>
+            )}
+          </section>
+
+          <section className="space-y-1">
+            <h3 className="text-sm font-semibold">Failed</h3>
+            {overview.failed.length ? (
+              <ul className="divide-y divide-slate-800 rounded-lg border border-slate-800 bg-slate-950">
+                {overview.failed.map((job) => (
+                  <JobRow key={job.jobId} job={job}>
+                    <button
+                      type="button"
+                      onClick={() => void requeue(job.jobId)}
+                      disabled={busy}
+                      className={buttonClass}
+                    >
+                      Requeue
+                    </button>
+                  </JobRow>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-xs text-slate-400">No failed jobs.</p>
+            )}
+          </section>
+
+          <section className="space-y-1">
+            <h3 className="text-sm font-semibold">Recent submissions</h3>
+            {overview.recent.length ? (
+              <ul className="divide-y divide-slate-800 rounded-lg border border-slate-800 bg-slate-950">
+                {overview.recent.map((entry) => (
+                  <li
+                    key={entry.id}
+                    className="flex items-center justify-between gap-2 p-2 text-xs"
+                  >
+                    <div className="flex min-w-0 items-center gap-2">
+                      {entry.mediaUrl ? (
+                        <img src={entry.mediaUrl} alt="" className="h-8 w-8 rounded object-cover" />
+                      ) : (
+                        <div className="h-8 w-8 rounded bg-slate-800" />
+                      )}
+                      <div className="truncate">
+                        u/{entry.username} · {formatTime(entry.createdAt)}
+                        {entry.overallScore != null
+                          ? ` · ${Math.round(entry.overallScore)}/100`
+                          : ''}
+                        {entry.hidden ? ' · hidden' : ''}
+                      </div>
+                    </div>
+                    <div className="flex shrink-0 gap-1">
+                      <button
+                        type="button"
+                        onClick={() => void setHidden(entry.id, !entry.hidden)}
+                        disabled={busy}
+                        className={buttonClass}
+                      >
+                        {entry.hidden ? 'Unhide' : 'Hide'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => void ban(entry.userId, entry.username)}
+                        disabled={busy || banned.has(entry.userId)}
+                        className={buttonClass}
+                      >
+                        {banned.has(entry.userId) ? 'Banned' : 'Ban'}
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-xs text-slate-400">No submissions yet.</p>
+            )}
+          </section>
+
+          <section className="space-y-1">
+            <h3 className="text-sm font-semibold">Banned from submitting</h3>
+            {overview.bans.length ? (
+              <ul className="divide-y divide-slate-800 rounded-lg border border-slate-800 bg-slate-950">
+                {overview.bans.map((b) => (
+                  <li
+                    key={b.userId}
+                    className="flex items-center justify-between gap-2 p-2 text-xs"
+                  >
+                    <span>
+                      u/{b.username} · by u/{b.bannedBy} · {formatTime(b.bannedAt)}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => void unban(b.userId)}
+                      disabled={busy}
+                      className={buttonClass}
+                    >
+                      Lift ban
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-xs text-slate-400">Nobody is banned.</p>
+            )}
+          </section>
+        </>
+      ) : null}
+    </div>
+  );
+};
@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { usePeoplesChoice } from '../hooks/usePeoplesChoice';
+import type { PeoplesChoiceScope } from '../../shared/types/api';
+import { describeCrowd } from './community';
+import { VoteControls } from './VoteControls';
+
+const SCOPES: [PeoplesChoiceScope, string][] = [
+  ['post', 'This post'],
+  ['subreddit', 'Subreddit'],
+];
+
+const pillClass = (active: boolean) =>
+  `rounded-full px-2.5 py-1 text-xs ${
+    active ? 'bg-emerald-500 text-emerald-950' : 'bg-slate-800 text-slate-300'
+  }`;
+
+export const PeoplesChoicePanel = () => {
+  const [scope, setScope] = useState<PeoplesChoiceScope>('post');
+  const { board, loading, error, cursor, busy, vote, nextPage, prevPage } = usePeoplesChoice(scope);
+
+  return (
+    <div className="mt-6 space-y-3">
+      <h2 className="text-lg font-semibold">People's choice</h2>
+      <p className="text-xs text-slate-400">
+        Ranked by your votes rather than the AI. Vote on anyone's bunch but your own.
+      </p>
+
+      <div className="flex flex-wrap gap-2">
+        {SCOPES.map(([id, label]) => (
+          <button
+            key={id}
+            type="button"
+            onClick={() => setScope(id)}
+            className={pillClass(scope === id)}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {error ? <p className="text-sm text-red-400">{error}</p> : null}
+
+      {board && board.entries.length > 0 ? (
+        <ol className="divide-y divide-slate-800 rounded-lg border border-slate-800 bg-slate-950">
+          {board.entries.map((entry) => (
+            <li key={entry.entryId} className="flex items-center gap-3 px-3 py-2 text-sm">
+              <span className="inline-block w-8 font-mono text-slate-400">#{entry.rank}</span>
+              {entry.mediaUrl ? (
+                <img src={entry.mediaUrl} alt="" className="h-10 w-10 rounded object-cover" />
+              ) : (
+                <div className="h-10 w-10 rounded bg-slate-800" />
+              )}
+              <div className="flex-1">
+                <div>
+                  u/{entry.username}
+                  {entry.votes.aiScore != null ? (
+                    <span className="ml-1 text-xs text-slate-400">
+                      · AI {Math.round(entry.votes.aiScore)}/100
+                    </span>
+                  ) : null}
+                </div>
+                <div className="text-xs text-slate-400">{describeCrowd(entry.votes)}</div>
+              </div>
+              <VoteControls
+                votes={entry.votes}
+                busy={busy === entry.entryId}
+                onVote={(value) => void vote(entry.entryId, value)}
+              />
+            </li>
+          ))}
+        </ol>
+      ) : !loading ? (
+        <p className="text-sm text-slate-400">Nothing to vote on here yet.</p>
+      ) : null}
+
+      <div className="flex justify-between text-xs">
+        <button
+          type="button"
+          onClick={prevPage}
+          disabled={loading || cursor === 0}
+          className="rounded-md border border-slate-700 px-2 py-1 text-slate-300 disabled:opacity-40"
+        >
+          Previous
+        </button>
+        <button
+          type="button"
+          onClick={nextPage}
+          disabled={loading || board?.nextCursor == null}
+          className="rounded-md border border-slate-700 px-2 py-1 text-slate-300 disabled:opacity-40"
+        >
+          Next
+        </button>
+      </div>
+    </div>
+  );
+};
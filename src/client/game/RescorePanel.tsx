@@ -0,0 +1,34 @@
+import { useRescore } from '../hooks/useRescore';
+
+/** Lets moderators apply a changed scoring rubric to entries already recorded. */
+export const RescorePanel = () => {
+  const { running, rubricVersion, users, updated, skipped, error, run } = useRescore();
+
+  return (
+    <div className="mt-4 space-y-2 rounded-lg border border-slate-800 bg-slate-950 p-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Scoring rubric</h2>
+        <button
+          type="button"
+          onClick={() => void run()}
+          disabled={running}
+          className="rounded-md border border-slate-700 px-2 py-1 text-xs text-slate-300 disabled:opacity-50"
+        >
+          {running ? 'Re-scoring…' : 'Re-score history'}
+        </button>
+      </div>
+      <p className="text-xs text-slate-400">
+        After changing the scoring settings, re-score past entries so history, personal bests and
+        current leaderboards use the new rubric. Stored measurements are reused; nothing is sent to
+        the model again.
+      </p>
+      {rubricVersion ? (
+        <p className="text-xs text-slate-300">
+          Rubric {rubricVersion}: {updated} entries re-scored, {skipped} unchanged across {users}{' '}
+          users{running ? ' so far' : ''}.
+        </p>
+      ) : null}
+      {error ? <p className="text-sm text-red-400">{error}</p> : null}
+    </div>
+  );
+};
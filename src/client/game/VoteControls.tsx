@@ -0,0 +1,41 @@
+import type { CommunityVotes, VoteValue } from '../../shared/types/api';
+
+type VoteControlsProps = {
+  votes: CommunityVotes;
+  busy?: boolean;
+  onVote: (vote: VoteValue) => void;
+};
+
+const arrowClass = (active: boolean) =>
+  `rounded-md border px-1.5 py-0.5 text-xs disabled:opacity-40 ${
+    active ? 'border-emerald-400 text-emerald-300' : 'border-slate-700 text-slate-300'
+  }`;
+
+/** Up/down buttons with the net count; pressing your current vote takes it back. */
+export const VoteControls = ({ votes, busy = false, onVote }: VoteControlsProps) => {
+  const disabled = busy || !votes.canVote;
+
+  return (
+    <div className="flex items-center gap-1" title={`${votes.up} up, ${votes.down} down`}>
+      <button
+        type="button"
+        aria-label="Vote up"
+        onClick={() => onVote(votes.myVote === 1 ? 0 : 1)}
+        disabled={disabled}
+        className={arrowClass(votes.myVote === 1)}
+      >
+        ▲
+      </button>
+      <span className="w-6 text-center font-mono text-xs">{votes.net}</span>
+      <button
+        type="button"
+        aria-label="Vote down"
+        onClick={() => onVote(votes.myVote === -1 ? 0 : -1)}
+        disabled={disabled}
+        className={arrowClass(votes.myVote === -1)}
+      >
+        ▼
+      </button>
+    </div>
+  );
+};
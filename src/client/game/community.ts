@@ -0,0 +1,19 @@
+import type { CommunityVotes } from '../../shared/types/api';
+
+const VERDICTS: Record<NonNullable<CommunityVotes['crowdVsAi']>['verdict'], string> = {
+  agrees: 'the crowd agrees with the AI',
+  kinder: 'the crowd is kinder than the AI',
+  harsher: 'the crowd is harsher than the AI',
+};
+
+/** "Crowd 92 vs AI 85: the crowd agrees with the AI", or how many votes so far. */
+export const describeCrowd = ({ up, down, communityScore, aiScore, crowdVsAi }: CommunityVotes) => {
+  const votes = up + down;
+  if (communityScore == null) {
+    return votes ? `${votes} vote${votes === 1 ? '' : 's'} so far` : 'No votes yet';
+  }
+
+  const ai = aiScore != null ? ` vs AI ${Math.round(aiScore)}` : '';
+  const verdict = crowdVsAi ? `: ${VERDICTS[crowdVsAi.verdict]}` : '';
+  return `Crowd ${communityScore}${ai}${verdict}`;
+};
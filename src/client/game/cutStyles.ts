@@ -0,0 +1,11 @@
+import type { CutStyle } from '../../shared/types/api';
+
+/** Matches `CUT_STYLES` in src/server/domain/cutStyles.ts. */
+export const CUT_STYLES: [CutStyle, string][] = [
+  ['fine', 'Fine snip (1-2 mm)'],
+  ['bias', 'Bias cut (~45°)'],
+  ['baton', 'Batons (2-3 cm)'],
+];
+
+export const cutStyleLabel = (style: CutStyle) =>
+  CUT_STYLES.find(([id]) => id === style)?.[1] ?? style;
@@ -0,0 +1,14 @@
+import type { ReferenceObject } from '../../shared/types/api';
+
+/** Matches `REFERENCE_OBJECTS` in src/server/domain/calibration.ts. */
+export const REFERENCE_OBJECTS: [ReferenceObject, string][] = [
+  ['none', 'No reference'],
+  ['us_quarter', 'US quarter'],
+  ['euro_coin', '1 euro coin'],
+  ['ruler', 'Ruler'],
+  ['grid_1cm', '1 cm grid'],
+  ['grid_1in', '1 inch grid'],
+];
+
+export const referenceLabel = (reference: ReferenceObject) =>
+  REFERENCE_OBJECTS.find(([id]) => id === reference)?.[1] ?? reference;
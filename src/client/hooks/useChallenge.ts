@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+import type { ChallengeResponse } from '../../shared/types/api';
+
+export const useChallenge = () => {
+  const [challenge, setChallenge] = useState<ChallengeResponse | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const res = await fetch('/api/challenge');
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        const data: ChallengeResponse = await res.json();
+        if (data.type !== 'challenge') throw new Error('Unexpected response');
+        setChallenge(data);
+      } catch (err) {
+        console.error('Failed to load challenge', err);
+      }
+    };
+    void load();
+  }, []);
+
+  return challenge;
+};
@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { DuplicatesResponse, FlaggedDuplicate } from '../../shared/types/api';
+
+interface DuplicatesState {
+  items: FlaggedDuplicate[];
+  nextCursor: number | null;
+  loading: boolean;
+  error: string | null;
+}
+
+const PAGE_SIZE = 20;
+
+export const useDuplicates = () => {
+  const [state, setState] = useState<DuplicatesState>({
+    items: [],
+    nextCursor: null,
+    loading: true,
+    error: null,
+  });
+
+  const fetchPage = useCallback(async (cursor: number) => {
+    setState((prev) => ({ ...prev, loading: true, error: null }));
+    try {
+      const res = await fetch(`/api/mod/duplicates?limit=${PAGE_SIZE}&cursor=${cursor}`);
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const data: DuplicatesResponse = await res.json();
+      if (data.type !== 'duplicates') throw new Error('Unexpected response');
+      setState((prev) => ({
+        items: cursor === 0 ? data.items : [...prev.items, ...data.items],
+        nextCursor: data.nextCursor,
+        loading: false,
+        error: null,
+      }));
+    } catch (err) {
+      console.error('Failed to load duplicates', err);
+      setState((prev) => ({ ...prev, loading: false, error: (err as Error).message }));
+    }
+  }, []);
+
+  useEffect(() => {
+    void fetchPage(0);
+  }, [fetchPage]);
+
+  const refresh = useCallback(() => fetchPage(0), [fetchPage]);
+  const loadMore = useCallback(() => {
+    if (state.nextCursor != null) void fetchPage(state.nextCursor);
+  }, [fetchPage, state.nextCursor]);
+
+  return {
+    ...state,
+    refresh,
+    loadMore,
+  } as const;
+};
@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { FlairResponse } from '../../shared/types/api';
+
+/** The current user's score flair and opt-out. `flair` is null until loaded. */
+export const useFlair = () => {
+  const [flair, setFlair] = useState<FlairResponse | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async (init?: RequestInit) => {
+    const res = await fetch('/api/me/flair', init);
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const data: FlairResponse = await res.json();
+    if (data.type !== 'flair') throw new Error('Unexpected response');
+    setFlair(data);
+  }, []);
+
+  useEffect(() => {
+    load().catch((err) => console.error('Failed to load flair', err));
+  }, [load]);
+
+  const setOptOut = useCallback(
+    async (optOut: boolean) => {
+      setSaving(true);
+      try {
+        await load({
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ optOut }),
+        });
+      } catch (err) {
+        console.error('Failed to update flair preference', err);
+      } finally {
+        setSaving(false);
+      }
+    },
+    [load]
+  );
+
+  return { flair, saving, setOptOut } as const;
+};
@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { CutStyle, HistoryEntry, HistoryResponse } from '../../shared/types/api';
+
+interface HistoryState {
+  entries: HistoryEntry[];
+  best: HistoryEntry | null;
+  nextCursor: number | null;
+  loading: boolean;
+  error: string | null;
+}
+
+const PAGE_SIZE = 20;
+
+export const useHistory = (cutStyle: CutStyle) => {
+  const [state, setState] = useState<HistoryState>({
+    entries: [],
+    best: null,
+    nextCursor: null,
+    loading: true,
+    error: null,
+  });
+
+  const fetchPage = useCallback(async (cursor: number) => {
+    setState((prev) => ({ ...prev, loading: true, error: null }));
+    try {
+      const res = await fetch(
+        `/api/history?style=${cutStyle}&limit=${PAGE_SIZE}&cursor=${cursor}`
+      );
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const data: HistoryResponse = await res.json();
+      if (data.type !== 'history') throw new Error('Unexpected response');
+      setState((prev) => ({
+        entries: cursor === 0 ? data.entries : [...prev.entries, ...data.entries],
+        best: data.best,
+        nextCursor: data.nextCursor,
+        loading: false,
+        error: null,
+      }));
+    } catch (err) {
+      console.error('Failed to load history', err);
+      setState((prev) => ({ ...prev, loading: false, error: (err as Error).message }));
+    }
+  }, [cutStyle]);
+
+  useEffect(() => {
+    void fetchPage(0);
+  }, [fetchPage]);
+
+  const refresh = useCallback(() => fetchPage(0), [fetchPage]);
+  const loadMore = useCallback(() => {
+    if (state.nextCursor != null) void fetchPage(state.nextCursor);
+  }, [fetchPage, state.nextCursor]);
+
+  return {
+    ...state,
+    refresh,
+    loadMore,
+  } as const;
+};
@@ -0,0 +1,36 @@
+import { useEffect, useRef, useState } from 'react';
+import { connectRealtime, context, disconnectRealtime } from '@devvit/web/client';
+import type { JobUpdateMessage } from '../../shared/types/api';
+
+/**
+ * Subscribes to the current user's job updates. Matches `jobChannel` in
+ * src/server/core/jobEvents.ts. `connected` is false for anonymous users and
+ * whenever the socket drops, so callers know to fall back to polling.
+ */
+export const useJobUpdates = (onUpdate: (message: JobUpdateMessage) => void) => {
+  const [connected, setConnected] = useState(false);
+  const handlerRef = useRef(onUpdate);
+  handlerRef.current = onUpdate;
+
+  useEffect(() => {
+    const userId = context.userId;
+    if (!userId) return;
+
+    const channel = `jobs_${userId}`;
+    void connectRealtime<JobUpdateMessage>({
+      channel,
+      onConnect: () => setConnected(true),
+      onDisconnect: () => setConnected(false),
+      onMessage: (message) => {
+        if (message.type === 'job') handlerRef.current(message);
+      },
+    }).catch((err) => console.error('Failed to connect to job updates', err));
+
+    return () => {
+      setConnected(false);
+      void disconnectRealtime(channel);
+    };
+  }, []);
+
+  return { connected } as const;
+};
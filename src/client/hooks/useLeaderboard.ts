@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useState } from 'react';
+import type {
+  CutStyle,
+  LeaderboardResponse,
+  LeaderboardScope,
+  LeaderboardWindow,
+} from '../../shared/types/api';
+
+interface LeaderboardState {
+  board: LeaderboardResponse | null;
+  loading: boolean;
+  error: string | null;
+}
+
+const PAGE_SIZE = 10;
+
+export const useLeaderboard = (
+  scope: LeaderboardScope,
+  timeWindow: LeaderboardWindow,
+  cutStyle: CutStyle
+) => {
+  const [state, setState] = useState<LeaderboardState>({ board: null, loading: true, error: null });
+  const [cursor, setCursor] = useState(0);
+
+  // Switching boards starts over from the first page.
+  useEffect(() => {
+    setCursor(0);
+  }, [scope, timeWindow, cutStyle]);
+
+  const load = useCallback(async () => {
+    setState((prev) => ({ ...prev, loading: true, error: null }));
+    try {
+      const params = new URLSearchParams({
+        scope,
+        window: timeWindow,
+        style: cutStyle,
+        limit: String(PAGE_SIZE),
+        cursor: String(cursor),
+      });
+      const res = await fetch(`/api/leaderboard?${params.toString()}`);
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const data: LeaderboardResponse = await res.json();
+      if (data.type !== 'leaderboard') throw new Error('Unexpected response');
+      setState({ board: data, loading: false, error: null });
+    } catch (err) {
+      console.error('Failed to load leaderboard', err);
+      setState((prev) => ({ ...prev, loading: false, error: (err as Error).message }));
+    }
+  }, [scope, timeWindow, cutStyle, cursor]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const nextPage = useCallback(() => {
+    if (state.board?.nextCursor != null) setCursor(state.board.nextCursor);
+  }, [state.board]);
+  const prevPage = useCallback(() => setCursor((c) => Math.max(0, c - PAGE_SIZE)), []);
+
+  return {
+    ...state,
+    cursor,
+    refresh: load,
+    nextPage,
+    prevPage,
+  } as const;
+};
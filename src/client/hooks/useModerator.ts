@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import type { ModeratorStatusResponse } from '../../shared/types/api';
+
+/** Whether the current user moderates this subreddit; false until known. */
+export const useModerator = () => {
+  const [isModerator, setIsModerator] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const res = await fetch('/api/me/moderator');
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        const data: ModeratorStatusResponse = await res.json();
+        if (data.type !== 'moderator') throw new Error('Unexpected response');
+        setIsModerator(data.isModerator);
+      } catch (err) {
+        console.error('Failed to check moderator status', err);
+      }
+    };
+    void load();
+  }, []);
+
+  return { isModerator } as const;
+};
@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { OpsActionResponse, OpsResponse } from '../../shared/types/api';
+
+interface OpsState {
+  overview: OpsResponse | null;
+  loading: boolean;
+  /** An action is running; actions are one at a time. */
+  busy: boolean;
+  error: string | null;
+  /** Result of the last action. */
+  message: string | null;
+}
+
+/** The moderator ops dashboard: `/api/mod/ops` and its actions. */
+export const useOps = () => {
+  const [state, setState] = useState<OpsState>({
+    overview: null,
+    loading: true,
+    busy: false,
+    error: null,
+    message: null,
+  });
+
+  const refresh = useCallback(async () => {
+    setState((prev) => ({ ...prev, loading: true, error: null }));
+    try {
+      const res = await fetch('/api/mod/ops');
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const data: OpsResponse = await res.json();
+      if (data.type !== 'ops') throw new Error('Unexpected response');
+      setState((prev) => ({ ...prev, overview: data, loading: false }));
+    } catch (err) {
+      console.error('Failed to load ops overview', err);
+      setState((prev) => ({ ...prev, loading: false, error: (err as Error).message }));
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const act = useCallback(
+    async (path: string, method: 'POST' | 'DELETE', body?: unknown) => {
+      setState((prev) => ({ ...prev, busy: true, error: null, message: null }));
+      try {
+        const res = await fetch(path, {
+          method,
+          ...(body !== undefined
+            ? { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) }
+            : {}),
+        });
+        const data: OpsActionResponse | { status: string; message: string } = await res.json();
+        if (!res.ok || !('type' in data)) {
+          throw new Error('message' in data ? data.message : `HTTP ${res.status}`);
+        }
+        setState((prev) => ({ ...prev, busy: false, message: data.message }));
+        await refresh();
+      } catch (err) {
+        console.error('Ops action failed', err);
+        setState((prev) => ({ ...prev, busy: false, error: (err as Error).message }));
+      }
+    },
+    [refresh]
+  );
+
+  const requeue = useCallback(
+    (jobId: string) => act(`/api/mod/ops/jobs/${encodeURIComponent(jobId)}/requeue`, 'POST'),
+    [act]
+  );
+  const purgeStuck = useCallback(() => act('/api/mod/ops/purge-stuck', 'POST'), [act]);
+  const setHidden = useCallback(
+    (entryId: string, hidden: boolean) =>
+      act(`/api/mod/ops/entries/${encodeURIComponent(entryId)}/hidden`, 'POST', { hidden }),
+    [act]
+  );
+  const ban = useCallback(
+    (userId: string, username: string) => act('/api/mod/ops/bans', 'POST', { userId, username }),
+    [act]
+  );
+  const unban = useCallback(
+    (userId: string) => act(`/api/mod/ops/bans/${encodeURIComponent(userId)}`, 'DELETE'),
+    [act]
+  );
+
+  return { ...state, refresh, requeue, purgeStuck, setHidden, ban, unban } as const;
+};
@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { PeoplesChoiceResponse, PeoplesChoiceScope, VoteValue } from '../../shared/types/api';
+import { postVote } from './useVotes';
+
+interface PeoplesChoiceState {
+  board: PeoplesChoiceResponse | null;
+  loading: boolean;
+  error: string | null;
+}
+
+const PAGE_SIZE = 10;
+
+export const usePeoplesChoice = (scope: PeoplesChoiceScope) => {
+  const [state, setState] = useState<PeoplesChoiceState>({
+    board: null,
+    loading: true,
+    error: null,
+  });
+  const [cursor, setCursor] = useState(0);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  // Switching boards starts over from the first page.
+  useEffect(() => {
+    setCursor(0);
+  }, [scope]);
+
+  const load = useCallback(async () => {
+    setState((prev) => ({ ...prev, loading: true, error: null }));
+    try {
+      const params = new URLSearchParams({
+        scope,
+        limit: String(PAGE_SIZE),
+        cursor: String(cursor),
+      });
+      const res = await fetch(`/api/leaderboard/peoples-choice?${params.toString()}`);
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const data: PeoplesChoiceResponse = await res.json();
+      if (data.type !== 'peoples_choice') throw new Error('Unexpected response');
+      setState({ board: data, loading: false, error: null });
+    } catch (err) {
+      console.error("Failed to load people's choice", err);
+      setState((prev) => ({ ...prev, loading: false, error: (err as Error).message }));
+    }
+  }, [scope, cursor]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  // Updates the entry in place; the order catches up on the next refresh.
+  const vote = useCallback(async (entryId: string, value: VoteValue) => {
+    setBusy(entryId);
+    try {
+      const votes = await postVote(entryId, value);
+      setState((prev) =>
+        prev.board
+          ? {
+              ...prev,
+              error: null,
+              board: {
+                ...prev.board,
+                entries: prev.board.entries.map((entry) =>
+                  entry.entryId === entryId ? { ...entry, votes } : entry
+                ),
+              },
+            }
+          : prev
+      );
+    } catch (err) {
+      console.error('Failed to vote', err);
+      setState((prev) => ({ ...prev, error: (err as Error).message }));
+    } finally {
+      setBusy(null);
+    }
+  }, []);
+
+  const nextPage = useCallback(() => {
+    if (state.board?.nextCursor != null) setCursor(state.board.nextCursor);
+  }, [state.board]);
+  const prevPage = useCallback(() => setCursor((c) => Math.max(0, c - PAGE_SIZE)), []);
+
+  return {
+    ...state,
+    cursor,
+    busy,
+    refresh: load,
+    vote,
+    nextPage,
+    prevPage,
+  } as const;
+};
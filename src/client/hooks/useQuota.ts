@@ -0,0 +1,29 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { QuotaResponse } from '../../shared/types/api';
+
+/** The current user's analysis quota. `quota` is null until loaded. */
+export const useQuota = () => {
+  const [quota, setQuota] = useState<QuotaResponse | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const res = await fetch('/api/me/quota');
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const data: QuotaResponse = await res.json();
+      if (data.type !== 'quota') throw new Error('Unexpected response');
+      setQuota(data);
+    } catch (err) {
+      console.error('Failed to load quota', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  // The user's daily allowance is the one worth showing; the others only
+  // come up when a request runs into them.
+  const daily = quota?.usage.find((usage) => usage.scope === 'user' && usage.window === 'day') ?? null;
+
+  return { quota, daily, refresh } as const;
+};
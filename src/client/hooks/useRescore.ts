@@ -0,0 +1,52 @@
+import { useCallback, useState } from 'react';
+import type { RescoreResponse } from '../../shared/types/api';
+
+interface RescoreState {
+  running: boolean;
+  rubricVersion: string | null;
+  users: number;
+  updated: number;
+  skipped: number;
+  error: string | null;
+}
+
+const IDLE: RescoreState = {
+  running: false,
+  rubricVersion: null,
+  users: 0,
+  updated: 0,
+  skipped: 0,
+  error: null,
+};
+
+/** Drives `/api/mod/rescore` page by page until every user is done. */
+export const useRescore = () => {
+  const [state, setState] = useState<RescoreState>(IDLE);
+
+  const run = useCallback(async () => {
+    setState({ ...IDLE, running: true });
+    let cursor: number | null = 0;
+    try {
+      while (cursor != null) {
+        const res = await fetch(`/api/mod/rescore?cursor=${cursor}`, { method: 'POST' });
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        const data: RescoreResponse = await res.json();
+        if (data.type !== 'rescore') throw new Error('Unexpected response');
+        setState((prev) => ({
+          ...prev,
+          rubricVersion: data.rubricVersion,
+          users: prev.users + data.users,
+          updated: prev.updated + data.updated,
+          skipped: prev.skipped + data.skipped,
+        }));
+        cursor = data.nextCursor;
+      }
+      setState((prev) => ({ ...prev, running: false }));
+    } catch (err) {
+      console.error('Failed to re-score entries', err);
+      setState((prev) => ({ ...prev, running: false, error: (err as Error).message }));
+    }
+  }, []);
+
+  return { ...state, run } as const;
+};
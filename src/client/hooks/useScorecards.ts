@@ -0,0 +1,49 @@
+import { useCallback, useState } from 'react';
+import type { Scorecard, ScorecardResponse } from '../../shared/types/api';
+
+interface ScorecardState {
+  scorecard: Scorecard | null;
+  busy: boolean;
+  error: string | null;
+}
+
+const IDLE: ScorecardState = { scorecard: null, busy: false, error: null };
+
+/**
+ * Shares result entries to the thread as scorecard comments, and deletes
+ * them again. State is kept per entry id.
+ */
+export const useScorecards = () => {
+  const [states, setStates] = useState<Record<string, ScorecardState>>({});
+
+  const request = useCallback(async (entryId: string, method: 'POST' | 'DELETE') => {
+    setStates((prev) => ({
+      ...prev,
+      [entryId]: { ...(prev[entryId] ?? IDLE), busy: true, error: null },
+    }));
+    try {
+      const res = await fetch(`/api/entries/${encodeURIComponent(entryId)}/scorecard`, { method });
+      const data: ScorecardResponse | { status: string; message: string } = await res.json();
+      if (!res.ok || !('type' in data)) {
+        throw new Error('message' in data ? data.message : `HTTP ${res.status}`);
+      }
+      if (data.type !== 'scorecard') throw new Error('Unexpected response');
+      setStates((prev) => ({
+        ...prev,
+        [entryId]: { scorecard: data.scorecard, busy: false, error: null },
+      }));
+    } catch (err) {
+      console.error('Failed to update scorecard', err);
+      setStates((prev) => ({
+        ...prev,
+        [entryId]: { ...(prev[entryId] ?? IDLE), busy: false, error: (err as Error).message },
+      }));
+    }
+  }, []);
+
+  const share = useCallback((entryId: string) => request(entryId, 'POST'), [request]);
+  const remove = useCallback((entryId: string) => request(entryId, 'DELETE'), [request]);
+  const stateOf = useCallback((entryId: string) => states[entryId] ?? IDLE, [states]);
+
+  return { stateOf, share, remove } as const;
+};
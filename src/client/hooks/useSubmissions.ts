@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { SubmissionSort, SubmissionsResponse, VoteValue } from '../../shared/types/api';
+import { postVote } from './useVotes';
+
+interface SubmissionsState {
+  page: SubmissionsResponse | null;
+  loading: boolean;
+  error: string | null;
+}
+
+const PAGE_SIZE = 12;
+
+export const useSubmissions = (sort: SubmissionSort) => {
+  const [state, setState] = useState<SubmissionsState>({
+    page: null,
+    loading: true,
+    error: null,
+  });
+  const [cursor, setCursor] = useState(0);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  // Changing the order starts over from the first page.
+  useEffect(() => {
+    setCursor(0);
+  }, [sort]);
+
+  const load = useCallback(async () => {
+    setState((prev) => ({ ...prev, loading: true, error: null }));
+    try {
+      const params = new URLSearchParams({
+        sort,
+        limit: String(PAGE_SIZE),
+        cursor: String(cursor),
+      });
+      const res = await fetch(`/api/submissions?${params.toString()}`);
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const data: SubmissionsResponse = await res.json();
+      if (data.type !== 'submissions') throw new Error('Unexpected response');
+      setState({ page: data, loading: false, error: null });
+    } catch (err) {
+      console.error('Failed to load submissions', err);
+      setState((prev) => ({ ...prev, loading: false, error: (err as Error).message }));
+    }
+  }, [sort, cursor]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  // Updates the submission in place; the order catches up on the next refresh.
+  const vote = useCallback(async (entryId: string, value: VoteValue) => {
+    setBusy(entryId);
+    try {
+      const votes = await postVote(entryId, value);
+      setState((prev) =>
+        prev.page
+          ? {
+              ...prev,
+              error: null,
+              page: {
+                ...prev.page,
+                entries: prev.page.entries.map((entry) =>
+                  entry.entryId === entryId ? { ...entry, votes } : entry
+                ),
+              },
+            }
+          : prev
+      );
+    } catch (err) {
+      console.error('Failed to vote', err);
+      setState((prev) => ({ ...prev, error: (err as Error).message }));
+    } finally {
+      setBusy(null);
+    }
+  }, []);
+
+  const nextPage = useCallback(() => {
+    if (state.page?.nextCursor != null) setCursor(state.page.nextCursor);
+  }, [state.page]);
+  const prevPage = useCallback(() => setCursor((c) => Math.max(0, c - PAGE_SIZE)), []);
+
+  return {
+    ...state,
+    cursor,
+    busy,
+    refresh: load,
+    vote,
+    nextPage,
+    prevPage,
+  } as const;
+};
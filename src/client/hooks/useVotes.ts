@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { CommunityVotes, VoteValue, VotesResponse } from '../../shared/types/api';
+
+// The most entries /api/votes answers for at once.
+const BATCH_SIZE = 50;
+
+const readVotes = async (res: Response): Promise<CommunityVotes[]> => {
+  const data: VotesResponse | { status: string; message: string } = await res.json();
+  if (!res.ok || !('type' in data)) {
+    throw new Error('message' in data ? data.message : `HTTP ${res.status}`);
+  }
+  if (data.type !== 'votes') throw new Error('Unexpected response');
+  return data.votes;
+};
+
+/** Sends a vote and returns the entry's updated votes. */
+export const postVote = async (entryId: string, vote: VoteValue): Promise<CommunityVotes> => {
+  const res = await fetch(`/api/entries/${encodeURIComponent(entryId)}/vote`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ vote }),
+  });
+  const [votes] = await readVotes(res);
+  if (!votes) throw new Error('Unexpected response');
+  return votes;
+};
+
+/** Community votes on `entryIds`, kept per entry id, with voting. */
+export const useVotes = (entryIds: string[]) => {
+  const [votes, setVotes] = useState<Record<string, CommunityVotes>>({});
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const key = entryIds.join(',');
+
+  useEffect(() => {
+    if (!key) return;
+    const load = async () => {
+      try {
+        const ids = key.split(',');
+        for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+          const params = new URLSearchParams({ entryIds: ids.slice(i, i + BATCH_SIZE).join(',') });
+          const batch = await readVotes(await fetch(`/api/votes?${params.toString()}`));
+          setVotes((prev) => ({
+            ...prev,
+            ...Object.fromEntries(batch.map((v) => [v.entryId, v])),
+          }));
+        }
+      } catch (err) {
+        console.error('Failed to load votes', err);
+        setError((err as Error).message);
+      }
+    };
+    void load();
+  }, [key]);
+
+  const vote = useCallback(async (entryId: string, value: VoteValue) => {
+    setBusy(entryId);
+    setError(null);
+    try {
+      const updated = await postVote(entryId, value);
+      setVotes((prev) => ({ ...prev, [entryId]: updated }));
+    } catch (err) {
+      console.error('Failed to vote', err);
+      setError((err as Error).message);
+    } finally {
+      setBusy(null);
+    }
+  }, []);
+
+  const votesOf = useCallback((entryId: string) => votes[entryId] ?? null, [votes]);
+
+  return { votesOf, vote, busy, error } as const;
+};
@@ -0,0 +1,75 @@
+import type { HistoryEntry } from '../../shared/types/api';
+import type { ConsensusSummary } from '../domain/consensus';
+import type { BaseChiveMetrics, ScoredChiveMetrics } from '../domain/scoring';
+import {
+  buildHistoryEntry,
+  getHistoryEntry,
+  recordHistoryEntry,
+  type AnalysisSource,
+} from './history';
+import { LEADERBOARD_SCOPES, submitLeaderboardScore } from './leaderboard';
+import { getChallengeForPost, isChallengeOpen } from './challenge';
+import { findOriginal, flagDuplicate, registerHash, unregisterHash } from './duplicates';
+import { awardFlair } from './flair';
+import { syncPeoplesChoice } from './votes';
+
+export const UNRANKED_NOTE =
+  '(Not ranked: this subreddit only ranks photos scored from several analyses.)';
+
+/**
+ * Persists a finished analysis everywhere it counts: the submitter's history
+ * and, when it earned a score, the leaderboards. Idempotent per `source.id`.
+ * Entries made on a closed daily challenge still count subreddit-wide but no
+ * longer change that challenge's final standings. A photo matching an earlier
+ * entry in the subreddit is recorded with `duplicateOf`, flagged for
+ * moderators and kept off the leaderboards. With `requireConsensus`, an entry
+ * scored from a single analysis is recorded as `unranked` and kept off them
+ * too. Ranked entries also raise the submitter's score flair. Every entry
+ * that isn't a duplicate is put up for community votes.
+ */
+export const recordCompletedAnalysis = async (
+  source: AnalysisSource,
+  base: BaseChiveMetrics,
+  scored: ScoredChiveMetrics,
+  {
+    consensus = null,
+    requireConsensus = false,
+  }: { consensus?: ConsensusSummary | null; requireConsensus?: boolean } = {}
+): Promise<HistoryEntry> => {
+  const existing = await getHistoryEntry(source.id);
+  if (existing) return existing;
+
+  // Registered before the check, so a copy finishing concurrently is caught.
+  if (source.perceptualHash) await registerHash(source, source.perceptualHash);
+  const match = source.perceptualHash ? await findOriginal(source, source.perceptualHash) : null;
+  // Only originals stay registered.
+  if (match) await unregisterHash(source);
+
+  const entry: HistoryEntry = {
+    ...buildHistoryEntry(source, base, scored),
+    consensus,
+    duplicateOf: match?.entryId ?? null,
+    ...(requireConsensus && !consensus ? { unranked: true } : {}),
+  };
+
+  const isNew = await recordHistoryEntry(entry);
+  if (!isNew) return entry;
+
+  if (match) {
+    await flagDuplicate(entry, match);
+    return entry;
+  }
+
+  await syncPeoplesChoice(entry);
+  if (entry.unranked) return entry;
+
+  const challenge = entry.postId ? await getChallengeForPost(entry.postId) : null;
+  const frozen = challenge ? !(await isChallengeOpen(challenge)) : false;
+  await submitLeaderboardScore(
+    entry,
+    frozen ? LEADERBOARD_SCOPES.filter((scope) => scope !== 'post') : LEADERBOARD_SCOPES
+  );
+  await awardFlair(entry);
+
+  return entry;
+};
@@ -0,0 +1,124 @@
+import { redis, settings } from '@devvit/web/server';
+import type { DailyChallenge } from '../../shared/types/api';
+import { createPost } from './post';
+
+const challengeKey = (date: string) => `challenge:daily:${date}`;
+const challengePostKey = (postId: string) => `challenge:post:${postId}`;
+const latestChallengeKey = 'challenge:latest';
+const creationLockKey = (date: string) => `challenge:lock:${date}`;
+
+const DEFAULT_POST_TIME = '14:00';
+
+export type ChallengeSettings = {
+  enabled: boolean;
+  postTimeUtc: string;
+  targetThicknessMm: number | null;
+  theme: string | null;
+};
+
+export const getChallengeSettings = async (): Promise<ChallengeSettings> => {
+  const [enabled, postTime, target, theme] = await Promise.all([
+    settings.get<boolean>('DAILY_CHALLENGE_ENABLED'),
+    settings.get<string>('DAILY_CHALLENGE_POST_TIME'),
+    settings.get<number>('DAILY_CHALLENGE_TARGET_THICKNESS_MM'),
+    settings.get<string>('DAILY_CHALLENGE_THEME'),
+  ]);
+
+  return {
+    enabled: enabled === true,
+    postTimeUtc:
+      postTime && /^\d{1,2}:\d{2}$/.test(postTime.trim()) ? postTime.trim() : DEFAULT_POST_TIME,
+    targetThicknessMm: typeof target === 'number' && target > 0 ? target : null,
+    theme: theme && theme.trim().length ? theme.trim() : null,
+  };
+};
+
+const utcDate = (at: number) => new Date(at).toISOString().slice(0, 10);
+
+/** Milliseconds since UTC midnight for an `HH:MM` string. */
+const timeOfDayMs = (hhmm: string) => {
+  const [hours = 0, minutes = 0] = hhmm.split(':').map((part) => parseInt(part, 10));
+  return (hours * 60 + minutes) * 60 * 1000;
+};
+
+export const formatChallengeTitle = (date: string, cfg: ChallengeSettings): string => {
+  const day = new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+  const themeParts = [
+    cfg.theme,
+    cfg.targetThicknessMm != null ? `target ${cfg.targetThicknessMm} mm` : null,
+  ].filter(Boolean);
+
+  return themeParts.length
+    ? `Daily Chive Challenge – ${day} · ${themeParts.join(' · ')}`
+    : `Daily Chive Challenge – ${day}`;
+};
+
+export const getChallengeByDate = async (date: string): Promise<DailyChallenge | null> => {
+  const data = await redis.get(challengeKey(date));
+  return data ? (JSON.parse(data) as DailyChallenge) : null;
+};
+
+export const getChallengeForPost = async (postId: string): Promise<DailyChallenge | null> => {
+  const date = await redis.get(challengePostKey(postId));
+  return date ? getChallengeByDate(date) : null;
+};
+
+export const getLatestChallenge = async (): Promise<DailyChallenge | null> => {
+  const date = await redis.get(latestChallengeKey);
+  return date ? getChallengeByDate(date) : null;
+};
+
+/**
+ * A challenge stays open until the next day's challenge is posted; after that
+ * its post-scoped leaderboard is frozen as the final standings.
+ */
+export const isChallengeOpen = async (challenge: DailyChallenge): Promise<boolean> => {
+  const latest = await redis.get(latestChallengeKey);
+  return !latest || latest <= challenge.date;
+};
+
+/**
+ * Posts today's challenge if the feature is enabled, the configured posting
+ * time has passed and no challenge exists for today yet. Called from the
+ * scheduler, so it must be safe to run many times a day.
+ */
+export const runDailyChallenge = async (now = Date.now()): Promise<DailyChallenge | null> => {
+  const cfg = await getChallengeSettings();
+  if (!cfg.enabled) return null;
+
+  const date = utcDate(now);
+  const startOfDay = Date.parse(`${date}T00:00:00Z`);
+  if (now - startOfDay < timeOfDayMs(cfg.postTimeUtc)) return null;
+
+  if (await getChallengeByDate(date)) return null;
+
+  // Guard against overlapping scheduler runs posting twice.
+  if (await redis.exists(creationLockKey(date))) return null;
+  await redis.set(creationLockKey(date), String(now), {
+    expiration: new Date(now + 10 * 60 * 1000),
+  });
+
+  const title = formatChallengeTitle(date, cfg);
+  const post = await createPost(title);
+
+  const challenge: DailyChallenge = {
+    date,
+    postId: post.id,
+    title,
+    theme: cfg.theme,
+    targetThicknessMm: cfg.targetThicknessMm,
+    createdAt: now,
+  };
+
+  await redis.set(challengeKey(date), JSON.stringify(challenge));
+  await redis.set(challengePostKey(post.id), date);
+  await redis.set(latestChallengeKey, date);
+
+  return challenge;
+};
@@ -0,0 +1,106 @@
+import { settings } from '@devvit/web/server';
+import type { ResultCacheInfo } from '../../shared/types/api';
+import type { ReferenceObject } from '../domain/calibration';
+import type { CutStyle } from '../domain/cutStyles';
+import type { BaseChiveMetrics } from '../domain/scoring';
+import type { VisionProvider } from '../services/visionProvider';
+import { analyzeWithCache } from './resultCache';
+
+export type ConsensusSettings = {
+  /** Analyses per photo; 1 turns consensus mode off. */
+  samples: number;
+  /** Analyses of one photo in flight at once. */
+  concurrency: number;
+  /** Entries scored from a single analysis are kept off the leaderboards. */
+  requiredForLeaderboard: boolean;
+};
+
+const MAX_SAMPLES = 7;
+/** Used when consensus is required but the sample count leaves it off. */
+const REQUIRED_SAMPLES = 3;
+
+const countOr = (value: number | undefined, fallback: number, max: number) =>
+  typeof value === 'number' && Number.isFinite(value)
+    ? Math.min(max, Math.max(1, Math.floor(value)))
+    : fallback;
+
+/**
+ * Reads the `CONSENSUS_*` settings. Sample counts are capped to bound model
+ * spend; requiring consensus turns it on even if the sample count says 1.
+ */
+export const getConsensusSettings = async (): Promise<ConsensusSettings> => {
+  const [samples, concurrency, required] = await Promise.all([
+    settings.get<number>('CONSENSUS_SAMPLES'),
+    settings.get<number>('CONSENSUS_CONCURRENCY'),
+    settings.get<boolean>('CONSENSUS_REQUIRED_FOR_LEADERBOARD'),
+  ]);
+
+  const requiredForLeaderboard = required === true;
+  const configured = countOr(samples, 1, MAX_SAMPLES);
+  return {
+    samples: requiredForLeaderboard && configured < 2 ? REQUIRED_SAMPLES : configured,
+    concurrency: countOr(concurrency, 3, MAX_SAMPLES),
+    requiredForLeaderboard,
+  };
+};
+
+/**
+ * Runs `run` for each index below `count` with at most `limit` in flight.
+ * Settles like `Promise.allSettled`, in index order.
+ */
+const settleWithLimit = async <T>(
+  count: number,
+  limit: number,
+  run: (index: number) => Promise<T>
+): Promise<PromiseSettledResult<T>[]> => {
+  const results: PromiseSettledResult<T>[] = new Array(count);
+  let next = 0;
+
+  const lane = async () => {
+    while (next < count) {
+      const index = next;
+      next += 1;
+      try {
+        results[index] = { status: 'fulfilled', value: await run(index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, count) }, lane));
+  return results;
+};
+
+/**
+ * Analyzes the image `settings.samples` times, each sample going through the
+ * result cache on its own. Failed samples are dropped as long as one
+ * succeeds; otherwise the first failure is thrown. The cache info reports a
+ * hit only when every sample was reused.
+ */
+export const analyzeSamples = async (
+  provider: VisionProvider,
+  buffer: Buffer,
+  mimeType: string,
+  style: CutStyle,
+  reference: ReferenceObject,
+  ttlSeconds: number | null,
+  { samples, concurrency }: ConsensusSettings
+): Promise<{ samples: BaseChiveMetrics[]; cache: ResultCacheInfo }> => {
+  const settled = await settleWithLimit(samples, concurrency, (sample) =>
+    analyzeWithCache(provider, buffer, mimeType, style, reference, ttlSeconds, sample)
+  );
+
+  const done = settled.flatMap((result) => (result.status === 'fulfilled' ? [result.value] : []));
+  const [first] = done;
+  if (!first) {
+    const failure = settled.find((result) => result.status === 'rejected');
+    throw failure?.reason ?? new Error('Analysis failed');
+  }
+
+  const allHits = done.length === samples && done.every(({ cache }) => cache.hit);
+  return {
+    samples: done.map(({ metrics }) => metrics),
+    cache: allHits ? first.cache : { ...first.cache, hit: false, cachedAt: null },
+  };
+};
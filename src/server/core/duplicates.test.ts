@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FakeRedis } from '../testing/fakeRedis';
+import { findOriginal, MAX_STORED_HASHES, registerHash, unregisterHash } from './duplicates';
+
+const devvit = vi.hoisted(() => ({ redis: null as unknown as FakeRedis }));
+
+vi.mock('@devvit/web/server', async () => {
+  const { createFakeRedis } = await import('../testing/fakeRedis');
+  devvit.redis = createFakeRedis();
+  return {
+    redis: new Proxy({}, { get: (_target, command: keyof FakeRedis) => devvit.redis[command] }),
+  };
+});
+
+const HASH = 'f0f0f0f0f0f0f0f0';
+const NEAR = 'f0f0f0f0f0f0f0f3'; // 2 bits away
+const entry = (id: string, createdAt: number) => ({ id, subreddit: 'chiveit', createdAt });
+
+/** What recordCompletedAnalysis does with a finished entry's hash. */
+const check = async (source: ReturnType<typeof entry>, hash: string) => {
+  await registerHash(source, hash);
+  const match = await findOriginal(source, hash);
+  if (match) await unregisterHash(source);
+  return match;
+};
+
+describe('duplicate detection', () => {
+  beforeEach(async () => {
+    const { createFakeRedis } = await import('../testing/fakeRedis');
+    devvit.redis = createFakeRedis();
+  });
+
+  it('flags only the later of two copies finishing at the same time', async () => {
+    const [later, earlier] = await Promise.all([
+      check(entry('b', 2000), NEAR),
+      check(entry('a', 1000), HASH),
+    ]);
+
+    expect(earlier).toBeNull();
+    expect(later).toEqual({ entryId: 'a', distance: 2 });
+  });
+
+  it('breaks createdAt ties by entry id', async () => {
+    await registerHash(entry('a', 1000), HASH);
+    await registerHash(entry('b', 1000), HASH);
+
+    expect(await findOriginal(entry('a', 1000), HASH)).toBeNull();
+    expect(await findOriginal(entry('b', 1000), HASH)).toEqual({ entryId: 'a', distance: 0 });
+  });
+
+  it('keeps duplicates out of later matches', async () => {
+    await check(entry('a', 1000), HASH);
+    await check(entry('b', 2000), HASH);
+
+    expect(await check(entry('c', 3000), HASH)).toEqual({ entryId: 'a', distance: 0 });
+    expect(Object.keys(await devvit.redis.hGetAll('phash:chiveit'))).toEqual(['a']);
+  });
+
+  it('drops the oldest hashes past the cap', async () => {
+    for (let i = 0; i <= MAX_STORED_HASHES; i += 1) {
+      await registerHash(entry(`e${i}`, i), i.toString(16).padStart(16, '0'));
+    }
+
+    const stored = await devvit.redis.hGetAll('phash:chiveit');
+    expect(Object.keys(stored)).toHaveLength(MAX_STORED_HASHES);
+    expect(stored['e0']).toBeUndefined();
+    expect(await findOriginal(entry('new', MAX_STORED_HASHES + 1), '0000000000000000')).toEqual({
+      entryId: 'e1',
+      distance: 1,
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { redis } from '@devvit/web/server';
+import type { FlaggedDuplicate, HistoryEntry } from '../../shared/types/api';
+import { hammingDistance } from '../services/imageNormalization';
+import { getHistoryEntry } from './history';
+
+// Per subreddit: entryId -> `{ hash, createdAt }` for every original entry,
+// and the same entries by createdAt, so the oldest can be dropped.
+const hashesKey = (subreddit: string) => `phash:${subreddit}`;
+const hashOrderKey = (subreddit: string) => `phash:order:${subreddit}`;
+// Per subreddit: flagged entryId -> flaggedAt, for the moderator view.
+const flaggedKey = (subreddit: string) => `duplicates:${subreddit}`;
+const flagKey = (entryId: string) => `duplicates:flag:${entryId}`;
+
+/**
+ * Hashes at most this many bits apart are treated as the same photo. Crops,
+ * recompression and small edits typically stay within 6 of 64 bits, while
+ * different photos of chives on a board rarely come closer than 12.
+ */
+export const DUPLICATE_MAX_DISTANCE = 6;
+
+/**
+ * Every finished analysis reads and compares all stored hashes, so only the
+ * newest originals are kept; resubmissions of older photos go unnoticed.
+ */
+export const MAX_STORED_HASHES = 5000;
+
+export type DuplicateMatch = {
+  entryId: string;
+  distance: number;
+};
+
+type HashedEntry = Pick<HistoryEntry, 'id' | 'subreddit' | 'createdAt'>;
+
+type StoredHash = { hash: string; createdAt: number };
+
+type StoredFlag = {
+  entryId: string;
+  originalId: string;
+  distance: number;
+  flaggedAt: number;
+};
+
+/** Whether `a` was submitted before `b`; ids break ties so exactly one wins. */
+const isEarlier = (a: { id: string; createdAt: number }, b: HashedEntry) =>
+  a.createdAt < b.createdAt || (a.createdAt === b.createdAt && a.id < b.id);
+
+/**
+ * Finds the closest entry in the subreddit submitted before `entry` whose
+ * photo matches `hash`, by anyone. Register the entry's own hash first: two
+ * copies finishing at the same time then both see each other, and only the
+ * later one is a duplicate. A linear scan over at most MAX_STORED_HASHES.
+ */
+export const findOriginal = async (
+  entry: HashedEntry,
+  hash: string
+): Promise<DuplicateMatch | null> => {
+  const stored = await redis.hGetAll(hashesKey(entry.subreddit));
+
+  let best: (DuplicateMatch & { createdAt: number }) | null = null;
+  for (const [entryId, raw] of Object.entries(stored)) {
+    const { hash: other, createdAt } = JSON.parse(raw) as StoredHash;
+    if (!isEarlier({ id: entryId, createdAt }, entry)) continue;
+    const distance = hammingDistance(hash, other);
+    if (distance > DUPLICATE_MAX_DISTANCE) continue;
+    // Prefer the closest match, then the earliest.
+    if (
+      !best ||
+      distance < best.distance ||
+      (distance === best.distance && createdAt < best.createdAt)
+    ) {
+      best = { entryId, distance, createdAt };
+    }
+  }
+
+  return best ? { entryId: best.entryId, distance: best.distance } : null;
+};
+
+/** Stores an entry's hash for later matches, dropping the oldest past the cap. */
+export const registerHash = async (entry: HashedEntry, hash: string) => {
+  const stored: StoredHash = { hash, createdAt: entry.createdAt };
+  await redis.hSet(hashesKey(entry.subreddit), { [entry.id]: JSON.stringify(stored) });
+  await redis.zAdd(hashOrderKey(entry.subreddit), { member: entry.id, score: entry.createdAt });
+
+  const excess = (await redis.zCard(hashOrderKey(entry.subreddit))) - MAX_STORED_HASHES;
+  if (excess <= 0) return;
+  const oldest = await redis.zRange(hashOrderKey(entry.subreddit), 0, excess - 1, { by: 'rank' });
+  const entryIds = oldest.map(({ member }) => member);
+  await redis.hDel(hashesKey(entry.subreddit), entryIds);
+  await redis.zRem(hashOrderKey(entry.subreddit), entryIds);
+};
+
+/** Drops the hash of an entry that turned out to be a duplicate. */
+export const unregisterHash = async (entry: HashedEntry) => {
+  await redis.hDel(hashesKey(entry.subreddit), [entry.id]);
+  await redis.zRem(hashOrderKey(entry.subreddit), [entry.id]);
+};
+
+export const flagDuplicate = async (entry: HistoryEntry, match: DuplicateMatch) => {
+  const flag: StoredFlag = {
+    entryId: entry.id,
+    originalId: match.entryId,
+    distance: match.distance,
+    flaggedAt: Date.now(),
+  };
+  await redis.set(flagKey(entry.id), JSON.stringify(flag));
+  await redis.zAdd(flaggedKey(entry.subreddit), { member: entry.id, score: flag.flaggedAt });
+};
+
+/** The note shown on a result flagged as a resubmission, or null. */
+export const describeDuplicate = async (entry: HistoryEntry): Promise<string | null> => {
+  if (!entry.duplicateOf) return null;
+  const original = await getHistoryEntry(entry.duplicateOf);
+  const source = original
+    ? `an earlier entry by u/${original.username} from ${new Date(original.createdAt).toISOString().slice(0, 10)}`
+    : 'an earlier entry';
+  return `This photo looks like a resubmission of ${source}, so it won't count toward leaderboards.`;
+};
+
+/** Newest-first page of a subreddit's flagged duplicates. */
+export const getFlaggedDuplicates = async (
+  subreddit: string,
+  limit: number,
+  cursor = 0
+): Promise<{ items: FlaggedDuplicate[]; nextCursor: number | null }> => {
+  const members = await redis.zRange(flaggedKey(subreddit), cursor, cursor + limit - 1, {
+    by: 'rank',
+    reverse: true,
+  });
+
+  const items: FlaggedDuplicate[] = [];
+  for (const { member } of members) {
+    const raw = await redis.get(flagKey(member));
+    const entry = await getHistoryEntry(member);
+    if (!raw || !entry) continue;
+
+    const flag = JSON.parse(raw) as StoredFlag;
+    items.push({
+      entry,
+      original: await getHistoryEntry(flag.originalId),
+      distance: flag.distance,
+      flaggedAt: flag.flaggedAt,
+    });
+  }
+
+  const total = await redis.zCard(flaggedKey(subreddit));
+  const nextCursor = cursor + limit < total ? cursor + limit : null;
+
+  return { items, nextCursor };
+};
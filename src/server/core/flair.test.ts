@@ -0,0 +1,76 @@
+import { reddit } from '@devvit/web/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { HistoryEntry } from '../../shared/types/api';
+import type { FakeRedis } from '../testing/fakeRedis';
+import { awardFlair, getFlairStatus, recomputeFlair } from './flair';
+
+const devvit = vi.hoisted(() => ({ redis: null as unknown as FakeRedis }));
+
+vi.mock('@devvit/web/server', async () => {
+  const { createFakeRedis } = await import('../testing/fakeRedis');
+  devvit.redis = createFakeRedis();
+  return {
+    redis: new Proxy({}, { get: (_target, command: keyof FakeRedis) => devvit.redis[command] }),
+    settings: { get: vi.fn(async (name: string) => (name === 'FLAIR_ENABLED' ? true : undefined)) },
+    reddit: { setUserFlair: vi.fn(), removeUserFlair: vi.fn() },
+  };
+});
+
+const entry = (id: string, overallScore: number, extra: Partial<HistoryEntry> = {}) =>
+  ({
+    id,
+    userId: 't2_chopper',
+    username: 'chopper',
+    subreddit: 'chiveit',
+    overallScore,
+    ...extra,
+  }) as HistoryEntry;
+
+describe('recomputeFlair', () => {
+  beforeEach(async () => {
+    const { createFakeRedis } = await import('../testing/fakeRedis');
+    devvit.redis = createFakeRedis();
+    vi.mocked(reddit.setUserFlair).mockClear();
+    vi.mocked(reddit.removeUserFlair).mockClear();
+  });
+
+  it('lowers flair to the best entry still visible', async () => {
+    const top = entry('top', 95);
+    await awardFlair(top);
+
+    await recomputeFlair('t2_chopper', 'chopper', 'chiveit', [
+      entry('low', 62),
+      entry('mid', 81),
+      { ...top, hidden: true },
+    ]);
+
+    expect((await getFlairStatus('t2_chopper')).best?.score).toBe(81);
+    expect(vi.mocked(reddit.setUserFlair).mock.lastCall?.[0]).toMatchObject({
+      text: expect.stringContaining('(81)'),
+    });
+  });
+
+  it('removes flair when no entry counts any more', async () => {
+    await awardFlair(entry('top', 95));
+
+    await recomputeFlair('t2_chopper', 'chopper', 'chiveit', [
+      entry('top', 95, { hidden: true }),
+      entry('copy', 90, { duplicateOf: 'elsewhere' }),
+    ]);
+
+    expect((await getFlairStatus('t2_chopper')).best).toBeNull();
+    expect(reddit.removeUserFlair).toHaveBeenCalledWith('chiveit', 'chopper');
+  });
+
+  it('leaves flair alone when the best is unchanged', async () => {
+    await awardFlair(entry('top', 95));
+    vi.mocked(reddit.setUserFlair).mockClear();
+
+    await recomputeFlair('t2_chopper', 'chopper', 'chiveit', [
+      entry('top', 95),
+      entry('low', 40, { hidden: true }),
+    ]);
+
+    expect(reddit.setUserFlair).not.toHaveBeenCalled();
+  });
+});
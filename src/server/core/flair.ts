@@ -0,0 +1,163 @@
+import { reddit, redis, settings } from '@devvit/web/server';
+import type { FlairResponse, HistoryEntry } from '../../shared/types/api';
+import { SCORE_TIERS, tierFor, type ScoreTier } from '../domain/tiers';
+
+// userId -> the best leaderboard-eligible score flair was last based on.
+const flairBestKey = 'flair:best';
+// userId -> '1' for users who don't want score flair.
+const optOutKey = 'flair:optout';
+
+type FlairBest = { score: number; entryId: string };
+
+export type FlairSettings = {
+  enabled: boolean;
+  /** Flair template per tier; tiers without one get plain-text flair. */
+  templates: Partial<Record<ScoreTier, string>>;
+};
+
+const templateSetting = (tier: ScoreTier) => `FLAIR_TEMPLATE_${tier.toUpperCase()}`;
+
+/** Reads `FLAIR_ENABLED` and the `FLAIR_TEMPLATE_*` settings. */
+export const getFlairSettings = async (): Promise<FlairSettings> => {
+  const [enabled, ...templateIds] = await Promise.all([
+    settings.get<boolean>('FLAIR_ENABLED'),
+    ...SCORE_TIERS.map(({ id }) => settings.get<string>(templateSetting(id))),
+  ]);
+
+  const templates: Partial<Record<ScoreTier, string>> = {};
+  SCORE_TIERS.forEach(({ id }, index) => {
+    const templateId = templateIds[index];
+    if (typeof templateId === 'string' && templateId.trim().length) {
+      templates[id] = templateId.trim();
+    }
+  });
+
+  return { enabled: enabled === true, templates };
+};
+
+export const flairText = (score: number) => `🔪 ${tierFor(score).label} (${Math.round(score)})`;
+
+const getFlairBest = async (userId: string): Promise<FlairBest | null> => {
+  const raw = await redis.hGet(flairBestKey, userId);
+  return raw ? (JSON.parse(raw) as FlairBest) : null;
+};
+
+const isOptedOut = async (userId: string) => (await redis.hGet(optOutKey, userId)) === '1';
+
+const applyFlair = async (
+  subredditName: string,
+  username: string,
+  score: number,
+  cfg: FlairSettings
+) => {
+  const templateId = cfg.templates[tierFor(score).id];
+  await reddit.setUserFlair({
+    subredditName,
+    username,
+    text: flairText(score),
+    ...(templateId ? { flairTemplateId: templateId } : {}),
+  });
+};
+
+/**
+ * Raises the user's flair to `entry`'s tier when it beats the best score their
+ * flair was last based on. Entries kept off the leaderboards never count, and
+ * flair never goes down, not even after a re-score; only a moderator hiding
+ * an entry lowers it (see `recomputeFlair`). The best is tracked while
+ * the subreddit has flair off or the user has opted out, so flair is right
+ * as soon as it is turned on. Reddit errors are logged, not thrown; a missing
+ * flair shouldn't fail an analysis.
+ */
+export const awardFlair = async (entry: HistoryEntry): Promise<void> => {
+  if (entry.overallScore == null || entry.duplicateOf || entry.unranked) return;
+
+  const current = await getFlairBest(entry.userId);
+  if (current && current.score >= entry.overallScore) return;
+
+  const best: FlairBest = { score: entry.overallScore, entryId: entry.id };
+  await redis.hSet(flairBestKey, { [entry.userId]: JSON.stringify(best) });
+
+  const cfg = await getFlairSettings();
+  if (!cfg.enabled || (await isOptedOut(entry.userId))) return;
+
+  try {
+    await applyFlair(entry.subreddit, entry.username, best.score, cfg);
+  } catch (err) {
+    console.error(`Failed to set flair for ${entry.username}:`, err);
+  }
+};
+
+/**
+ * Re-bases the user's flair on the best of `entries` (all of their history)
+ * that still counts, after a moderator hides or restores one. Unlike
+ * `awardFlair` this can lower the flair, or remove it when nothing counts.
+ */
+export const recomputeFlair = async (
+  userId: string,
+  username: string,
+  subredditName: string,
+  entries: HistoryEntry[]
+): Promise<void> => {
+  let best: FlairBest | null = null;
+  for (const entry of entries) {
+    if (entry.overallScore == null || entry.duplicateOf || entry.unranked || entry.hidden) continue;
+    if (!best || entry.overallScore > best.score) {
+      best = { score: entry.overallScore, entryId: entry.id };
+    }
+  }
+
+  const current = await getFlairBest(userId);
+  if (current?.entryId === best?.entryId && current?.score === best?.score) return;
+
+  if (best) await redis.hSet(flairBestKey, { [userId]: JSON.stringify(best) });
+  else await redis.hDel(flairBestKey, [userId]);
+
+  const cfg = await getFlairSettings();
+  if (!cfg.enabled || (await isOptedOut(userId))) return;
+
+  try {
+    if (best) await applyFlair(subredditName, username, best.score, cfg);
+    else await reddit.removeUserFlair(subredditName, username);
+  } catch (err) {
+    console.error(`Failed to update flair for ${username}:`, err);
+  }
+};
+
+export const getFlairStatus = async (userId: string): Promise<FlairResponse> => {
+  const [cfg, best, optedOut] = await Promise.all([
+    getFlairSettings(),
+    getFlairBest(userId),
+    isOptedOut(userId),
+  ]);
+
+  return {
+    type: 'flair',
+    enabled: cfg.enabled,
+    optedOut,
+    best: best
+      ? { score: best.score, tier: tierFor(best.score).label, text: flairText(best.score) }
+      : null,
+  };
+};
+
+/**
+ * Opts the user out of score flair, removing any flair already set, or back
+ * in, restoring flair for their best so far.
+ */
+export const setFlairOptOut = async (
+  userId: string,
+  username: string,
+  subredditName: string,
+  optOut: boolean
+): Promise<FlairResponse> => {
+  if (optOut) await redis.hSet(optOutKey, { [userId]: '1' });
+  else await redis.hDel(optOutKey, [userId]);
+
+  const [cfg, best] = await Promise.all([getFlairSettings(), getFlairBest(userId)]);
+  if (cfg.enabled && best) {
+    if (optOut) await reddit.removeUserFlair(subredditName, username);
+    else await applyFlair(subredditName, username, best.score, cfg);
+  }
+
+  return getFlairStatus(userId);
+};
@@ -0,0 +1,218 @@
+import { redis } from '@devvit/web/server';
+import type { HistoryEntry } from '../../shared/types/api';
+import { CUT_STYLE_IDS, DEFAULT_CUT_STYLE, type CutStyle } from '../domain/cutStyles';
+import type { BaseChiveMetrics, ScoredChiveMetrics } from '../domain/scoring';
+
+// History and bests are kept per cut style. Fine snips use the keys from
+// before styles existed, so older entries stay where they were.
+const styleSuffix = (style: CutStyle) => (style === DEFAULT_CUT_STYLE ? '' : `:${style}`);
+const userHistoryKey = (userId: string, style: CutStyle) =>
+  `history:user:${userId}${styleSuffix(style)}`;
+const entryKey = (entryId: string) => `history:entry:${entryId}`;
+const bestKey = (userId: string, style: CutStyle) =>
+  `history:best:${userId}${styleSuffix(style)}`;
+
+export const cutStyleOf = (entry: HistoryEntry): CutStyle => entry.cutStyle ?? DEFAULT_CUT_STYLE;
+// Everyone with at least one entry, scored by their latest entry.
+const usersKey = 'history:users';
+// The newest entries from everyone, and entries recorded per UTC day, for
+// the moderator ops dashboard.
+const recentKey = 'history:recent';
+const dailyCountsKey = 'history:daily';
+const RECENT_MAX = 500;
+
+const utcDate = (at: number) => new Date(at).toISOString().slice(0, 10);
+
+export type AnalysisSource = {
+  id: string;
+  userId: string;
+  username: string;
+  postId: string;
+  subreddit: string;
+  mediaUrl: string | null;
+  createdAt: number;
+  /** Of the normalized upload; null when it wasn't computed. */
+  perceptualHash: string | null;
+};
+
+export const buildHistoryEntry = (
+  source: AnalysisSource,
+  base: BaseChiveMetrics,
+  scored: ScoredChiveMetrics
+): HistoryEntry => ({
+  id: source.id,
+  userId: source.userId,
+  username: source.username,
+  postId: source.postId,
+  subreddit: source.subreddit,
+  mediaUrl: source.mediaUrl,
+  createdAt: source.createdAt,
+  overallScore: scored.overallScore,
+  thicknessConsistencyScore: scored.thicknessConsistencyScore,
+  cutQualityScore: scored.cutQualityScore,
+  averageThicknessMm: base.averageThicknessMm,
+  thicknessStdDevMm: base.thicknessStdDevMm,
+  cutQualityLabel: base.cutQualityLabel,
+  regions: base.regions ?? [],
+  rubricVersion: scored.rubricVersion,
+  cutStyle: scored.cutStyle,
+  targetScore: scored.targetScore,
+  ...(base.averagePieceLengthMm != null ? { averagePieceLengthMm: base.averagePieceLengthMm } : {}),
+  ...(base.averageCutAngleDeg != null ? { averageCutAngleDeg: base.averageCutAngleDeg } : {}),
+  calibrated: scored.calibrated,
+  calibration: base.calibration ?? null,
+  ...(base.rawNotes ? { rawNotes: base.rawNotes } : {}),
+});
+
+/**
+ * Stores a completed analysis against its user. Safe to call repeatedly for
+ * the same entry id (e.g. every time a client polls a finished job); only the
+ * first call writes. Returns true when the entry was newly recorded.
+ */
+export const recordHistoryEntry = async (entry: HistoryEntry): Promise<boolean> => {
+  if (await redis.exists(entryKey(entry.id))) return false;
+
+  await redis.set(entryKey(entry.id), JSON.stringify(entry));
+  const style = cutStyleOf(entry);
+  await redis.zAdd(userHistoryKey(entry.userId, style), {
+    member: entry.id,
+    score: entry.createdAt,
+  });
+  await redis.zAdd(usersKey, { member: entry.userId, score: entry.createdAt });
+  await redis.zAdd(recentKey, { member: entry.id, score: entry.createdAt });
+  await redis.zRemRangeByRank(recentKey, 0, -(RECENT_MAX + 1));
+  await redis.hIncrBy(dailyCountsKey, utcDate(entry.createdAt), 1);
+
+  // A recycled photo doesn't get to be anyone's personal best.
+  if (entry.overallScore != null && !entry.duplicateOf) {
+    const best = await getPersonalBest(entry.userId, style);
+    if (!best || best.overallScore == null || entry.overallScore > best.overallScore) {
+      await redis.set(bestKey(entry.userId, style), JSON.stringify(entry));
+    }
+  }
+
+  return true;
+};
+
+export const getHistoryEntry = async (entryId: string): Promise<HistoryEntry | null> => {
+  const data = await redis.get(entryKey(entryId));
+  return data ? (JSON.parse(data) as HistoryEntry) : null;
+};
+
+export const getPersonalBest = async (
+  userId: string,
+  style: CutStyle = DEFAULT_CUT_STYLE
+): Promise<HistoryEntry | null> => {
+  const data = await redis.get(bestKey(userId, style));
+  return data ? (JSON.parse(data) as HistoryEntry) : null;
+};
+
+/**
+ * Newest-first page of a user's history in one cut style. `cursor` is the
+ * offset returned as `nextCursor` by the previous page.
+ */
+export const getHistory = async (
+  userId: string,
+  limit: number,
+  cursor = 0,
+  style: CutStyle = DEFAULT_CUT_STYLE
+): Promise<{ entries: HistoryEntry[]; nextCursor: number | null }> => {
+  const key = userHistoryKey(userId, style);
+  const members = await redis.zRange(key, cursor, cursor + limit - 1, {
+    by: 'rank',
+    reverse: true,
+  });
+
+  const entries = (await Promise.all(members.map(({ member }) => getHistoryEntry(member)))).filter(
+    (entry): entry is HistoryEntry => entry !== null
+  );
+
+  const total = await redis.zCard(key);
+  const nextCursor = cursor + limit < total ? cursor + limit : null;
+
+  return { entries, nextCursor };
+};
+
+/** Every entry of a user in every cut style, oldest first. */
+export const getAllHistory = async (userId: string): Promise<HistoryEntry[]> => {
+  const entries: HistoryEntry[] = [];
+  for (const style of CUT_STYLE_IDS) {
+    const members = await redis.zRange(userHistoryKey(userId, style), 0, -1, { by: 'rank' });
+    for (const { member } of members) {
+      const entry = await getHistoryEntry(member);
+      if (entry) entries.push(entry);
+    }
+  }
+  return entries.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+/**
+ * Overwrites stored entries (e.g. after re-scoring) and recomputes the
+ * user's personal bests from `all`, their complete history.
+ */
+export const replaceHistoryEntries = async (
+  userId: string,
+  changed: HistoryEntry[],
+  all: HistoryEntry[]
+): Promise<void> => {
+  for (const entry of changed) {
+    await redis.set(entryKey(entry.id), JSON.stringify(entry));
+  }
+
+  for (const style of CUT_STYLE_IDS) {
+    let best: HistoryEntry | null = null;
+    for (const entry of all) {
+      if (cutStyleOf(entry) !== style || entry.overallScore == null || entry.duplicateOf) continue;
+      if (!best || entry.overallScore > (best.overallScore ?? -1)) best = entry;
+    }
+
+    if (best) await redis.set(bestKey(userId, style), JSON.stringify(best));
+    else await redis.del(bestKey(userId, style));
+  }
+};
+
+/** Page of user ids with history, most recently active first. */
+export const getHistoryUsers = async (
+  limit: number,
+  cursor = 0
+): Promise<{ userIds: string[]; nextCursor: number | null }> => {
+  const members = await redis.zRange(usersKey, cursor, cursor + limit - 1, {
+    by: 'rank',
+    reverse: true,
+  });
+  const total = await redis.zCard(usersKey);
+  return {
+    userIds: members.map(({ member }) => member),
+    nextCursor: cursor + limit < total ? cursor + limit : null,
+  };
+};
+
+/**
+ * Adds users to the index behind `getHistoryUsers`. Entries recorded before
+ * the index existed aren't in it; callers backfill from other sources.
+ */
+export const indexHistoryUsers = async (userIds: string[]): Promise<void> => {
+  for (const userId of userIds) {
+    if ((await redis.zScore(usersKey, userId)) == null) {
+      await redis.zAdd(usersKey, { member: userId, score: 0 });
+    }
+  }
+};
+
+/** The newest entries from every user, newest first. */
+export const getRecentEntries = async (limit: number): Promise<HistoryEntry[]> => {
+  const members = await redis.zRange(recentKey, 0, limit - 1, { by: 'rank', reverse: true });
+  return (await Promise.all(members.map(({ member }) => getHistoryEntry(member)))).filter(
+    (entry): entry is HistoryEntry => entry !== null
+  );
+};
+
+/** Entries recorded on each of the last `days` UTC days, oldest first. */
+export const getDailyEntryCounts = async (
+  days: number,
+  now = Date.now()
+): Promise<{ date: string; count: number }[]> => {
+  const dates = Array.from({ length: days }, (_, i) => utcDate(now - (days - 1 - i) * 86400000));
+  const counts = await redis.hMGet(dailyCountsKey, dates);
+  return dates.map((date, i) => ({ date, count: Number(counts[i] ?? 0) }));
+};
@@ -0,0 +1,103 @@
+import { realtime, scheduler } from '@devvit/web/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_RUBRIC } from '../domain/scoring';
+import type { FakeRedis } from '../testing/fakeRedis';
+import { publishJobUpdate, runJobEventRelay } from './jobEvents';
+import { enqueueBatch, type AnalysisJob } from './jobs';
+
+const devvit = vi.hoisted(() => ({ redis: null as unknown as FakeRedis }));
+
+vi.mock('@devvit/web/server', async () => {
+  const { createFakeRedis } = await import('../testing/fakeRedis');
+  devvit.redis = createFakeRedis();
+  return {
+    redis: new Proxy({}, { get: (_target, command: keyof FakeRedis) => devvit.redis[command] }),
+    realtime: { send: vi.fn() },
+    scheduler: { runJob: vi.fn() },
+  };
+});
+
+const job: AnalysisJob = {
+  jobId: 'job-1',
+  batchId: 'batch-1',
+  filename: 'bunch.jpeg',
+  uploadIndex: 0,
+  imageUrl: 'https://i.redd.it/bunch.jpeg',
+  mimeType: 'image/jpeg',
+  perceptualHash: null,
+  contentHash: 'hash',
+  resultCacheTtlSeconds: null,
+  visionProvider: 'mock',
+  cutStyle: 'fine',
+  reference: 'none',
+  rubric: DEFAULT_RUBRIC,
+  consensus: { samples: 1, concurrency: 1, requiredForLeaderboard: false },
+  targetThicknessMm: null,
+  submittedBy: 't2_chopper',
+  submittedByName: 'chopper',
+  subreddit: 'chiveit',
+  postId: 't3_post',
+  createdAt: Date.now(),
+  status: 'pending',
+  attempts: 0,
+  nextRetryAt: null,
+};
+
+/** What the worker writes when it gives up on a job. */
+const failInWorker = async () => {
+  await devvit.redis.set(
+    `analysis:results:${job.jobId}`,
+    JSON.stringify({ jobId: job.jobId, status: 'failed', error: 'Model unavailable' })
+  );
+  await devvit.redis.zAdd('analysis:events', {
+    member: JSON.stringify({ jobId: job.jobId, status: 'failed', at: Date.now() }),
+    score: Date.now(),
+  });
+};
+
+describe('job event relay', () => {
+  beforeEach(async () => {
+    const { createFakeRedis } = await import('../testing/fakeRedis');
+    devvit.redis = createFakeRedis();
+    vi.mocked(realtime.send).mockClear();
+    vi.mocked(scheduler.runJob).mockClear();
+    await enqueueBatch(
+      {
+        batchId: job.batchId,
+        jobIds: [job.jobId],
+        submittedBy: job.submittedBy,
+        createdAt: job.createdAt,
+      },
+      [job]
+    );
+    await publishJobUpdate(job);
+  });
+
+  it('pushes the result and stops once no watched job is left', async () => {
+    await failInWorker();
+
+    expect(await runJobEventRelay()).toBe(1);
+
+    expect(vi.mocked(realtime.send).mock.lastCall).toEqual([
+      'jobs_t2_chopper',
+      expect.objectContaining({ job: expect.objectContaining({ status: 'failed' }) }),
+    ]);
+    expect(scheduler.runJob).not.toHaveBeenCalled();
+  });
+
+  it('hands over to a new run while jobs are unfinished', async () => {
+    expect(await runJobEventRelay(0)).toBe(0);
+
+    expect(scheduler.runJob).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'job-events-now' })
+    );
+  });
+
+  it('skips a run while another holds the lock', async () => {
+    await devvit.redis.set('analysis:events:relay', '1');
+    await failInWorker();
+
+    expect(await runJobEventRelay()).toBe(0);
+    expect(realtime.send).toHaveBeenCalledTimes(1);
+  });
+});
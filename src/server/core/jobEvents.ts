@@ -0,0 +1,136 @@
+import { realtime, redis, scheduler } from '@devvit/web/server';
+import type { JobUpdateMessage } from '../../shared/types/api';
+import { getJob, resolveJob, TERMINAL_JOB_STATUSES, type AnalysisJob } from './jobs';
+
+// Status changes written by the worker (see worker/queue.js); members are
+// `{ jobId, status, at }` JSON scored by `at`.
+const EVENTS_KEY = 'analysis:events';
+// Unfinished jobs with a realtime channel: jobId -> submitted at. The relay
+// keeps running while there are any.
+const WATCHED_KEY = 'analysis:events:watched';
+const relayLockKey = 'analysis:events:relay';
+
+/** Events older than this are dropped unrelayed; their jobs have expired. */
+const EVENT_TTL_MS = 3600000;
+const RELAY_INTERVAL_MS = 1000;
+/** One relay run, well inside a request's time limit; the next run takes over. */
+const RELAY_WINDOW_MS = 20000;
+
+/** The one-off scheduler task (see devvit.json) that starts a relay run now. */
+export const RELAY_TASK = 'job-events-now';
+
+/** Realtime channel carrying a user's job updates. */
+export const jobChannel = (userId: string) => `jobs_${userId}`;
+
+/**
+ * Sends a job's current state to its submitter. Finished jobs are resolved
+ * first, so the message carries the scored result, and unfinished ones are
+ * watched by the relay until they finish. Anonymous jobs have no channel and
+ * are only visible by polling.
+ */
+export const publishJobUpdate = async (job: AnalysisJob): Promise<void> => {
+  if (!job.submittedBy || job.submittedBy === 'anonymous') return;
+
+  const state = await resolveJob(job);
+  if (TERMINAL_JOB_STATUSES.includes(state.status)) {
+    await redis.zRem(WATCHED_KEY, [job.jobId]);
+  } else {
+    await redis.zAdd(WATCHED_KEY, { member: job.jobId, score: job.createdAt });
+  }
+  const message: JobUpdateMessage = {
+    type: 'job',
+    batchId: job.batchId,
+    job: { ...state, jobId: job.jobId, filename: job.filename, uploadIndex: job.uploadIndex },
+  };
+  await realtime.send(jobChannel(job.submittedBy), message);
+};
+
+/** Relays every pending worker event once. Returns how many were sent. */
+export const relayJobEvents = async (now = Date.now()): Promise<number> => {
+  await redis.zRemRangeByScore(EVENTS_KEY, 0, now - EVENT_TTL_MS);
+
+  const events = await redis.zRange(EVENTS_KEY, 0, now, { by: 'score' });
+  // Several relays can overlap briefly; whoever removes an event sends it.
+  const jobIds = new Set<string>();
+  for (const { member } of events) {
+    if (await redis.zRem(EVENTS_KEY, [member])) {
+      jobIds.add((JSON.parse(member) as { jobId: string }).jobId);
+    }
+  }
+
+  // Only the latest state matters, so several events for one job collapse
+  // into a single message.
+  let sent = 0;
+  for (const jobId of jobIds) {
+    const job = await getJob(jobId);
+    if (!job) continue;
+    try {
+      await publishJobUpdate(job);
+      sent += 1;
+    } catch (err) {
+      console.error(`Failed to publish update for job ${jobId}:`, err);
+    }
+  }
+  return sent;
+};
+
+/**
+ * Whether any watched job is still unfinished. Jobs that finished without an
+ * event reaching the relay (cancelled, purged or expired) stop being watched.
+ */
+const hasWatchedJobs = async (now = Date.now()): Promise<boolean> => {
+  await redis.zRemRangeByScore(WATCHED_KEY, 0, now - EVENT_TTL_MS);
+
+  for (const { member } of await redis.zRange(WATCHED_KEY, 0, -1, { by: 'rank' })) {
+    const job = await getJob(member);
+    if (job && !TERMINAL_JOB_STATUSES.includes(job.status)) return true;
+    await redis.zRem(WATCHED_KEY, [member]);
+  }
+  return false;
+};
+
+/**
+ * Starts a relay run unless one is going. Call after queueing jobs, so their
+ * updates flow without waiting for the per-minute scheduler task.
+ */
+export const startJobEventRelay = async (): Promise<void> => {
+  if (await redis.exists(relayLockKey)) return;
+  try {
+    await scheduler.runJob({ name: RELAY_TASK, runAt: new Date() });
+  } catch (err) {
+    // The jobs are queued either way; the per-minute task picks them up.
+    console.error('Failed to start the job event relay:', err);
+  }
+};
+
+/**
+ * Relays worker events once a second while any watched job is unfinished,
+ * for at most `windowMs`; a run that ends with jobs still going schedules the
+ * next, so updates reach clients within about a second. The lock keeps runs
+ * from overlapping; the per-minute scheduler task restarts the chain if a run
+ * was lost.
+ */
+export const runJobEventRelay = async (windowMs = RELAY_WINDOW_MS): Promise<number> => {
+  const start = Date.now();
+  if (await redis.exists(relayLockKey)) return 0;
+  await redis.set(relayLockKey, String(start), {
+    expiration: new Date(start + windowMs + RELAY_INTERVAL_MS * 5),
+  });
+
+  let sent = 0;
+  let unfinished = false;
+  try {
+    for (;;) {
+      sent += await relayJobEvents();
+      // An event can land between the relay and the check; wait for it too.
+      unfinished = (await hasWatchedJobs()) || (await redis.zCard(EVENTS_KEY)) > 0;
+      if (!unfinished || Date.now() - start >= windowMs) break;
+      await new Promise((resolve) => setTimeout(resolve, RELAY_INTERVAL_MS));
+    }
+  } finally {
+    await redis.del(relayLockKey);
+  }
+
+  if (unfinished) await scheduler.runJob({ name: RELAY_TASK, runAt: new Date() });
+  return sent;
+};
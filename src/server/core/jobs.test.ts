@@ -0,0 +1,195 @@
+import { Jimp } from 'jimp';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+// @ts-expect-error -- the worker is plain JS with its own package.
+import { analyzeSamples } from '../../../worker/consensus.js';
+// @ts-expect-error -- the worker is plain JS with its own package.
+import { createProvider } from '../../../worker/providers.js';
+// @ts-expect-error -- the worker is plain JS with its own package.
+import { createResultCache } from '../../../worker/resultCache.js';
+import { DEFAULT_RUBRIC, scoreChiveAnalysis } from '../domain/scoring';
+import { createMockVisionProvider } from '../services/mockVisionClient';
+import type { FakeRedis } from '../testing/fakeRedis';
+import { getHistory } from './history';
+import { DELAYED_KEY, enqueueBatch, resolveJob, type AnalysisJob } from './jobs';
+import { getLeaderboard } from './leaderboard';
+import { contentHash } from './resultCache';
+import { getSubmissions } from './submissions';
+import { prepareUploads } from './uploads';
+
+const devvit = vi.hoisted(() => ({ redis: null as unknown as FakeRedis }));
+
+vi.mock('@devvit/web/server', async () => {
+  const { createFakeRedis } = await import('../testing/fakeRedis');
+  devvit.redis = createFakeRedis();
+  return {
+    redis: new Proxy({}, { get: (_target, command: keyof FakeRedis) => devvit.redis[command] }),
+    settings: { get: vi.fn(async () => undefined) },
+    reddit: { setUserFlair: vi.fn(), removeUserFlair: vi.fn() },
+    context: {},
+    media: { upload: vi.fn() },
+  };
+});
+
+const LIMITS = { maxFiles: 5, maxFileBytes: 10 * 1024 * 1024, maxDimension: 1024 };
+
+/** A striped "photo", so the normalized bytes vary from region to region. */
+const photo = async (seed: number) => {
+  const image = new Jimp({ width: 120, height: 120, color: 0x1f3f1fff });
+  for (let x = 0; x < 120; x += 1) {
+    for (let y = 0; y < 120; y += 1) {
+      if ((x + seed) % 7 < 2) image.setPixelColor(0x7fbf4fff - ((y * seed) % 64) * 0x10000, x, y);
+    }
+  }
+  return image.getBuffer('image/png');
+};
+
+/** What POST /api/analyze-async stores for an accepted upload. */
+const queueUpload = async (seed: number, overrides: Partial<AnalysisJob> = {}) => {
+  const buffer = await photo(seed);
+  const { accepted, rejected } = await prepareUploads(
+    [{ originalname: `bunch-${seed}.png`, mimetype: 'image/png', size: buffer.length, buffer }],
+    LIMITS
+  );
+  expect(rejected).toEqual([]);
+  const [image] = accepted;
+  if (!image) throw new Error('Upload was not accepted');
+
+  const job: AnalysisJob = {
+    jobId: `job-${seed}`,
+    batchId: `batch-${seed}`,
+    filename: image.filename,
+    uploadIndex: image.index,
+    imageUrl: `https://i.redd.it/bunch-${seed}.jpeg`,
+    mimeType: image.mimeType,
+    perceptualHash: image.perceptualHash,
+    contentHash: contentHash(image.buffer),
+    resultCacheTtlSeconds: null,
+    visionProvider: 'mock',
+    cutStyle: 'fine',
+    reference: 'none',
+    rubric: DEFAULT_RUBRIC,
+    consensus: { samples: 1, concurrency: 1, requiredForLeaderboard: false },
+    targetThicknessMm: null,
+    submittedBy: 't2_chopper',
+    submittedByName: 'chopper',
+    subreddit: 'chiveit',
+    postId: 't3_post',
+    createdAt: Date.now(),
+    status: 'pending',
+    attempts: 0,
+    nextRetryAt: null,
+    ...overrides,
+  };
+  await enqueueBatch(
+    {
+      batchId: job.batchId,
+      jobIds: [job.jobId],
+      submittedBy: job.submittedBy,
+      createdAt: job.createdAt,
+    },
+    [job]
+  );
+  return { job, buffer: image.buffer };
+};
+
+/**
+ * One pass of the worker: promote the job, analyze it with the mock provider,
+ * store the result. Like the CDN, it hands the worker a re-encoded copy.
+ */
+const runWorker = async (buffer: Buffer) => {
+  const downloaded = await (await Jimp.read(buffer)).getBuffer('image/jpeg');
+  const [queued] = await devvit.redis.zRange(DELAYED_KEY, 0, -1, { by: 'rank' });
+  if (!queued) throw new Error('Nothing queued');
+  await devvit.redis.zRem(DELAYED_KEY, [queued.member]);
+  const job = JSON.parse(queued.member) as AnalysisJob;
+
+  const { samples, cache } = await analyzeSamples(
+    createResultCache(null),
+    createProvider('mock'),
+    downloaded,
+    job.mimeType,
+    job
+  );
+  await devvit.redis.set(
+    `analysis:results:${job.jobId}`,
+    JSON.stringify({
+      jobId: job.jobId,
+      status: 'completed',
+      result: samples[0],
+      samples,
+      cache,
+      processedAt: Date.now(),
+    })
+  );
+  return samples as unknown[];
+};
+
+describe('upload → queue → score with the mock provider', () => {
+  beforeEach(async () => {
+    const { createFakeRedis } = await import('../testing/fakeRedis');
+    devvit.redis = createFakeRedis();
+  });
+
+  it('queues the job for the worker instead of writing the queue list', async () => {
+    const { job } = await queueUpload(1);
+
+    const queued = await devvit.redis.zRange(DELAYED_KEY, 0, -1, { by: 'rank' });
+    expect(queued.map(({ member }) => JSON.parse(member).jobId)).toEqual([job.jobId]);
+    expect(await resolveJob(job)).toMatchObject({ status: 'pending', attempts: 0 });
+  });
+
+  it('scores the worker result and records it once', async () => {
+    const { job, buffer } = await queueUpload(3);
+    await runWorker(buffer);
+
+    const first = await resolveJob(job);
+    const again = await resolveJob(job);
+
+    // The worker's mock scores the job's hash, not the re-encoded copy, so it
+    // agrees with the app's mock.
+    const expected = scoreChiveAnalysis(
+      await createMockVisionProvider().analyze(buffer, job.mimeType, 'fine', 'none')
+    );
+    expect(first.status).toBe('completed');
+    expect(expected.overallScore).toEqual(expect.any(Number));
+    expect(first.result?.overallScore).toBe(expected.overallScore);
+    expect(first.result?.entryId).toBe(job.jobId);
+    expect(again.result?.entryId).toBe(job.jobId);
+
+    const history = await getHistory(job.submittedBy, 10, 0, 'fine');
+    expect(history.entries.map((entry) => entry.id)).toEqual([job.jobId]);
+    expect(history.entries[0]?.mediaUrl).toBe(job.imageUrl);
+  });
+
+  it('ranks the submission and shows it in the post gallery', async () => {
+    const { job, buffer } = await queueUpload(3);
+    await runWorker(buffer);
+    const { result } = await resolveJob(job);
+
+    const board = await getLeaderboard({
+      scope: 'post',
+      scopeId: job.postId,
+      window: 'alltime',
+      limit: 10,
+      userId: job.submittedBy,
+    });
+    expect(board.entries).toMatchObject([
+      { rank: 1, userId: job.submittedBy, score: result?.overallScore },
+    ]);
+
+    const gallery = await getSubmissions({ postId: job.postId, sort: 'newest', limit: 10 });
+    expect(gallery.entries.map((entry) => entry.id)).toEqual([job.jobId]);
+  });
+
+  it('merges consensus samples, which agree for a deterministic provider', async () => {
+    const { job, buffer } = await queueUpload(3, {
+      consensus: { samples: 3, concurrency: 2, requiredForLeaderboard: true },
+    });
+    const samples = await runWorker(buffer);
+
+    const { result } = await resolveJob(job);
+
+    expect(samples).toHaveLength(3);
+    expect(result?.consensus).toMatchObject({ samples: 3, confidence: 1, lowConfidence: false });
+  });
+});
@@ -0,0 +1,291 @@
+import { redis } from '@devvit/web/server';
+import type {
+  BatchJob,
+  BatchResponse,
+  JobResultResponse,
+  JobStatus,
+} from '../../shared/types/api';
+import { applyCalibration, DEFAULT_REFERENCE, type ReferenceObject } from '../domain/calibration';
+import { scoreSamples } from '../domain/consensus';
+import { DEFAULT_CUT_STYLE, type CutStyle } from '../domain/cutStyles';
+import { DEFAULT_RUBRIC, type BaseChiveMetrics, type ScoringRubric } from '../domain/scoring';
+import { validateChiveMetrics } from '../domain/validation';
+import { recordCompletedAnalysis, UNRANKED_NOTE } from './analysis';
+import type { ConsensusSettings } from './consensus';
+import { describeDuplicate } from './duplicates';
+
+// Keys shared with the worker (see worker/queue.js).
+export const INFLIGHT_KEY = 'analysis:inflight';
+export const DELAYED_KEY = 'analysis:delayed';
+export const FAILED_KEY = 'analysis:failed';
+export const FAILED_JOBS_KEY = 'analysis:failed:jobs';
+export const STATS_KEY = 'analysis:stats';
+const jobKey = (jobId: string) => `analysis:jobs:${jobId}`;
+const resultKey = (jobId: string) => `analysis:results:${jobId}`;
+const batchKey = (batchId: string) => `analysis:batch:${batchId}`;
+
+const JOB_TTL_MS = 3600000;
+
+export const TERMINAL_JOB_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled'];
+
+/** The record stored at `analysis:jobs:{jobId}` and pushed onto the queue. */
+export type AnalysisJob = {
+  jobId: string;
+  batchId: string;
+  filename: string;
+  uploadIndex: number;
+  imageUrl: string;
+  mimeType: string;
+  perceptualHash: string;
+  /** SHA-256 of the normalized image; with the TTL, keys the result cache. */
+  contentHash: string;
+  /** Null when the subreddit has turned the result cache off. */
+  resultCacheTtlSeconds: number | null;
+  visionProvider: string;
+  /** Selects the prompt on the worker and the scoring target here. */
+  cutStyle: CutStyle;
+  /** Reference object in the photo, if the user named one. */
+  reference: ReferenceObject;
+  /** The subreddit's rubric when the job was queued, so a finished job always scores the same. */
+  rubric: ScoringRubric;
+  /** How many analyses the worker runs; missing on jobs from before consensus mode. */
+  consensus: ConsensusSettings;
+  /**
+   * The post's daily challenge thickness when the job was queued; missing on
+   * jobs from before challenge targets were scored.
+   */
+  targetThicknessMm: number | null;
+  submittedBy: string;
+  submittedByName: string;
+  subreddit: string;
+  postId: string;
+  createdAt: number;
+  status: JobStatus;
+  attempts: number;
+  nextRetryAt: number | null;
+  lastError?: string;
+  cancelledAt?: number;
+};
+
+export type AnalysisBatch = {
+  batchId: string;
+  jobIds: string[];
+  submittedBy: string;
+  createdAt: number;
+};
+
+const expiresFrom = (createdAt: number) => new Date(createdAt + JOB_TTL_MS);
+
+export const getJob = async (jobId: string): Promise<AnalysisJob | null> => {
+  const raw = await redis.get(jobKey(jobId));
+  return raw ? (JSON.parse(raw) as AnalysisJob) : null;
+};
+
+const saveJob = async (job: AnalysisJob) => {
+  await redis.set(jobKey(job.jobId), JSON.stringify(job), {
+    expiration: expiresFrom(job.createdAt),
+  });
+};
+
+export const getBatch = async (batchId: string): Promise<AnalysisBatch | null> => {
+  const raw = await redis.get(batchKey(batchId));
+  return raw ? (JSON.parse(raw) as AnalysisBatch) : null;
+};
+
+/**
+ * Stores the jobs of one upload and their batch, then queues the jobs. Like
+ * requeues, they go through the delayed set, due now, since the app can't
+ * write to the queue list; the worker's next maintenance pass promotes them.
+ */
+export const enqueueBatch = async (batch: AnalysisBatch, jobs: AnalysisJob[]) => {
+  await redis.set(batchKey(batch.batchId), JSON.stringify(batch), {
+    expiration: expiresFrom(batch.createdAt),
+  });
+
+  for (const job of jobs) {
+    await saveJob(job);
+    await redis.zAdd(DELAYED_KEY, { member: JSON.stringify(job), score: batch.createdAt });
+  }
+};
+
+/**
+ * Current state of a job. Once the worker has stored a result it is validated
+ * and scored here, and the score is recorded for the submitter; recording is
+ * idempotent, so repeated polls of the same finished job only write once.
+ */
+export const resolveJob = async (job: AnalysisJob): Promise<JobResultResponse> => {
+  const resultData = await redis.get(resultKey(job.jobId));
+
+  if (!resultData) {
+    // Pending, processing, cancelled or waiting out a retry backoff. A job
+    // recovered from a crashed worker can also be dead-lettered without a
+    // result.
+    return {
+      status: job.status,
+      attempts: job.attempts ?? 0,
+      nextRetryAt: job.nextRetryAt ?? null,
+      ...(job.lastError ? { error: job.lastError } : {}),
+    };
+  }
+
+  const result = JSON.parse(resultData);
+
+  if (result.status === 'failed') {
+    return { status: 'failed', error: result.error, attempts: job.attempts ?? result.attempts };
+  }
+
+  // The worker may run an older build without validation; never score
+  // output that doesn't match the documented shape. Consensus samples that
+  // don't are dropped.
+  const cutStyle = job.cutStyle ?? DEFAULT_CUT_STYLE;
+  const reference = job.reference ?? DEFAULT_REFERENCE;
+  const validations = (Array.isArray(result.samples) ? result.samples : [result.result]).map(
+    (sample: unknown) => validateChiveMetrics(sample, cutStyle, reference)
+  );
+  const samples: BaseChiveMetrics[] = [];
+  const errors: string[] = [];
+  for (const validation of validations) {
+    if (validation.ok) samples.push(applyCalibration(validation.value, reference));
+    else errors.push(...validation.errors);
+  }
+  if (samples.length === 0) {
+    return {
+      status: 'failed',
+      error: `Model output failed validation: ${errors.join('; ')}`,
+    };
+  }
+
+  const { base, scored, consensus } = scoreSamples(
+    samples,
+    job.rubric ?? DEFAULT_RUBRIC,
+    cutStyle,
+    job.targetThicknessMm ?? null
+  );
+  let notes = scored.notes;
+  let entryId: string | undefined;
+
+  if (job.submittedBy && job.submittedBy !== 'anonymous') {
+    const entry = await recordCompletedAnalysis(
+      {
+        id: job.jobId,
+        userId: job.submittedBy,
+        username: job.submittedByName ?? 'unknown',
+        postId: job.postId,
+        subreddit: job.subreddit,
+        mediaUrl: job.imageUrl ?? null,
+        createdAt: result.processedAt ?? job.createdAt,
+        perceptualHash: job.perceptualHash ?? null,
+      },
+      base,
+      scored,
+      { consensus, requireConsensus: job.consensus?.requiredForLeaderboard ?? false }
+    );
+    const duplicateNote = await describeDuplicate(entry);
+    if (duplicateNote) notes = `${notes} ${duplicateNote}`;
+    if (entry.unranked) notes = `${notes} ${UNRANKED_NOTE}`;
+    entryId = entry.id;
+  }
+
+  return {
+    status: 'completed',
+    attempts: job.attempts ?? 1,
+    result: {
+      ...base,
+      ...scored,
+      notes,
+      consensus,
+      ...(entryId ? { entryId } : {}),
+      ...(result.cache ? { cache: result.cache } : {}),
+    },
+  };
+};
+
+/**
+ * Marks a job cancelled so the worker skips it, or drops it if it is waiting
+ * for a retry. A job already being analysed finishes its current call but its
+ * result is discarded. Returns false when the job had already finished.
+ */
+export const cancelJob = async (job: AnalysisJob): Promise<boolean> => {
+  if (TERMINAL_JOB_STATUSES.includes(job.status)) return false;
+  if (await redis.exists(resultKey(job.jobId))) return false;
+
+  await saveJob({ ...job, status: 'cancelled', nextRetryAt: null, cancelledAt: Date.now() });
+  return true;
+};
+
+/**
+ * Runs a job that failed for good again, from its first attempt. It goes
+ * through the delayed set rather than straight onto the queue, which the app
+ * can't write to reliably; the worker promotes it on its next maintenance
+ * pass. The old failure is cleared so polling clients see it pending again.
+ */
+export const requeueJob = async (job: AnalysisJob, now = Date.now()): Promise<AnalysisJob> => {
+  const { lastError: _lastError, cancelledAt: _cancelledAt, ...rest } = job;
+  const next: AnalysisJob = { ...rest, status: 'pending', attempts: 0, nextRetryAt: null };
+
+  await redis.set(jobKey(job.jobId), JSON.stringify(next), { expiration: expiresFrom(now) });
+  await redis.del(resultKey(job.jobId));
+  await redis.zAdd(DELAYED_KEY, { member: JSON.stringify(next), score: now });
+  await redis.zRem(FAILED_KEY, [job.jobId]);
+  await redis.hDel(FAILED_JOBS_KEY, [job.jobId]);
+  return next;
+};
+
+/**
+ * Gives up on a job a worker claimed but never finished, e.g. because no
+ * worker is left to recover it. The job is marked cancelled, so a worker that
+ * does come back drops it instead of retrying, and leaves the in-flight set.
+ * Returns the job's record, which may already have expired.
+ */
+export const purgeJob = async (jobId: string, now = Date.now()): Promise<AnalysisJob | null> => {
+  const job = await getJob(jobId);
+  const record = {
+    ...(job ?? { jobId }),
+    status: 'cancelled',
+    nextRetryAt: null,
+    cancelledAt: now,
+    lastError: 'Purged by a moderator',
+  };
+
+  await redis.set(jobKey(jobId), JSON.stringify(record), { expiration: expiresFrom(now) });
+  await redis.zRem(INFLIGHT_KEY, [jobId]);
+  return job;
+};
+
+export const getBatchStatus = async (batch: AnalysisBatch): Promise<BatchResponse> => {
+  const jobs: BatchJob[] = [];
+  const counts: Record<JobStatus, number> = {
+    pending: 0,
+    processing: 0,
+    retrying: 0,
+    completed: 0,
+    failed: 0,
+    cancelled: 0,
+  };
+
+  for (const [index, jobId] of batch.jobIds.entries()) {
+    const job = await getJob(jobId);
+    const state: JobResultResponse = job
+      ? await resolveJob(job)
+      : { status: 'failed', error: 'Job expired' };
+
+    counts[state.status] += 1;
+    jobs.push({
+      ...state,
+      jobId,
+      filename: job?.filename ?? `Job ${jobId.slice(0, 8)}`,
+      uploadIndex: job?.uploadIndex ?? index,
+    });
+  }
+
+  const done = jobs.every((job) => TERMINAL_JOB_STATUSES.includes(job.status));
+
+  return {
+    type: 'batch',
+    batchId: batch.batchId,
+    status: done ? 'done' : 'running',
+    total: jobs.length,
+    counts,
+    jobs,
+  };
+};
@@ -0,0 +1,245 @@
+import { redis } from '@devvit/web/server';
+import type {
+  HistoryEntry,
+  LeaderboardEntry,
+  LeaderboardScope,
+  LeaderboardWindow,
+} from '../../shared/types/api';
+import { DEFAULT_CUT_STYLE, type CutStyle } from '../domain/cutStyles';
+import { cutStyleOf } from './history';
+
+export const LEADERBOARD_SCOPES: readonly LeaderboardScope[] = ['post', 'subreddit', 'verified'];
+export const LEADERBOARD_WINDOWS: readonly LeaderboardWindow[] = ['daily', 'weekly', 'alltime'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Windowed boards are kept a little past their period so "yesterday" and
+// "last week" can still be read back.
+const WINDOW_TTL_MS: Record<LeaderboardWindow, number | null> = {
+  daily: 8 * DAY_MS,
+  weekly: 35 * DAY_MS,
+  alltime: null,
+};
+
+/**
+ * Period id for a window at a point in time (UTC): `2025-01-31` for daily,
+ * `2025-W05` (ISO week) for weekly, `all` for all-time.
+ */
+export const periodFor = (window: LeaderboardWindow, at: number): string => {
+  const date = new Date(at);
+  if (window === 'daily') return date.toISOString().slice(0, 10);
+  if (window === 'weekly') {
+    const thursday = new Date(
+      Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+    );
+    thursday.setUTCDate(thursday.getUTCDate() + 3 - ((thursday.getUTCDay() + 6) % 7));
+    const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+    const week = Math.ceil(((thursday.getTime() - yearStart) / DAY_MS + 1) / 7);
+    return `${thursday.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+  }
+  return 'all';
+};
+
+// Each cut style has its own boards; fine snips keep the keys from before
+// styles existed.
+const boardKey = (
+  scope: LeaderboardScope,
+  scopeId: string,
+  style: CutStyle,
+  window: LeaderboardWindow,
+  period: string
+) =>
+  style === DEFAULT_CUT_STYLE
+    ? `leaderboard:${scope}:${scopeId}:${window}:${period}`
+    : `leaderboard:${scope}:${scopeId}:${style}:${window}:${period}`;
+const boardEntriesKey = (key: string) => `${key}:entries`;
+const usernamesKey = 'leaderboard:usernames';
+
+// The verified board is subreddit-wide but only takes entries measured
+// against a reference object.
+const scopeIdFor = (scope: LeaderboardScope, entry: HistoryEntry) =>
+  scope === 'post'
+    ? entry.postId
+    : scope === 'verified' && !entry.calibrated
+      ? null
+      : entry.subreddit;
+
+/**
+ * Submits a recorded entry to every board of its cut style it belongs to (or
+ * only `scopes`, if given). Each board keeps only the user's best score for
+ * that window; entries without a score (rejected by the scoring anti-cheat)
+ * are never submitted.
+ */
+export const submitLeaderboardScore = async (
+  entry: HistoryEntry,
+  scopes: readonly LeaderboardScope[] = LEADERBOARD_SCOPES
+): Promise<void> => {
+  if (entry.overallScore == null) return;
+  const score = entry.overallScore;
+
+  await redis.hSet(usernamesKey, { [entry.userId]: entry.username });
+
+  for (const scope of scopes) {
+    const scopeId = scopeIdFor(scope, entry);
+    if (!scopeId) continue;
+
+    for (const window of LEADERBOARD_WINDOWS) {
+      const key = boardKey(
+        scope,
+        scopeId,
+        cutStyleOf(entry),
+        window,
+        periodFor(window, entry.createdAt)
+      );
+      const current = await redis.zScore(key, entry.userId);
+      if (current != null && current >= score) continue;
+
+      await redis.zAdd(key, { member: entry.userId, score });
+      await redis.hSet(boardEntriesKey(key), { [entry.userId]: entry.id });
+
+      const ttl = WINDOW_TTL_MS[window];
+      if (ttl != null) {
+        await redis.expire(key, ttl / 1000);
+        await redis.expire(boardEntriesKey(key), ttl / 1000);
+      }
+    }
+  }
+};
+
+/** Every user who has ever been on a board. */
+export const getLeaderboardUserIds = async (): Promise<string[]> => redis.hKeys(usernamesKey);
+
+/**
+ * Recomputes a user's place on every board their entries touch, from their
+ * complete history. Unlike `submitLeaderboardScore` this can lower a score,
+ * which re-scoring under a stricter rubric needs. Boards whose period has
+ * already expired are left alone rather than brought back.
+ */
+export const rebuildUserLeaderboards = async (
+  userId: string,
+  entries: HistoryEntry[],
+  scopesFor: (entry: HistoryEntry) => readonly LeaderboardScope[],
+  now = Date.now()
+): Promise<void> => {
+  // Board key -> the user's best eligible entry on it, if any.
+  const boards = new Map<
+    string,
+    { window: LeaderboardWindow; best: { entry: HistoryEntry; score: number } | null }
+  >();
+
+  for (const entry of entries) {
+    const score = entry.duplicateOf || entry.unranked || entry.hidden ? null : entry.overallScore;
+    for (const scope of scopesFor(entry)) {
+      const scopeId = scopeIdFor(scope, entry);
+      if (!scopeId) continue;
+
+      for (const window of LEADERBOARD_WINDOWS) {
+        const ttl = WINDOW_TTL_MS[window];
+        if (ttl != null && entry.createdAt + ttl < now) continue;
+
+        const key = boardKey(
+          scope,
+          scopeId,
+          cutStyleOf(entry),
+          window,
+          periodFor(window, entry.createdAt)
+        );
+        const board = boards.get(key) ?? { window, best: null };
+        if (score != null && (!board.best || score > board.best.score)) {
+          board.best = { entry, score };
+        }
+        boards.set(key, board);
+      }
+    }
+  }
+
+  for (const [key, { window, best }] of boards) {
+    if (!best) {
+      await redis.zRem(key, [userId]);
+      await redis.hDel(boardEntriesKey(key), [userId]);
+      continue;
+    }
+
+    await redis.hSet(usernamesKey, { [userId]: best.entry.username });
+    await redis.zAdd(key, { member: userId, score: best.score });
+    await redis.hSet(boardEntriesKey(key), { [userId]: best.entry.id });
+
+    const ttl = WINDOW_TTL_MS[window];
+    if (ttl != null) {
+      await redis.expire(key, ttl / 1000);
+      await redis.expire(boardEntriesKey(key), ttl / 1000);
+    }
+  }
+};
+
+export type LeaderboardPage = {
+  period: string;
+  entries: LeaderboardEntry[];
+  total: number;
+  nextCursor: number | null;
+  me: { rank: number; score: number } | null;
+};
+
+export const getLeaderboard = async (options: {
+  scope: LeaderboardScope;
+  scopeId: string;
+  window: LeaderboardWindow;
+  cutStyle?: CutStyle;
+  limit: number;
+  cursor?: number;
+  userId?: string | undefined;
+  at?: number;
+}): Promise<LeaderboardPage> => {
+  const {
+    scope,
+    scopeId,
+    window,
+    cutStyle = DEFAULT_CUT_STYLE,
+    limit,
+    cursor = 0,
+    userId,
+    at = Date.now(),
+  } = options;
+  const period = periodFor(window, at);
+  const key = boardKey(scope, scopeId, cutStyle, window, period);
+
+  const [members, total] = await Promise.all([
+    redis.zRange(key, cursor, cursor + limit - 1, { by: 'rank', reverse: true }),
+    redis.zCard(key),
+  ]);
+
+  const userIds = members.map(({ member }) => member);
+  const [usernames, entryIds] = userIds.length
+    ? await Promise.all([
+        redis.hMGet(usernamesKey, userIds),
+        redis.hMGet(boardEntriesKey(key), userIds),
+      ])
+    : [[], []];
+
+  const entries: LeaderboardEntry[] = members.map(({ member, score }, i) => ({
+    rank: cursor + i + 1,
+    userId: member,
+    username: usernames[i] ?? 'unknown',
+    score,
+    entryId: entryIds[i] ?? null,
+  }));
+
+  let me: LeaderboardPage['me'] = null;
+  if (userId) {
+    const [score, ascendingRank] = await Promise.all([
+      redis.zScore(key, userId),
+      redis.zRank(key, userId),
+    ]);
+    if (score != null && ascendingRank != null) {
+      me = { rank: total - ascendingRank, score };
+    }
+  }
+
+  return {
+    period,
+    entries,
+    total,
+    nextCursor: cursor + limit < total ? cursor + limit : null,
+    me,
+  };
+};
@@ -0,0 +1,11 @@
+import { context, reddit } from '@devvit/web/server';
+
+/** Whether the user making the current request moderates this subreddit. */
+export const isCurrentUserModerator = async (): Promise<boolean> => {
+  const { subredditName } = context;
+  const username = await reddit.getCurrentUsername();
+  if (!subredditName || !username) return false;
+
+  const moderators = await reddit.getModerators({ subredditName, username }).all();
+  return moderators.some((mod) => mod.username.toLowerCase() === username.toLowerCase());
+};
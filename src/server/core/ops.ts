@@ -0,0 +1,155 @@
+import { redis } from '@devvit/web/server';
+import type {
+  HistoryEntry,
+  OpsBan,
+  OpsJob,
+  OpsQueueStats,
+  OpsResponse,
+} from '../../shared/types/api';
+import {
+  getAllHistory,
+  getDailyEntryCounts,
+  getHistoryEntry,
+  getRecentEntries,
+  replaceHistoryEntries,
+} from './history';
+import {
+  DELAYED_KEY,
+  FAILED_JOBS_KEY,
+  FAILED_KEY,
+  getJob,
+  INFLIGHT_KEY,
+  STATS_KEY,
+  type AnalysisJob,
+} from './jobs';
+import { recomputeFlair } from './flair';
+import { rebuildUserLeaderboards } from './leaderboard';
+import { leaderboardScopesFor } from './rescore';
+import { syncPeoplesChoice } from './votes';
+
+// userId -> OpsBan for users who may not submit photos.
+const bansKey = 'ops:banned';
+
+/**
+ * How far past its deadline an in-flight job must be to count as stuck.
+ * Running workers recover expired jobs within seconds.
+ */
+const STUCK_AFTER_MS = 60000;
+const DAILY_DAYS = 14;
+const LIST_LIMIT = 20;
+
+type FailedJob = AnalysisJob & { error: string; failedAt: number };
+
+const toOpsJob = (jobId: string, job: AnalysisJob | null): OpsJob => ({
+  jobId,
+  filename: job?.filename ?? null,
+  submittedBy: job?.submittedBy ?? null,
+  submittedByName: job?.submittedByName ?? null,
+  status: job?.status ?? null,
+  attempts: job?.attempts ?? 0,
+  error: job?.lastError ?? null,
+});
+
+const getQueueStats = async (): Promise<OpsQueueStats | null> => {
+  const raw = await redis.get(STATS_KEY);
+  return raw ? (JSON.parse(raw) as OpsQueueStats) : null;
+};
+
+const getInFlightJobs = async (now: number): Promise<OpsJob[]> => {
+  const claims = await redis.zRange(INFLIGHT_KEY, 0, -1, { by: 'rank' });
+  return Promise.all(
+    claims.map(async ({ member: jobId, score: deadline }) => ({
+      ...toOpsJob(jobId, await getJob(jobId)),
+      deadline,
+      stuck: deadline + STUCK_AFTER_MS < now,
+    }))
+  );
+};
+
+export const getFailedJob = async (jobId: string): Promise<FailedJob | null> => {
+  const raw = await redis.hGet(FAILED_JOBS_KEY, jobId);
+  return raw ? (JSON.parse(raw) as FailedJob) : null;
+};
+
+const getFailedJobs = async (limit: number): Promise<OpsJob[]> => {
+  const members = await redis.zRange(FAILED_KEY, 0, limit - 1, { by: 'rank', reverse: true });
+  return Promise.all(
+    members.map(async ({ member: jobId, score: failedAt }) => {
+      const job = await getFailedJob(jobId);
+      return { ...toOpsJob(jobId, job), status: 'failed', error: job?.error ?? null, failedAt };
+    })
+  );
+};
+
+/** Entries recorded and jobs failed for good on each of the last few days. */
+const getDailyCounts = async (now: number): Promise<OpsResponse['daily']> => {
+  const recorded = await getDailyEntryCounts(DAILY_DAYS, now);
+  const since = Date.parse(`${recorded[0]?.date ?? ''}T00:00:00Z`) || 0;
+  const failures = await redis.zRange(FAILED_KEY, since, now, { by: 'score' });
+
+  return recorded.map(({ date, count }) => ({
+    date,
+    recorded: count,
+    failed: failures.filter(({ score }) => new Date(score).toISOString().startsWith(date)).length,
+  }));
+};
+
+export const getBans = async (): Promise<OpsBan[]> => {
+  const bans = await redis.hGetAll(bansKey);
+  return Object.values(bans)
+    .map((raw) => JSON.parse(raw) as OpsBan)
+    .sort((a, b) => b.bannedAt - a.bannedAt);
+};
+
+/** Everything the moderator ops dashboard shows. */
+export const getOpsOverview = async (now = Date.now()): Promise<OpsResponse> => {
+  const [queue, delayed, inFlight, failed, recent, daily, bans] = await Promise.all([
+    getQueueStats(),
+    redis.zCard(DELAYED_KEY),
+    getInFlightJobs(now),
+    getFailedJobs(LIST_LIMIT),
+    getRecentEntries(LIST_LIMIT),
+    getDailyCounts(now),
+    getBans(),
+  ]);
+
+  return { type: 'ops', queue, delayed, inFlight, failed, recent, daily, bans };
+};
+
+/** Ids of in-flight jobs that no worker has recovered in time. */
+export const getStuckJobIds = async (now = Date.now()): Promise<string[]> =>
+  (await getInFlightJobs(now)).filter(({ stuck }) => stuck).map(({ jobId }) => jobId);
+
+/**
+ * Takes an entry off the leaderboards, people's choice included, or puts it
+ * back. The entry stays in its owner's history and personal bests; the boards
+ * are rebuilt and the owner's score flair re-based on what still counts.
+ */
+export const setEntryHidden = async (
+  entryId: string,
+  hidden: boolean
+): Promise<HistoryEntry | null> => {
+  const entry = await getHistoryEntry(entryId);
+  if (!entry) return null;
+
+  const { hidden: _hidden, ...rest } = entry;
+  const next: HistoryEntry = hidden ? { ...rest, hidden: true } : rest;
+  const all = (await getAllHistory(entry.userId)).map((e) => (e.id === entryId ? next : e));
+
+  await replaceHistoryEntries(entry.userId, [next], all);
+  await rebuildUserLeaderboards(entry.userId, all, await leaderboardScopesFor(all));
+  await syncPeoplesChoice(next);
+  await recomputeFlair(entry.userId, entry.username, entry.subreddit, all);
+  return next;
+};
+
+export const isBannedSubmitter = async (userId: string): Promise<boolean> =>
+  (await redis.hGet(bansKey, userId)) != null;
+
+export const banSubmitter = async (ban: OpsBan): Promise<void> => {
+  await redis.hSet(bansKey, { [ban.userId]: JSON.stringify(ban) });
+};
+
+/** Returns false when the user wasn't banned. */
+export const unbanSubmitter = async (userId: string): Promise<boolean> =>
+  (await redis.hDel(bansKey, [userId])) > 0;
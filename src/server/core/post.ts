@@ -1,7 +1,19 @@
-import { reddit } from '@devvit/web/server';
+import { reddit, redis } from '@devvit/web/server';
 
-export const createPost = async () => {
-  return await reddit.submitCustomPost({
-    title: 'chiveit',
+const latestPostKey = 'post:latest';
+
+export const createPost = async (title = 'chiveit') => {
+  const post = await reddit.submitCustomPost({
+    title,
   });
+  await redis.set(latestPostKey, post.id);
+  return post;
+};
+
+/**
+ * The newest chiveit post, whose Mod tools tab holds the moderators' ops
+ * dashboard; null until the first post is created.
+ */
+export const getLatestPostId = async (): Promise<string | null> => {
+  return (await redis.get(latestPostKey)) ?? null;
 };
@@ -0,0 +1,43 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FakeRedis } from '../testing/fakeRedis';
+import { getQuotaStatus, reserveQuota } from './quotas';
+
+const devvit = vi.hoisted(() => ({ redis: null as unknown as FakeRedis }));
+
+vi.mock('@devvit/web/server', async () => {
+  const { createFakeRedis } = await import('../testing/fakeRedis');
+  devvit.redis = createFakeRedis();
+  return {
+    redis: new Proxy({}, { get: (_target, command: keyof FakeRedis) => devvit.redis[command] }),
+    settings: { get: vi.fn(async () => undefined) },
+    context: { userId: 't2_chopper', subredditName: 'chiveit' },
+    // No one is a moderator here, so every quota applies.
+    reddit: { getCurrentUsername: vi.fn(async () => undefined) },
+  };
+});
+
+const usedOf = async () => (await getQuotaStatus()).usage.map(({ used }) => used);
+
+describe('reserveQuota', () => {
+  beforeEach(async () => {
+    const { createFakeRedis } = await import('../testing/fakeRedis');
+    devvit.redis = createFakeRedis();
+  });
+
+  it('counts against every quota until released', async () => {
+    const quota = await reserveQuota(3);
+    expect(quota.ok).toBe(true);
+    expect(await usedOf()).toEqual([3, 3, 3, 3]);
+
+    if (quota.ok) await quota.release();
+    expect(await usedOf()).toEqual([0, 0, 0, 0]);
+  });
+
+  it('reserves nothing when one quota would go over', async () => {
+    await reserveQuota(4);
+
+    const quota = await reserveQuota(2);
+    expect(quota.ok).toBe(false);
+    expect(await usedOf()).toEqual([4, 4, 4, 4]);
+  });
+});
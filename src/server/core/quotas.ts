@@ -0,0 +1,150 @@
+import { context, redis, settings } from '@devvit/web/server';
+import type { Response } from 'express';
+import type {
+  QuotaExceededResponse,
+  QuotaResponse,
+  QuotaScope,
+  QuotaUsage,
+  QuotaWindow,
+} from '../../shared/types/api';
+import { isCurrentUserModerator } from './moderation';
+
+type QuotaLimit = {
+  scope: QuotaScope;
+  window: QuotaWindow;
+  limit: number;
+};
+
+const WINDOW_MS: Record<QuotaWindow, number> = {
+  hour: 3600000,
+  day: 86400000,
+};
+
+// Settings per scope and window; 0 turns that quota off.
+const QUOTA_SETTINGS: (Omit<QuotaLimit, 'limit'> & { name: string; fallback: number })[] = [
+  { scope: 'user', window: 'hour', name: 'QUOTA_USER_PER_HOUR', fallback: 5 },
+  { scope: 'user', window: 'day', name: 'QUOTA_USER_PER_DAY', fallback: 10 },
+  { scope: 'subreddit', window: 'hour', name: 'QUOTA_SUBREDDIT_PER_HOUR', fallback: 100 },
+  { scope: 'subreddit', window: 'day', name: 'QUOTA_SUBREDDIT_PER_DAY', fallback: 500 },
+];
+
+// Fixed windows aligned to UTC hours and days, so the reset time is the same
+// for everyone and easy to explain.
+const windowStart = (window: QuotaWindow, now: number) => now - (now % WINDOW_MS[window]);
+
+const counterKey = (scope: QuotaScope, id: string, window: QuotaWindow, start: number) =>
+  `quota:${scope}:${id}:${window}:${start}`;
+
+const getQuotaLimits = async (): Promise<QuotaLimit[]> => {
+  const values = await Promise.all(QUOTA_SETTINGS.map(({ name }) => settings.get<number>(name)));
+
+  return QUOTA_SETTINGS.map(({ scope, window, fallback }, i) => {
+    const value = values[i];
+    const limit = typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+    return { scope, window, limit: Math.max(0, Math.floor(limit)) };
+  }).filter(({ limit }) => limit > 0);
+};
+
+/** The counters that apply to the current request's user and subreddit. */
+const currentCounters = async (now: number) => {
+  const ids: Record<QuotaScope, string> = {
+    user: context.userId ?? 'anonymous',
+    subreddit: context.subredditName ?? 'unknown',
+  };
+
+  return (await getQuotaLimits()).map((quota) => {
+    const start = windowStart(quota.window, now);
+    return {
+      ...quota,
+      key: counterKey(quota.scope, ids[quota.scope], quota.window, start),
+      resetAt: start + WINDOW_MS[quota.window],
+    };
+  });
+};
+
+const usageOf = (
+  { scope, window, limit, resetAt }: QuotaLimit & { resetAt: number },
+  used: number
+): QuotaUsage => ({
+  scope,
+  window,
+  limit,
+  used,
+  remaining: Math.max(0, limit - used),
+  resetAt,
+});
+
+/** Current usage for the requesting user; moderators are exempt. */
+export const getQuotaStatus = async (now = Date.now()): Promise<QuotaResponse> => {
+  if (await isCurrentUserModerator()) return { type: 'quota', exempt: true, usage: [] };
+
+  const counters = await currentCounters(now);
+  const usage = await Promise.all(
+    counters.map(async (counter) => usageOf(counter, Number((await redis.get(counter.key)) ?? 0)))
+  );
+  return { type: 'quota', exempt: false, usage };
+};
+
+const describeWindow = (window: QuotaWindow) => (window === 'hour' ? 'this hour' : 'today');
+
+const unreserve = async (keys: string[], count: number) => {
+  for (const key of keys) await redis.incrBy(key, -count);
+};
+
+/**
+ * Counts `count` analyses against every quota that applies, or none of them
+ * if any would go over. Counting happens before the analyses run, so
+ * concurrent requests can't both slip under the limit. Call `release` if the
+ * analyses never get started; ones that run and fail are not refunded.
+ */
+export const reserveQuota = async (
+  count: number,
+  now = Date.now()
+): Promise<
+  { ok: true; release: () => Promise<void> } | { ok: false; exceeded: QuotaExceededResponse }
+> => {
+  if (await isCurrentUserModerator()) return { ok: true, release: async () => {} };
+
+  const counters = await currentCounters(now);
+  const reserved: string[] = [];
+
+  for (const counter of counters) {
+    const used = await redis.incrBy(counter.key, count);
+    reserved.push(counter.key);
+    if (used === count) {
+      await redis.expire(counter.key, Math.ceil((counter.resetAt - now) / 1000) + 60);
+    }
+
+    if (used > counter.limit) {
+      await unreserve(reserved, count);
+
+      const remaining = Math.max(0, counter.limit - (used - count));
+      const who = counter.scope === 'user' ? 'You have' : 'This subreddit has';
+      return {
+        ok: false,
+        exceeded: {
+          status: 'error',
+          code: 'quota_exceeded',
+          message:
+            remaining > 0
+              ? `${who} ${remaining} of ${counter.limit} analyses left ${describeWindow(counter.window)}; upload fewer images.`
+              : `${who} used all ${counter.limit} analyses ${describeWindow(counter.window)}. Try again after ${new Date(counter.resetAt).toISOString().slice(11, 16)} UTC.`,
+          scope: counter.scope,
+          window: counter.window,
+          limit: counter.limit,
+          remaining,
+          requested: count,
+          resetAt: counter.resetAt,
+        },
+      };
+    }
+  }
+
+  return { ok: true, release: () => unreserve(reserved, count) };
+};
+
+/** Answers a request that went over quota with 429 and a Retry-After. */
+export const sendQuotaExceeded = (res: Response, exceeded: QuotaExceededResponse) => {
+  const retryAfterSeconds = Math.max(1, Math.ceil((exceeded.resetAt - Date.now()) / 1000));
+  res.status(429).set('Retry-After', String(retryAfterSeconds)).json(exceeded);
+};
@@ -0,0 +1,135 @@
+import type { HistoryEntry, LeaderboardScope, RescoreResponse } from '../../shared/types/api';
+import { rubricVersion, scoreChiveAnalysis, type ScoringRubric } from '../domain/scoring';
+import { getChallengeForPost, isChallengeOpen } from './challenge';
+import {
+  cutStyleOf,
+  getAllHistory,
+  getHistoryUsers,
+  indexHistoryUsers,
+  replaceHistoryEntries,
+} from './history';
+import {
+  getLeaderboardUserIds,
+  LEADERBOARD_SCOPES,
+  rebuildUserLeaderboards,
+} from './leaderboard';
+import { syncSubmission } from './submissions';
+
+/**
+ * Which boards each of `entries` counts on: a closed challenge's post board
+ * keeps its final standings. `challengeOpen` caches lookups by post id across
+ * calls.
+ */
+export const leaderboardScopesFor = async (
+  entries: HistoryEntry[],
+  challengeOpen = new Map<string, boolean>()
+): Promise<(entry: HistoryEntry) => readonly LeaderboardScope[]> => {
+  for (const entry of entries) {
+    if (!entry.postId || challengeOpen.has(entry.postId)) continue;
+    const challenge = await getChallengeForPost(entry.postId);
+    challengeOpen.set(entry.postId, challenge ? await isChallengeOpen(challenge) : true);
+  }
+
+  return (entry) =>
+    challengeOpen.get(entry.postId) === false
+      ? LEADERBOARD_SCOPES.filter((scope) => scope !== 'post')
+      : LEADERBOARD_SCOPES;
+};
+
+/** Users per page; each costs a few reads and writes per entry. */
+const RESCORE_PAGE_SIZE = 20;
+
+/**
+ * Re-scores stored entries under `rubric` from the metrics saved with them;
+ * the model is not called again. Works one page of users at a time so a
+ * large subreddit fits in request limits: pass `nextCursor` back until it is
+ * null. Personal bests and current leaderboards follow the new scores; a
+ * closed challenge's standings stay as they were when it closed.
+ */
+export const rescoreHistory = async (
+  rubric: ScoringRubric,
+  cursor = 0
+): Promise<RescoreResponse> => {
+  const version = rubricVersion(rubric);
+  if (cursor === 0) {
+    // Users who only scored before the user index existed.
+    await indexHistoryUsers(await getLeaderboardUserIds());
+  }
+
+  const page = await getHistoryUsers(RESCORE_PAGE_SIZE, cursor);
+  const challengeOpen = new Map<string, boolean>();
+  const challengeTargets = new Map<string, number | null>();
+  let updated = 0;
+  let skipped = 0;
+
+  for (const userId of page.userIds) {
+    const entries = await getAllHistory(userId);
+    const changed: HistoryEntry[] = [];
+    for (const entry of entries) {
+      if (!entry.postId || challengeTargets.has(entry.postId)) continue;
+      const challenge = await getChallengeForPost(entry.postId);
+      challengeTargets.set(entry.postId, challenge?.targetThicknessMm ?? null);
+    }
+
+    const rescored = entries.map((entry) => {
+      // Fine snips scored before they had a target are re-scored too.
+      const scoredWithoutTarget = entry.targetScore == null && cutStyleOf(entry) === 'fine';
+      if ((entry.rubricVersion === version && !scoredWithoutTarget) || !entry.regions?.length) {
+        skipped += 1;
+        return entry;
+      }
+
+      const scored = scoreChiveAnalysis(
+        {
+          averageThicknessMm: entry.averageThicknessMm,
+          thicknessStdDevMm: entry.thicknessStdDevMm,
+          cutQualityLabel: entry.cutQualityLabel,
+          regions: entry.regions,
+          ...(entry.averagePieceLengthMm != null
+            ? { averagePieceLengthMm: entry.averagePieceLengthMm }
+            : {}),
+          ...(entry.averageCutAngleDeg != null
+            ? { averageCutAngleDeg: entry.averageCutAngleDeg }
+            : {}),
+          // Stored thicknesses are already calibrated; this keeps the flag.
+          ...(entry.calibration ? { calibration: entry.calibration } : {}),
+        },
+        rubric,
+        cutStyleOf(entry),
+        challengeTargets.get(entry.postId) ?? null
+      );
+      const next: HistoryEntry = {
+        ...entry,
+        overallScore: scored.overallScore,
+        thicknessConsistencyScore: scored.thicknessConsistencyScore,
+        cutQualityScore: scored.cutQualityScore,
+        rubricVersion: scored.rubricVersion,
+        targetScore: scored.targetScore,
+      };
+      changed.push(next);
+      return next;
+    });
+
+    if (changed.length === 0) continue;
+    updated += changed.length;
+
+    await replaceHistoryEntries(userId, changed, rescored);
+    for (const entry of changed) {
+      await syncSubmission(entry);
+    }
+    await rebuildUserLeaderboards(
+      userId,
+      rescored,
+      await leaderboardScopesFor(rescored, challengeOpen)
+    );
+  }
+
+  return {
+    type: 'rescore',
+    rubricVersion: version,
+    users: page.userIds.length,
+    updated,
+    skipped,
+    nextCursor: page.nextCursor,
+  };
+};
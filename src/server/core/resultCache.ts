@@ -0,0 +1,101 @@
+import crypto from 'crypto';
+import { redis, settings } from '@devvit/web/server';
+import type { ResultCacheInfo } from '../../shared/types/api';
+import type { ReferenceObject } from '../domain/calibration';
+import type { CutStyle } from '../domain/cutStyles';
+import type { BaseChiveMetrics } from '../domain/scoring';
+import { PROMPT_VERSION } from '../services/chivePrompt';
+import type { VisionProvider } from '../services/visionProvider';
+
+const DAY_SECONDS = 86400;
+const DEFAULT_TTL_DAYS = 30;
+
+/**
+ * Shared with the worker (see worker/resultCache.js). The prompt version and
+ * model are part of the key, so changing either simply stops old entries
+ * from being found; they age out on their own. The cut style changes the
+ * prompt too, so it is part of the key as well, as is a reference object
+ * other than `none`. Consensus samples after the first are cached
+ * separately, so a sample is never reused as another one.
+ */
+export const resultCacheKey = (
+  provider: string,
+  model: string,
+  style: CutStyle,
+  reference: ReferenceObject,
+  contentHash: string,
+  sample = 0
+) => {
+  const variant = reference === 'none' ? style : `${style}:${reference}`;
+  const suffix = sample ? `:${sample}` : '';
+  return `analysis:cache:${provider}:${model}:${PROMPT_VERSION}:${variant}:${contentHash}${suffix}`;
+};
+
+type CachedResult = {
+  metrics: BaseChiveMetrics;
+  cachedAt: number;
+};
+
+/** SHA-256 of the normalized image, the part of the key that identifies it. */
+export const contentHash = (buffer: Buffer) =>
+  crypto.createHash('sha256').update(buffer).digest('hex');
+
+/**
+ * How long results stay cached, in seconds, or null when the cache is turned
+ * off by the `RESULT_CACHE_ENABLED` setting.
+ */
+export const getResultCacheTtl = async (): Promise<number | null> => {
+  const [enabled, ttlDays] = await Promise.all([
+    settings.get<boolean>('RESULT_CACHE_ENABLED'),
+    settings.get<number>('RESULT_CACHE_TTL_DAYS'),
+  ]);
+  if (enabled === false) return null;
+
+  const days = typeof ttlDays === 'number' && ttlDays > 0 ? ttlDays : DEFAULT_TTL_DAYS;
+  return Math.ceil(days * DAY_SECONDS);
+};
+
+/**
+ * Runs `provider` on the image unless the same bytes were already analyzed
+ * with the same model and prompt, in which case the earlier metrics are
+ * returned. `ttlSeconds` null bypasses the cache entirely.
+ */
+export const analyzeWithCache = async (
+  provider: VisionProvider,
+  buffer: Buffer,
+  mimeType: string,
+  style: CutStyle,
+  reference: ReferenceObject,
+  ttlSeconds: number | null,
+  sample = 0
+): Promise<{ metrics: BaseChiveMetrics; cache: ResultCacheInfo }> => {
+  const info = { model: provider.model, promptVersion: PROMPT_VERSION };
+  if (ttlSeconds == null) {
+    return {
+      metrics: await provider.analyze(buffer, mimeType, style, reference),
+      cache: { ...info, hit: false, cachedAt: null },
+    };
+  }
+
+  const key = resultCacheKey(
+    provider.name,
+    provider.model,
+    style,
+    reference,
+    contentHash(buffer),
+    sample
+  );
+  const raw = await redis.get(key);
+  if (raw) {
+    const cached = JSON.parse(raw) as CachedResult;
+    return { metrics: cached.metrics, cache: { ...info, hit: true, cachedAt: cached.cachedAt } };
+  }
+
+  const metrics = await provider.analyze(buffer, mimeType, style, reference);
+  const entry: CachedResult = { metrics, cachedAt: Date.now() };
+  await redis.set(key, JSON.stringify(entry), {
+    expiration: new Date(entry.cachedAt + ttlSeconds * 1000),
+  });
+
+  return { metrics, cache: { ...info, hit: false, cachedAt: null } };
+};
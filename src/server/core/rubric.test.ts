@@ -0,0 +1,49 @@
+import { settings } from '@devvit/web/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_RUBRIC } from '../domain/scoring';
+import { getScoringRubric } from './rubric';
+
+vi.mock('@devvit/web/server', () => ({ settings: { get: vi.fn() } }));
+
+const useSettings = (values: Record<string, unknown>) => {
+  vi.mocked(settings.get).mockImplementation(async (name: string) => values[name] as never);
+};
+
+describe('getScoringRubric', () => {
+  beforeEach(() => useSettings({}));
+
+  it('is the default rubric when nothing is set', async () => {
+    expect(await getScoringRubric()).toEqual(DEFAULT_RUBRIC);
+  });
+
+  it('applies the settings, weighting cut quality by what consistency leaves', async () => {
+    useSettings({
+      RUBRIC_SCORING_MODE: ['regional'],
+      RUBRIC_MAX_STDDEV_MM: 2,
+      RUBRIC_SCORE_RAGGED: 0.2,
+      RUBRIC_CONSISTENCY_WEIGHT: 0.7,
+    });
+
+    const rubric = await getScoringRubric();
+
+    expect(rubric.mode).toBe('regional');
+    expect(rubric.maxStdDevMm).toBe(2);
+    expect(rubric.cutQualityScores.ragged).toBe(0.2);
+    expect(rubric.weights).toEqual({ consistency: 0.7, cutQuality: 0.3 });
+  });
+
+  it('clamps out-of-range values instead of rejecting them', async () => {
+    useSettings({
+      RUBRIC_MAX_STDDEV_MM: 0,
+      RUBRIC_SCORE_CLEAN: 3,
+      RUBRIC_MIN_THICKNESS_MM: 4,
+      RUBRIC_MAX_THICKNESS_MM: 2,
+    });
+
+    const rubric = await getScoringRubric();
+
+    expect(rubric.maxStdDevMm).toBe(0.1);
+    expect(rubric.cutQualityScores.clean).toBe(1);
+    expect(rubric.plausibleThicknessMm).toEqual({ min: 4, max: 4.1 });
+  });
+});
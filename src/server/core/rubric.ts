@@ -0,0 +1,52 @@
+import { settings } from '@devvit/web/server';
+import { DEFAULT_RUBRIC, type ScoringMode, type ScoringRubric } from '../domain/scoring';
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const numberOr = (value: number | undefined, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+/**
+ * The subreddit's scoring rubric: `DEFAULT_RUBRIC` with any `RUBRIC_*`
+ * settings applied. Out-of-range values are clamped rather than rejected, so
+ * a typo in the settings can't stop scoring altogether.
+ */
+export const getScoringRubric = async (): Promise<ScoringRubric> => {
+  const [mode, maxStdDevMm, clean, mixed, ragged, unknown, consistencyWeight, minMm, maxMm] =
+    await Promise.all([
+      settings.get<string | string[]>('RUBRIC_SCORING_MODE'),
+      settings.get<number>('RUBRIC_MAX_STDDEV_MM'),
+      settings.get<number>('RUBRIC_SCORE_CLEAN'),
+      settings.get<number>('RUBRIC_SCORE_MIXED'),
+      settings.get<number>('RUBRIC_SCORE_RAGGED'),
+      settings.get<number>('RUBRIC_SCORE_UNKNOWN'),
+      settings.get<number>('RUBRIC_CONSISTENCY_WEIGHT'),
+      settings.get<number>('RUBRIC_MIN_THICKNESS_MM'),
+      settings.get<number>('RUBRIC_MAX_THICKNESS_MM'),
+    ]);
+
+  const defaults = DEFAULT_RUBRIC;
+  const score = (value: number | undefined, fallback: number) =>
+    clamp(numberOr(value, fallback), 0, 1);
+  const consistency = score(consistencyWeight, defaults.weights.consistency);
+  const min = Math.max(0, numberOr(minMm, defaults.plausibleThicknessMm.min));
+
+  // Select settings come back as a single-item array.
+  const selectedMode = Array.isArray(mode) ? mode[0] : mode;
+
+  return {
+    mode: selectedMode === 'regional' ? 'regional' : ('global' satisfies ScoringMode),
+    maxStdDevMm: Math.max(0.1, numberOr(maxStdDevMm, defaults.maxStdDevMm)),
+    cutQualityScores: {
+      clean: score(clean, defaults.cutQualityScores.clean),
+      mixed: score(mixed, defaults.cutQualityScores.mixed),
+      ragged: score(ragged, defaults.cutQualityScores.ragged),
+      unknown: score(unknown, defaults.cutQualityScores.unknown),
+    },
+    weights: { consistency, cutQuality: Number((1 - consistency).toFixed(4)) },
+    plausibleThicknessMm: {
+      min,
+      max: Math.max(min + 0.1, numberOr(maxMm, defaults.plausibleThicknessMm.max)),
+    },
+  };
+};
@@ -0,0 +1,161 @@
+import { reddit, redis, settings } from '@devvit/web/server';
+import type { Comment, Post } from '@devvit/web/server';
+import type { HistoryEntry, Scorecard } from '../../shared/types/api';
+import { REFERENCE_OBJECTS } from '../domain/calibration';
+import { CUT_STYLES } from '../domain/cutStyles';
+import { cutStyleOf } from './history';
+
+const scorecardKey = (entryId: string) => `scorecard:${entryId}`;
+const cooldownKey = (userId: string) => `scorecard:cooldown:${userId}`;
+
+const DEFAULT_COOLDOWN_MINUTES = 10;
+
+type ScorecardRecord = Scorecard & { commentId: Comment['id'] };
+
+const percent = (value: number | null) => (value == null ? 'n/a' : `${Math.round(value * 100)}%`);
+
+/** Markdown comment for `entry`; `postUrl` links back to the app. */
+export const formatScorecard = (entry: HistoryEntry, postUrl: string): string => {
+  const style = CUT_STYLES[cutStyleOf(entry)];
+  const thickness =
+    entry.averageThicknessMm == null
+      ? 'n/a'
+      : entry.calibrated && entry.calibration
+        ? `${entry.averageThicknessMm.toFixed(1)} mm (measured against a ${REFERENCE_OBJECTS[entry.calibration.reference].label})`
+        : `${entry.averageThicknessMm.toFixed(1)} mm (estimated)`;
+  const measured = style.target ? entry[style.target.metric] : undefined;
+
+  const rows = [
+    ['Thickness consistency', percent(entry.thicknessConsistencyScore)],
+    ['Cut quality', percent(entry.cutQualityScore)],
+    ['Cut label', entry.cutQualityLabel],
+    ['Average thickness', thickness],
+    ['Style', style.label],
+    ...(style.target
+      ? [
+          [
+            `Target (${style.target.value}${style.target.unit})`,
+            measured == null
+              ? 'n/a'
+              : `${Math.round(measured)}${style.target.unit}, ${percent(entry.targetScore ?? null)}`,
+          ],
+        ]
+      : []),
+    ...(entry.consensus
+      ? [
+          [
+            'Confidence',
+            `${percent(entry.consensus.confidence)} over ${entry.consensus.samples} analyses`,
+          ],
+        ]
+      : []),
+  ];
+
+  const score = entry.overallScore == null ? 'not scored' : `${Math.round(entry.overallScore)}/100`;
+  const notes = entry.rawNotes?.trim();
+  const links = [
+    entry.mediaUrl ? `[Photo](${entry.mediaUrl})` : null,
+    `[Score your own chives](${postUrl})`,
+  ].filter(Boolean);
+
+  return [
+    `**u/${entry.username}'s chive scorecard: ${score}**`,
+    '',
+    '| | |',
+    '|:--|:--|',
+    ...rows.map(([label, value]) => `| ${label} | ${value} |`),
+    '',
+    // Quote each line so multi-line notes stay inside the quote.
+    ...(notes
+      ? [
+          notes
+            .split('\n')
+            .map((line) => `> ${line}`)
+            .join('\n'),
+          '',
+        ]
+      : []),
+    links.join(' · '),
+  ].join('\n');
+};
+
+const getCooldownMinutes = async (): Promise<number> => {
+  const value = await settings.get<number>('SCORECARD_COOLDOWN_MINUTES');
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0
+    ? value
+    : DEFAULT_COOLDOWN_MINUTES;
+};
+
+const toScorecard = ({ commentId: _commentId, ...scorecard }: ScorecardRecord): Scorecard =>
+  scorecard;
+
+const getRecord = async (entryId: string): Promise<ScorecardRecord | null> => {
+  const raw = await redis.get(scorecardKey(entryId));
+  return raw ? (JSON.parse(raw) as ScorecardRecord) : null;
+};
+
+export const getScorecard = async (entryId: string): Promise<Scorecard | null> => {
+  const record = await getRecord(entryId);
+  return record ? toScorecard(record) : null;
+};
+
+/**
+ * Posts `entry` as a comment on `postId` from the app account. Each user can
+ * share once per cooldown (the `SCORECARD_COOLDOWN_MINUTES` setting); a
+ * shared entry returns its existing scorecard instead of posting again.
+ */
+export const shareScorecard = async (
+  entry: HistoryEntry,
+  postId: Post['id'],
+  now = Date.now()
+): Promise<{ ok: true; scorecard: Scorecard } | { ok: false; retryAt: number }> => {
+  const existing = await getRecord(entry.id);
+  if (existing) return { ok: true, scorecard: toScorecard(existing) };
+
+  const lastShared = await redis.get(cooldownKey(entry.userId));
+  const cooldownMs = (await getCooldownMinutes()) * 60000;
+  if (lastShared && now - Number(lastShared) < cooldownMs) {
+    return { ok: false, retryAt: Number(lastShared) + cooldownMs };
+  }
+
+  const post = await reddit.getPostById(postId);
+  const comment = await reddit.submitComment({
+    id: postId,
+    text: formatScorecard(entry, `https://www.reddit.com${post.permalink}`),
+  });
+
+  const record: ScorecardRecord = {
+    entryId: entry.id,
+    commentId: comment.id,
+    postId,
+    permalink: `https://www.reddit.com${comment.permalink}`,
+    createdAt: now,
+  };
+  await redis.set(scorecardKey(entry.id), JSON.stringify(record));
+  if (cooldownMs > 0) {
+    await redis.set(cooldownKey(entry.userId), String(now), {
+      expiration: new Date(now + cooldownMs),
+    });
+  }
+
+  return { ok: true, scorecard: toScorecard(record) };
+};
+
+/**
+ * Removes the comment posted for `entry`, if any. The cooldown stays, so
+ * deleting and re-sharing can't be used to post more often.
+ */
+export const deleteScorecard = async (entry: HistoryEntry): Promise<boolean> => {
+  const record = await getRecord(entry.id);
+  if (!record) return false;
+
+  try {
+    const comment = await reddit.getCommentById(record.commentId);
+    await comment.delete();
+  } catch (err) {
+    // Already removed on Reddit (by a moderator, say); forget it here too.
+    console.warn(`Scorecard comment ${record.commentId} could not be deleted:`, err);
+  }
+  await redis.del(scorecardKey(entry.id));
+  return true;
+};
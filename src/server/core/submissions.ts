@@ -0,0 +1,104 @@
+import { redis } from '@devvit/web/server';
+import type {
+  CommunityVotes,
+  HistoryEntry,
+  Submission,
+  SubmissionSort,
+} from '../../shared/types/api';
+import { cutStyleOf, getHistoryEntry } from './history';
+
+// entryId -> createdAt, AI score or community score for a post's gallery.
+// Entries from before the gallery existed are added by `backfillSubmissions`.
+const galleryKey = (postId: string, sort: SubmissionSort) => `submissions:${postId}:${sort}`;
+
+export const SUBMISSION_SORTS: readonly SubmissionSort[] = ['newest', 'ai', 'community'];
+
+type ListedEntry = HistoryEntry & { mediaUrl: string };
+
+/**
+ * Hidden entries and resubmitted photos stay out of the gallery, as do
+ * entries without a hosted photo to show.
+ */
+const isListed = (entry: HistoryEntry): entry is ListedEntry =>
+  !entry.hidden && !entry.duplicateOf && !!entry.mediaUrl;
+
+const setScore = async (key: string, entryId: string, score: number | null) => {
+  if (score == null) await redis.zRem(key, [entryId]);
+  else await redis.zAdd(key, { member: entryId, score });
+};
+
+/**
+ * Brings an entry's places in its post's gallery in line with the entry, or
+ * takes it out once it is hidden. The community order only changes when
+ * `communityScore` is given, as it comes from the votes rather than the entry.
+ */
+export const syncSubmission = async (
+  entry: HistoryEntry,
+  communityScore?: number | null
+): Promise<void> => {
+  if (!entry.postId) return;
+
+  if (!isListed(entry)) {
+    for (const sort of SUBMISSION_SORTS) {
+      await redis.zRem(galleryKey(entry.postId, sort), [entry.id]);
+    }
+    return;
+  }
+
+  await setScore(galleryKey(entry.postId, 'newest'), entry.id, entry.createdAt);
+  await setScore(galleryKey(entry.postId, 'ai'), entry.id, entry.overallScore);
+  if (communityScore !== undefined) {
+    await setScore(galleryKey(entry.postId, 'community'), entry.id, communityScore);
+  }
+};
+
+export type SubmissionsPage = {
+  entries: ListedEntry[];
+  total: number;
+  nextCursor: number | null;
+};
+
+/**
+ * A page of a post's gallery, best (or newest) first. Entries only reach the
+ * AI and community orders once they have that score.
+ */
+export const getSubmissions = async (options: {
+  postId: string;
+  sort: SubmissionSort;
+  limit: number;
+  cursor?: number;
+}): Promise<SubmissionsPage> => {
+  const { postId, sort, limit, cursor = 0 } = options;
+  const key = galleryKey(postId, sort);
+
+  const [members, total] = await Promise.all([
+    redis.zRange(key, cursor, cursor + limit - 1, { by: 'rank', reverse: true }),
+    redis.zCard(key),
+  ]);
+  const entries = await Promise.all(members.map(({ member }) => getHistoryEntry(member)));
+
+  return {
+    // Recheck in case a moderator hid one since the index was written.
+    entries: entries.filter((entry): entry is ListedEntry => entry !== null && isListed(entry)),
+    total,
+    nextCursor: cursor + limit < total ? cursor + limit : null,
+  };
+};
+
+export const toSubmission = (entry: ListedEntry, votes: CommunityVotes): Submission => ({
+  entryId: entry.id,
+  userId: entry.userId,
+  username: entry.username,
+  mediaUrl: entry.mediaUrl,
+  createdAt: entry.createdAt,
+  cutStyle: cutStyleOf(entry),
+  cutQualityLabel: entry.cutQualityLabel,
+  overallScore: entry.overallScore,
+  thicknessConsistencyScore: entry.thicknessConsistencyScore,
+  cutQualityScore: entry.cutQualityScore,
+  averageThicknessMm: entry.averageThicknessMm,
+  thicknessStdDevMm: entry.thicknessStdDevMm,
+  regions: entry.regions ?? [],
+  calibrated: entry.calibrated ?? false,
+  votes,
+});
@@ -0,0 +1,165 @@
+import { media, settings } from '@devvit/web/server';
+import type { NextFunction, Request, Response } from 'express';
+import multer from 'multer';
+import type { UploadRejection } from '../../shared/types/api';
+import { normalizeImage, UnreadableImage } from '../services/imageNormalization';
+
+export type UploadLimits = {
+  maxFiles: number;
+  maxFileBytes: number;
+  maxEdgePx: number;
+  jpegQuality: number;
+};
+
+const MB = 1024 * 1024;
+
+const DEFAULT_LIMITS: UploadLimits = {
+  maxFiles: 6,
+  maxFileBytes: 10 * MB,
+  maxEdgePx: 1600,
+  jpegQuality: 85,
+};
+
+/**
+ * Multer's own per-file cap. It fails the whole request, so it sits well above
+ * the configured limit, which is enforced per file in `prepareUploads`; this
+ * only bounds the memory a single request can take.
+ */
+const HARD_MAX_FILE_BYTES = 50 * MB;
+
+/** A file as parsed by multer's memory storage. */
+export type UploadedFile = {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+};
+
+/** An upload that passed validation, normalized to JPEG. */
+export type PreparedUpload = {
+  /** Position in the original upload. */
+  index: number;
+  filename: string;
+  buffer: Buffer;
+  mimeType: 'image/jpeg';
+  perceptualHash: string;
+};
+
+const positive = (value: number | undefined, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : fallback;
+
+export const getUploadLimits = async (): Promise<UploadLimits> => {
+  const [maxFiles, maxFileMb, maxEdgePx, jpegQuality] = await Promise.all([
+    settings.get<number>('UPLOAD_MAX_FILES'),
+    settings.get<number>('UPLOAD_MAX_FILE_SIZE_MB'),
+    settings.get<number>('IMAGE_MAX_EDGE_PX'),
+    settings.get<number>('IMAGE_JPEG_QUALITY'),
+  ]);
+
+  return {
+    maxFiles: Math.floor(positive(maxFiles, DEFAULT_LIMITS.maxFiles)),
+    maxFileBytes: Math.min(
+      HARD_MAX_FILE_BYTES,
+      positive(maxFileMb, DEFAULT_LIMITS.maxFileBytes / MB) * MB
+    ),
+    maxEdgePx: Math.floor(positive(maxEdgePx, DEFAULT_LIMITS.maxEdgePx)),
+    jpegQuality: Math.min(100, Math.floor(positive(jpegQuality, DEFAULT_LIMITS.jpegQuality))),
+  };
+};
+
+const formatMb = (bytes: number) => `${(bytes / MB).toFixed(1)} MB`;
+
+/**
+ * Parses the `images` field with the limits in `res.locals.uploadLimits`
+ * (resolved by an earlier middleware) and answers 400 when the request as a
+ * whole is over them.
+ */
+export const handleImageUpload = (req: Request, res: Response, next: NextFunction) => {
+  const limits: UploadLimits = res.locals.uploadLimits ?? DEFAULT_LIMITS;
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { files: limits.maxFiles, fileSize: HARD_MAX_FILE_BYTES },
+  }).array('images');
+
+  upload(req, res, (err: unknown) => {
+    if (!err) {
+      next();
+      return;
+    }
+
+    const { code, message } = err as { code?: string; message: string };
+    const detail =
+      code === 'LIMIT_FILE_COUNT'
+        ? `You can upload at most ${limits.maxFiles} images at once`
+        : code === 'LIMIT_FILE_SIZE'
+          ? `Each image must be under ${formatMb(limits.maxFileBytes)}`
+          : message;
+    res.status(400).json({ status: 'error', message: detail });
+  });
+};
+
+const checkFile = (file: UploadedFile, limits: UploadLimits): string | null => {
+  if (!file.size) return 'File is empty';
+  if (file.size > limits.maxFileBytes) {
+    return `File is too large (${formatMb(file.size)}; the limit is ${formatMb(limits.maxFileBytes)})`;
+  }
+  // Browsers often send HEIC as application/octet-stream; the content is
+  // checked when decoding either way.
+  if (!file.mimetype.startsWith('image/') && file.mimetype !== 'application/octet-stream') {
+    return `Unsupported file type ${file.mimetype}; upload a JPEG, PNG, WebP or HEIC image`;
+  }
+  return null;
+};
+
+/**
+ * Validates each uploaded file and normalizes the ones that pass. Problems
+ * are reported per file so one bad photo doesn't sink the rest of the upload.
+ */
+export const prepareUploads = async (
+  files: UploadedFile[],
+  limits: UploadLimits
+): Promise<{ accepted: PreparedUpload[]; rejected: UploadRejection[] }> => {
+  const accepted: PreparedUpload[] = [];
+  const rejected: UploadRejection[] = [];
+
+  for (const [index, file] of files.entries()) {
+    const problem = checkFile(file, limits);
+    if (problem) {
+      rejected.push({ index, filename: file.originalname, error: problem });
+      continue;
+    }
+
+    try {
+      const image = await normalizeImage(file.buffer, limits);
+      accepted.push({
+        index,
+        filename: file.originalname,
+        buffer: image.buffer,
+        mimeType: image.mimeType,
+        perceptualHash: image.perceptualHash,
+      });
+    } catch (err) {
+      if (!(err instanceof UnreadableImage)) throw err;
+      rejected.push({
+        index,
+        filename: file.originalname,
+        error: `Unsupported or corrupt image: ${err.message}`,
+      });
+    }
+  }
+
+  return { accepted, rejected };
+};
+
+/**
+ * Hosts a normalized upload on Reddit and returns its URL. Workers fetch the
+ * photo from there, and it is what the submission gallery shows once the
+ * analysis is done.
+ */
+export const hostUpload = async (image: PreparedUpload): Promise<string> => {
+  const { mediaUrl } = await media.upload({
+    url: `data:${image.mimeType};base64,${image.buffer.toString('base64')}`,
+    type: 'image',
+  });
+  return mediaUrl;
+};
@@ -0,0 +1,226 @@
+import { redis, settings } from '@devvit/web/server';
+import type { Response } from 'express';
+import type {
+  BudgetExceededResponse,
+  ModelCall,
+  UsageResponse,
+  UsageTotals,
+} from '../../shared/types/api';
+import type { ModelUsage } from '../services/visionProvider';
+
+// Keys shared with the worker (see worker/usage.js), which records the
+// calls of queued jobs. Totals hashes hold the fields of `UsageTotals`.
+const monthKey = (subreddit: string, month: string) => `usage:${subreddit}:month:${month}`;
+const dayKey = (subreddit: string, date: string) => `usage:${subreddit}:day:${date}`;
+const userMonthKey = (subreddit: string, userId: string, month: string) =>
+  `usage:${subreddit}:user:${userId}:month:${month}`;
+// userId -> tokens used this month, for ranking users.
+const usersKey = (subreddit: string, month: string) => `usage:${subreddit}:users:${month}`;
+// The newest calls as JSON `ModelCall`s, scored by time.
+const callsKey = (subreddit: string) => `usage:${subreddit}:calls`;
+const usernamesKey = 'usage:usernames';
+
+const CALLS_KEPT = 200;
+const REPORT_DAYS = 30;
+const REPORT_LIMIT = 20;
+const TOTAL_FIELDS = [
+  'calls',
+  'promptTokens',
+  'completionTokens',
+  'totalTokens',
+  'latencyMs',
+] as const satisfies readonly (keyof UsageTotals)[];
+
+export type UsagePrices = {
+  /** USD per million prompt tokens. */
+  inputPerMTok: number;
+  /** USD per million completion tokens. */
+  outputPerMTok: number;
+};
+
+export type UsageSettings = {
+  prices: UsagePrices;
+  /** Null when the subreddit has no monthly cap. */
+  monthlyBudgetUsd: number | null;
+};
+
+/** Who a model call was made for. */
+export type UsageSource = {
+  subreddit: string;
+  userId: string;
+  username: string;
+};
+
+const utcDate = (at: number) => new Date(at).toISOString().slice(0, 10);
+const utcMonth = (at: number) => new Date(at).toISOString().slice(0, 7);
+
+/** Start of the next UTC month, when a spent budget is available again. */
+const nextMonthStart = (at: number) => {
+  const date = new Date(at);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+};
+
+const priceOr = (value: number | undefined, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : fallback;
+
+/**
+ * Reads `USAGE_MONTHLY_BUDGET_USD` and the per-token prices. Prices default to
+ * grok-4-fast's list prices; a budget of 0 means no cap.
+ */
+export const getUsageSettings = async (): Promise<UsageSettings> => {
+  const [budget, input, output] = await Promise.all([
+    settings.get<number>('USAGE_MONTHLY_BUDGET_USD'),
+    settings.get<number>('USAGE_PRICE_INPUT_PER_MTOK'),
+    settings.get<number>('USAGE_PRICE_OUTPUT_PER_MTOK'),
+  ]);
+
+  return {
+    prices: { inputPerMTok: priceOr(input, 0.2), outputPerMTok: priceOr(output, 0.5) },
+    monthlyBudgetUsd: typeof budget === 'number' && budget > 0 ? budget : null,
+  };
+};
+
+const costOf = (
+  { promptTokens, completionTokens }: Pick<UsageTotals, 'promptTokens' | 'completionTokens'>,
+  prices: UsagePrices
+) =>
+  Number(
+    ((promptTokens * prices.inputPerMTok + completionTokens * prices.outputPerMTok) / 1e6).toFixed(
+      4
+    )
+  );
+
+const readTotals = async (key: string): Promise<UsageTotals> => {
+  const values = await redis.hMGet(key, [...TOTAL_FIELDS]);
+  const totals = {} as UsageTotals;
+  TOTAL_FIELDS.forEach((field, i) => {
+    totals[field] = Number(values[i] ?? 0);
+  });
+  return totals;
+};
+
+const addTotals = async (key: string, usage: ModelUsage) => {
+  await redis.hIncrBy(key, 'calls', 1);
+  await redis.hIncrBy(key, 'promptTokens', usage.promptTokens);
+  await redis.hIncrBy(key, 'completionTokens', usage.completionTokens);
+  await redis.hIncrBy(key, 'totalTokens', usage.totalTokens);
+  await redis.hIncrBy(key, 'latencyMs', usage.latencyMs);
+};
+
+/** Adds one model call to the subreddit's, the day's and the user's totals. */
+export const recordUsage = async (
+  usage: ModelUsage,
+  source: UsageSource,
+  at = Date.now()
+): Promise<void> => {
+  const { subreddit, userId, username } = source;
+  const month = utcMonth(at);
+
+  await addTotals(monthKey(subreddit, month), usage);
+  await addTotals(dayKey(subreddit, utcDate(at)), usage);
+  await addTotals(userMonthKey(subreddit, userId, month), usage);
+  await redis.zIncrBy(usersKey(subreddit, month), userId, usage.totalTokens);
+  await redis.hSet(usernamesKey, { [userId]: username });
+
+  const call: ModelCall = { at, userId, username, ...usage };
+  await redis.zAdd(callsKey(subreddit), { member: JSON.stringify(call), score: at });
+  await redis.zRemRangeByRank(callsKey(subreddit), 0, -(CALLS_KEPT + 1));
+};
+
+/**
+ * Refuses new analyses once this month's spend reaches the budget. Calls
+ * already running finish, so the cap can be overshot by what is in flight.
+ */
+export const checkBudget = async (
+  subreddit: string,
+  now = Date.now()
+): Promise<{ ok: true } | { ok: false; exceeded: BudgetExceededResponse }> => {
+  const { prices, monthlyBudgetUsd } = await getUsageSettings();
+  if (monthlyBudgetUsd == null) return { ok: true };
+
+  const spent = costOf(await readTotals(monthKey(subreddit, utcMonth(now))), prices);
+  if (spent < monthlyBudgetUsd) return { ok: true };
+
+  const resetAt = nextMonthStart(now);
+  return {
+    ok: false,
+    exceeded: {
+      status: 'error',
+      code: 'budget_exceeded',
+      message: `The chive judge is resting until ${new Date(resetAt).toISOString().slice(0, 10)}: this subreddit has used its analysis budget for the month. Your photo wasn't sent or counted.`,
+      resetAt,
+    },
+  };
+};
+
+/** Answers a request refused by the budget cap with 429 and a Retry-After. */
+export const sendBudgetExceeded = (res: Response, exceeded: BudgetExceededResponse) => {
+  const retryAfterSeconds = Math.max(1, Math.ceil((exceeded.resetAt - Date.now()) / 1000));
+  res.status(429).set('Retry-After', String(retryAfterSeconds)).json(exceeded);
+};
+
+/** This month's spend, the last `days` days and the heaviest users, for moderators. */
+export const getUsageReport = async (
+  subreddit: string,
+  days = REPORT_DAYS,
+  now = Date.now()
+): Promise<UsageResponse> => {
+  const { prices, monthlyBudgetUsd } = await getUsageSettings();
+  const month = utcMonth(now);
+  const withCost = <T extends UsageTotals>(totals: T) => ({
+    ...totals,
+    costUsd: costOf(totals, prices),
+  });
+
+  const monthTotals = withCost(await readTotals(monthKey(subreddit, month)));
+
+  const dates = Array.from({ length: days }, (_, i) => utcDate(now - (days - 1 - i) * 86400000));
+  const daily = await Promise.all(
+    dates.map(async (date) => withCost({ date, ...(await readTotals(dayKey(subreddit, date))) }))
+  );
+
+  const top = await redis.zRange(usersKey(subreddit, month), 0, REPORT_LIMIT - 1, {
+    by: 'rank',
+    reverse: true,
+  });
+  const names = top.length
+    ? await redis.hMGet(
+        usernamesKey,
+        top.map(({ member }) => member)
+      )
+    : [];
+  const users = await Promise.all(
+    top.map(async ({ member: userId }, i) =>
+      withCost({
+        userId,
+        username: names[i] ?? 'unknown',
+        ...(await readTotals(userMonthKey(subreddit, userId, month))),
+      })
+    )
+  );
+
+  const calls = await redis.zRange(callsKey(subreddit), 0, REPORT_LIMIT - 1, {
+    by: 'rank',
+    reverse: true,
+  });
+  const recentCalls = calls.map(({ member }) => {
+    const call = JSON.parse(member) as ModelCall;
+    return { ...call, costUsd: costOf(call, prices) };
+  });
+
+  return {
+    type: 'usage',
+    subreddit,
+    month,
+    prices,
+    monthlyBudgetUsd,
+    budgetRemainingUsd:
+      monthlyBudgetUsd == null
+        ? null
+        : Math.max(0, Number((monthlyBudgetUsd - monthTotals.costUsd).toFixed(4))),
+    totals: monthTotals,
+    daily,
+    users,
+    recentCalls,
+  };
+};
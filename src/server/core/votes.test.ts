@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { HistoryEntry } from '../../shared/types/api';
+import type { FakeRedis } from '../testing/fakeRedis';
+import { recordHistoryEntry } from './history';
+import { getSubmissions } from './submissions';
+import { backfillSubmissions, getPeoplesChoice } from './votes';
+
+const devvit = vi.hoisted(() => ({ redis: null as unknown as FakeRedis }));
+
+vi.mock('@devvit/web/server', async () => {
+  const { createFakeRedis } = await import('../testing/fakeRedis');
+  devvit.redis = createFakeRedis();
+  return {
+    redis: new Proxy({}, { get: (_target, command: keyof FakeRedis) => devvit.redis[command] }),
+  };
+});
+
+const entry = (id: string, userId: string, createdAt: number, extra: Partial<HistoryEntry> = {}) =>
+  ({
+    id,
+    userId,
+    username: userId,
+    postId: 't3_post',
+    subreddit: 'chiveit',
+    mediaUrl: `https://i.redd.it/${id}.jpeg`,
+    createdAt,
+    overallScore: 70,
+    ...extra,
+  }) as HistoryEntry;
+
+/** Entries as an older build recorded them: history only, no gallery. */
+const recordLegacy = async (entries: HistoryEntry[]) => {
+  for (const e of entries) await recordHistoryEntry(e);
+};
+
+describe('backfillSubmissions', () => {
+  beforeEach(async () => {
+    const { createFakeRedis } = await import('../testing/fakeRedis');
+    devvit.redis = createFakeRedis();
+  });
+
+  it('lists older entries in their post gallery and on the boards', async () => {
+    await recordLegacy([
+      entry('a', 't2_one', 1000),
+      entry('b', 't2_two', 2000),
+      entry('hidden', 't2_two', 3000, { hidden: true }),
+      entry('copy', 't2_one', 4000, { duplicateOf: 'b' }),
+    ]);
+    expect((await getSubmissions({ postId: 't3_post', sort: 'newest', limit: 10 })).total).toBe(0);
+
+    expect(await backfillSubmissions()).toBe(4);
+
+    const gallery = await getSubmissions({ postId: 't3_post', sort: 'newest', limit: 10 });
+    expect(gallery.entries.map(({ id }) => id)).toEqual(['b', 'a']);
+    const board = await getPeoplesChoice({ scope: 'subreddit', scopeId: 'chiveit', limit: 10 });
+    expect(board.total).toBe(2);
+  });
+
+  it('works through the users a page at a time, then stops', async () => {
+    await recordLegacy(
+      Array.from({ length: 30 }, (_, i) => entry(`e${i}`, `t2_user${i}`, 1000 + i))
+    );
+
+    expect(await backfillSubmissions()).toBe(25);
+    expect(await backfillSubmissions()).toBe(5);
+    expect(await backfillSubmissions()).toBe(0);
+
+    expect((await getSubmissions({ postId: 't3_post', sort: 'newest', limit: 50 })).total).toBe(30);
+  });
+});
@@ -0,0 +1,226 @@
+import { redis } from '@devvit/web/server';
+import type {
+  CommunityVotes,
+  HistoryEntry,
+  PeoplesChoiceEntry,
+  PeoplesChoiceScope,
+  VoteValue,
+} from '../../shared/types/api';
+import { communityScore, crowdVsAi } from '../domain/community';
+import { getAllHistory, getHistoryEntry, getHistoryUsers, indexHistoryUsers } from './history';
+import { getLeaderboardUserIds } from './leaderboard';
+import { syncSubmission } from './submissions';
+
+// userId -> '1' or '-1' for everyone who voted on the entry.
+const ballotsKey = (entryId: string) => `votes:${entryId}`;
+// entryId -> JSON `VoteTally`, recounted from the ballots on every vote.
+const talliesKey = 'votes:tallies';
+// entryId -> net votes.
+const boardKey = (scope: PeoplesChoiceScope, scopeId: string) =>
+  `peoples-choice:${scope}:${scopeId}`;
+
+// Backfill of entries recorded before the boards and galleries existed:
+// 'running' or 'done', and the users still to go through.
+const backfillStateKey = 'peoples-choice:backfill';
+const backfillPendingKey = 'peoples-choice:backfill:pending';
+
+const BACKFILL_PAGE_SIZE = 25;
+
+export const PEOPLES_CHOICE_SCOPES: readonly PeoplesChoiceScope[] = ['post', 'subreddit'];
+
+type VoteTally = { up: number; down: number };
+
+const NO_VOTES: VoteTally = { up: 0, down: 0 };
+
+const scopeIdFor = (scope: PeoplesChoiceScope, entry: HistoryEntry) =>
+  scope === 'post' ? entry.postId : entry.subreddit;
+
+/** Resubmitted photos and entries a moderator hid take no votes and hold no place. */
+const isVotable = (entry: HistoryEntry) => !entry.hidden && !entry.duplicateOf;
+
+const toVote = (ballot: string | null | undefined): VoteValue =>
+  ballot === '1' ? 1 : ballot === '-1' ? -1 : 0;
+
+const getTallies = async (entryIds: string[]): Promise<VoteTally[]> => {
+  const raw = entryIds.length ? await redis.hMGet(talliesKey, entryIds) : [];
+  return entryIds.map((_, i) => {
+    const value = raw[i];
+    return value ? (JSON.parse(value) as VoteTally) : NO_VOTES;
+  });
+};
+
+const getBallots = async (entryIds: string[], userId: string | undefined) =>
+  Promise.all(
+    entryIds.map(async (entryId) =>
+      userId ? toVote(await redis.hGet(ballotsKey(entryId), userId)) : 0
+    )
+  );
+
+const summarize = (
+  entry: HistoryEntry,
+  { up, down }: VoteTally,
+  myVote: VoteValue,
+  userId: string | undefined
+): CommunityVotes => {
+  const score = communityScore(up, down);
+  return {
+    entryId: entry.id,
+    up,
+    down,
+    net: up - down,
+    communityScore: score,
+    aiScore: entry.overallScore,
+    crowdVsAi: crowdVsAi(score, entry.overallScore),
+    myVote,
+    canVote: !!userId && userId !== entry.userId && isVotable(entry),
+  };
+};
+
+/** How the community voted on each of `entries`, as seen by `userId`. */
+export const getCommunityVotes = async (
+  entries: HistoryEntry[],
+  userId?: string
+): Promise<CommunityVotes[]> => {
+  const entryIds = entries.map(({ id }) => id);
+  const [tallies, ballots] = await Promise.all([
+    getTallies(entryIds),
+    getBallots(entryIds, userId),
+  ]);
+  return entries.map((entry, i) =>
+    summarize(entry, tallies[i] ?? NO_VOTES, ballots[i] ?? 0, userId)
+  );
+};
+
+/**
+ * Brings an entry's places on the people's-choice boards and its post's
+ * gallery in line with its tally, or takes it off them once it is hidden. New
+ * entries join with no votes so there is something to vote on.
+ */
+export const syncPeoplesChoice = async (entry: HistoryEntry, tally?: VoteTally): Promise<void> => {
+  const { up, down } = tally ?? (await getTallies([entry.id]))[0] ?? NO_VOTES;
+
+  for (const scope of PEOPLES_CHOICE_SCOPES) {
+    const scopeId = scopeIdFor(scope, entry);
+    if (!scopeId) continue;
+
+    if (isVotable(entry)) {
+      await redis.zAdd(boardKey(scope, scopeId), { member: entry.id, score: up - down });
+    } else {
+      await redis.zRem(boardKey(scope, scopeId), [entry.id]);
+    }
+  }
+
+  await syncSubmission(entry, communityScore(up, down));
+};
+
+/**
+ * Puts entries recorded before the people's-choice boards and post galleries
+ * existed onto them, one page of users per call; run from a scheduler task.
+ * The users are listed on the first call, as `getHistoryUsers` reorders
+ * while people keep submitting. Returns how many entries were synced, and 0
+ * once the backfill has finished.
+ */
+export const backfillSubmissions = async (): Promise<number> => {
+  const state = await redis.get(backfillStateKey);
+  if (state === 'done') return 0;
+
+  if (!state) {
+    // Users who only scored before the user index existed.
+    await indexHistoryUsers(await getLeaderboardUserIds());
+    for (let cursor: number | null = 0; cursor !== null; ) {
+      const page = await getHistoryUsers(500, cursor);
+      if (page.userIds.length) {
+        await redis.zAdd(
+          backfillPendingKey,
+          ...page.userIds.map((userId) => ({ member: userId, score: 0 }))
+        );
+      }
+      cursor = page.nextCursor;
+    }
+    await redis.set(backfillStateKey, 'running');
+  }
+
+  const userIds = (
+    await redis.zRange(backfillPendingKey, 0, BACKFILL_PAGE_SIZE - 1, { by: 'rank' })
+  ).map(({ member }) => member);
+  let synced = 0;
+  for (const userId of userIds) {
+    for (const entry of await getAllHistory(userId)) {
+      await syncPeoplesChoice(entry);
+      synced += 1;
+    }
+  }
+
+  if (userIds.length) await redis.zRem(backfillPendingKey, userIds);
+  if (userIds.length < BACKFILL_PAGE_SIZE) await redis.set(backfillStateKey, 'done');
+  return synced;
+};
+
+/**
+ * Records `userId`'s vote on `entry`, replacing any earlier one; 0 takes it
+ * back. Each user holds one ballot per entry, and the tally is recounted from
+ * all of them so concurrent votes can't make it drift. Callers check
+ * `canVote` first.
+ */
+export const castVote = async (
+  entry: HistoryEntry,
+  userId: string,
+  vote: VoteValue
+): Promise<CommunityVotes> => {
+  if (vote === 0) {
+    await redis.hDel(ballotsKey(entry.id), [userId]);
+  } else {
+    await redis.hSet(ballotsKey(entry.id), { [userId]: String(vote) });
+  }
+
+  const ballots = Object.values(await redis.hGetAll(ballotsKey(entry.id)));
+  const tally: VoteTally = {
+    up: ballots.filter((ballot) => ballot === '1').length,
+    down: ballots.filter((ballot) => ballot === '-1').length,
+  };
+  await redis.hSet(talliesKey, { [entry.id]: JSON.stringify(tally) });
+  await syncPeoplesChoice(entry, tally);
+
+  return summarize(entry, tally, vote, userId);
+};
+
+export type PeoplesChoicePage = {
+  entries: PeoplesChoiceEntry[];
+  total: number;
+  nextCursor: number | null;
+};
+
+/** Submissions on a people's-choice board, most net votes first. */
+export const getPeoplesChoice = async (options: {
+  scope: PeoplesChoiceScope;
+  scopeId: string;
+  limit: number;
+  cursor?: number;
+  userId?: string | undefined;
+}): Promise<PeoplesChoicePage> => {
+  const { scope, scopeId, limit, cursor = 0, userId } = options;
+  const key = boardKey(scope, scopeId);
+
+  const [members, total] = await Promise.all([
+    redis.zRange(key, cursor, cursor + limit - 1, { by: 'rank', reverse: true }),
+    redis.zCard(key),
+  ]);
+  const entries = (await Promise.all(members.map(({ member }) => getHistoryEntry(member)))).filter(
+    (entry): entry is HistoryEntry => entry !== null
+  );
+  const votes = await getCommunityVotes(entries, userId);
+
+  return {
+    entries: entries.map((entry, i) => ({
+      rank: cursor + i + 1,
+      entryId: entry.id,
+      userId: entry.userId,
+      username: entry.username,
+      mediaUrl: entry.mediaUrl,
+      createdAt: entry.createdAt,
+      votes: votes[i] ?? summarize(entry, NO_VOTES, 0, userId),
+    })),
+    total,
+    nextCursor: cursor + limit < total ? cursor + limit : null,
+  };
+};
@@ -0,0 +1,34 @@
+import { redis } from '@devvit/web/server';
+import type { HealthResponse, WorkerHeartbeat } from '../../shared/types/api';
+
+// Keys shared with the worker (see worker/heartbeat.js).
+const HEARTBEATS_KEY = 'worker:heartbeats';
+const heartbeatKey = (workerId: string) => `worker:heartbeat:${workerId}`;
+
+/**
+ * How recent a heartbeat must be for its worker to count as alive. Workers
+ * beat every few seconds, so this allows for a slow maintenance pass or two.
+ */
+const ALIVE_WITHIN_MS = 30000;
+
+/** Workers that have reported within `ALIVE_WITHIN_MS`, newest first. */
+export const getLiveWorkers = async (now = Date.now()): Promise<WorkerHeartbeat[]> => {
+  const beats = await redis.zRange(HEARTBEATS_KEY, now - ALIVE_WITHIN_MS, '+inf', {
+    by: 'score',
+  });
+  const workers = await Promise.all(
+    beats.map(async ({ member }) => {
+      const raw = await redis.get(heartbeatKey(member));
+      return raw ? (JSON.parse(raw) as WorkerHeartbeat) : null;
+    })
+  );
+  return workers.filter((w): w is WorkerHeartbeat => w != null).sort((a, b) => b.at - a.at);
+};
+
+export const isWorkerAlive = async (now = Date.now()): Promise<boolean> =>
+  (await getLiveWorkers(now)).length > 0;
+
+export const getHealth = async (now = Date.now()): Promise<HealthResponse> => {
+  const workers = await getLiveWorkers(now);
+  return { type: 'health', workerAlive: workers.length > 0, workers, checkedAt: now };
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { applyCalibration, isCalibrated, isReferenceObject } from './calibration';
+import type { BaseChiveMetrics } from './scoring';
+
+const base: BaseChiveMetrics = {
+  averageThicknessMm: 3,
+  thicknessStdDevMm: 0.8,
+  cutQualityLabel: 'clean',
+  regions: [{ id: 'r1c1', regionAverageThicknessMm: 2, regionThicknessStdDevMm: 0.4 }],
+};
+
+describe('applyCalibration', () => {
+  it('leaves metrics without a reference object alone', () => {
+    expect(applyCalibration(base, 'none')).toBe(base);
+  });
+
+  it('derives millimetres from the reference and rescales the regions', () => {
+    // A quarter 242.6 px across puts the photo at 10 px/mm.
+    const calibrated = applyCalibration(
+      {
+        ...base,
+        referenceMeasurement: {
+          detected: true,
+          sizePx: 242.6,
+          averageThicknessPx: 15,
+          thicknessStdDevPx: 3,
+        },
+      },
+      'us_quarter'
+    );
+
+    expect(calibrated.averageThicknessMm).toBe(1.5);
+    expect(calibrated.thicknessStdDevMm).toBe(0.3);
+    expect(calibrated.regions).toEqual([
+      { id: 'r1c1', regionAverageThicknessMm: 1, regionThicknessStdDevMm: 0.2 },
+    ]);
+    expect(calibrated.calibration).toEqual({ reference: 'us_quarter', pxPerMm: 10 });
+    expect(isCalibrated(calibrated)).toBe(true);
+  });
+
+  it('keeps the estimates when the reference was not found', () => {
+    const calibrated = applyCalibration(
+      {
+        ...base,
+        referenceMeasurement: {
+          detected: false,
+          sizePx: 0,
+          averageThicknessPx: 0,
+          thicknessStdDevPx: 0,
+        },
+      },
+      'ruler'
+    );
+
+    expect(calibrated.averageThicknessMm).toBe(3);
+    expect(calibrated.calibration).toEqual({ reference: 'ruler', pxPerMm: null });
+    expect(isCalibrated(calibrated)).toBe(false);
+  });
+});
+
+describe('isReferenceObject', () => {
+  it('recognizes reference ids and nothing else', () => {
+    expect(isReferenceObject('grid_1cm')).toBe(true);
+    expect(isReferenceObject('banana')).toBe(false);
+  });
+});
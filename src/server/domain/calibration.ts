@@ -0,0 +1,119 @@
+/**
+ * Scale calibration from a reference object of known size in the photo.
+ * Without one, every millimetre figure is the model's guess from what chives
+ * usually look like; with one, the model measures the reference and the chive
+ * widths in pixels and the millimetres are derived from the ratio.
+ */
+
+import type { BaseChiveMetrics, RegionMetrics } from './scoring';
+
+export type ReferenceObject = 'none' | 'us_quarter' | 'euro_coin' | 'ruler' | 'grid_1cm' | 'grid_1in';
+
+export type ReferenceSpec = {
+  label: string;
+  /** Real length of `measure`; null for `none`. */
+  sizeMm: number | null;
+  /** The length the model measures in pixels, as described to it. */
+  measure: string;
+};
+
+export const REFERENCE_OBJECTS: Record<ReferenceObject, ReferenceSpec> = {
+  none: { label: 'No reference', sizeMm: null, measure: '' },
+  us_quarter: {
+    label: 'US quarter',
+    sizeMm: 24.26,
+    measure: 'the diameter of the US quarter coin',
+  },
+  euro_coin: {
+    label: '1 euro coin',
+    sizeMm: 23.25,
+    measure: 'the diameter of the 1 euro coin',
+  },
+  ruler: {
+    label: 'Ruler',
+    sizeMm: 10,
+    measure: 'the distance between two adjacent centimetre marks on the ruler',
+  },
+  grid_1cm: {
+    label: '1 cm grid',
+    sizeMm: 10,
+    measure: 'the spacing between adjacent lines of the 1 cm grid on the cutting board',
+  },
+  grid_1in: {
+    label: '1 inch grid',
+    sizeMm: 25.4,
+    measure: 'the spacing between adjacent lines of the 1 inch grid on the cutting board',
+  },
+};
+
+export const REFERENCE_IDS = Object.keys(REFERENCE_OBJECTS) as ReferenceObject[];
+
+export const DEFAULT_REFERENCE: ReferenceObject = 'none';
+
+export const isReferenceObject = (value: unknown): value is ReferenceObject =>
+  typeof value === 'string' && REFERENCE_IDS.includes(value as ReferenceObject);
+
+/** What the model reports about the reference, in pixels of the analyzed image. */
+export type ReferenceMeasurement = {
+  detected: boolean;
+  sizePx: number;
+  averageThicknessPx: number;
+  thicknessStdDevPx: number;
+};
+
+export type Calibration = {
+  reference: ReferenceObject;
+  /** Null when the reference wasn't found and the millimetres are estimates. */
+  pxPerMm: number | null;
+};
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+const scaleRegion = (region: RegionMetrics, factor: number): RegionMetrics => ({
+  ...region,
+  ...(typeof region.regionAverageThicknessMm === 'number'
+    ? { regionAverageThicknessMm: round(region.regionAverageThicknessMm * factor, 2) }
+    : {}),
+  ...(typeof region.regionThicknessStdDevMm === 'number'
+    ? { regionThicknessStdDevMm: round(region.regionThicknessStdDevMm * factor, 2) }
+    : {}),
+});
+
+/**
+ * Replaces the estimated thickness figures with ones measured against the
+ * reference. The model only measures the image-wide widths in pixels, so the
+ * per-region estimates are rescaled by the same factor the calibration moved
+ * the overall average. Metrics without a reference pass through unchanged.
+ */
+export function applyCalibration(
+  base: BaseChiveMetrics,
+  reference: ReferenceObject
+): BaseChiveMetrics {
+  const { sizeMm } = REFERENCE_OBJECTS[reference];
+  if (sizeMm == null) return base;
+
+  const measured = base.referenceMeasurement;
+  if (!measured?.detected || measured.sizePx <= 0 || measured.averageThicknessPx <= 0) {
+    return { ...base, calibration: { reference, pxPerMm: null } };
+  }
+
+  const pxPerMm = measured.sizePx / sizeMm;
+  const averageThicknessMm = round(measured.averageThicknessPx / pxPerMm, 2);
+  const factor =
+    typeof base.averageThicknessMm === 'number' && base.averageThicknessMm > 0
+      ? averageThicknessMm / base.averageThicknessMm
+      : null;
+
+  return {
+    ...base,
+    averageThicknessMm,
+    thicknessStdDevMm: round(measured.thicknessStdDevPx / pxPerMm, 2),
+    ...(factor != null && base.regions
+      ? { regions: base.regions.map((region) => scaleRegion(region, factor)) }
+      : {}),
+    calibration: { reference, pxPerMm: round(pxPerMm, 2) },
+  };
+}
+
+export const isCalibrated = (metrics: { calibration?: Calibration | null }) =>
+  metrics.calibration?.pxPerMm != null;
@@ -0,0 +1,33 @@
+/**
+ * The community's verdict on a submission from up and down votes, and how it
+ * compares with the AI's score. Both are on the same 0-100 scale.
+ */
+
+/** Votes needed before a community score is shown; one vote would read 0 or 100. */
+export const MIN_VOTES_FOR_SCORE = 3;
+
+/** How far apart the two scores may be while the crowd still agrees with the AI. */
+const AGREEMENT_MARGIN = 10;
+
+export type CrowdComparison = {
+  /** Community score minus AI score. */
+  difference: number;
+  verdict: 'agrees' | 'kinder' | 'harsher';
+};
+
+/** Share of upvotes as 0-100, or null until enough people have voted. */
+export const communityScore = (up: number, down: number): number | null => {
+  const total = up + down;
+  return total < MIN_VOTES_FOR_SCORE ? null : Math.round((up / total) * 100);
+};
+
+export const crowdVsAi = (community: number | null, ai: number | null): CrowdComparison | null => {
+  if (community == null || ai == null) return null;
+
+  const difference = Math.round(community - ai);
+  return {
+    difference,
+    verdict:
+      Math.abs(difference) <= AGREEMENT_MARGIN ? 'agrees' : difference > 0 ? 'kinder' : 'harsher',
+  };
+};
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { LOW_CONFIDENCE, scoreSamples } from './consensus';
+import {
+  DEFAULT_RUBRIC,
+  scoreChiveAnalysis,
+  type BaseChiveMetrics,
+  type RegionMetrics,
+} from './scoring';
+
+const regions = (label: RegionMetrics['regionCutQualityLabel']): RegionMetrics[] =>
+  ['r1c1', 'r1c2'].map((id) => ({
+    id,
+    regionAverageThicknessMm: 1.5,
+    regionThicknessStdDevMm: 0.2,
+    regionCutQualityLabel: label,
+  }));
+
+const sample = (
+  averageThicknessMm: number,
+  cutQualityLabel = 'clean',
+  thicknessStdDevMm = 0.3
+): BaseChiveMetrics => ({
+  averageThicknessMm,
+  thicknessStdDevMm,
+  cutQualityLabel,
+  rawNotes: `Sample at ${averageThicknessMm} mm.`,
+  regions: regions(cutQualityLabel === 'ragged' ? 'ragged' : 'clean'),
+});
+
+describe('scoreSamples', () => {
+  it('scores a single sample as is', () => {
+    const only = sample(1.5);
+    const { base, scored, consensus } = scoreSamples([only], DEFAULT_RUBRIC, 'fine');
+
+    expect(base).toBe(only);
+    expect(scored).toEqual(scoreChiveAnalysis(only));
+    expect(consensus).toBeNull();
+  });
+
+  it('refuses to score no samples', () => {
+    expect(() => scoreSamples([], DEFAULT_RUBRIC, 'fine')).toThrow('No analysis samples to score');
+  });
+
+  it('keeps one odd sample from moving the result', () => {
+    const { base, consensus } = scoreSamples(
+      [sample(1.4), sample(1.5), sample(4.5, 'ragged', 1.4)],
+      DEFAULT_RUBRIC,
+      'fine'
+    );
+
+    expect(base.averageThicknessMm).toBe(1.5);
+    expect(base.thicknessStdDevMm).toBe(0.3);
+    expect(base.cutQualityLabel).toBe('clean');
+    expect(base.rawNotes).toBe('Sample at 1.5 mm.');
+    expect(base.regions?.map((r) => r.regionCutQualityLabel)).toEqual(['clean', 'clean']);
+    expect(consensus).toMatchObject({ samples: 3, labelAgreement: 0.67, regionAgreement: 0.67 });
+  });
+
+  it('is confident when the samples agree', () => {
+    const { scored, consensus } = scoreSamples(
+      [sample(1.5), sample(1.5), sample(1.5)],
+      DEFAULT_RUBRIC,
+      'fine'
+    );
+
+    expect(consensus?.confidence).toBe(1);
+    expect(consensus?.lowConfidence).toBe(false);
+    expect(consensus?.scoreRange).toEqual({ min: 93, max: 93 });
+    expect(scored.notes).toMatch(/Consensus of 3 analyses: scores ranged 93-93\.\)$/);
+  });
+
+  it('flags samples that disagree', () => {
+    const { scored, consensus } = scoreSamples(
+      [sample(1, 'clean', 0.1), sample(3, 'ragged', 1.5)],
+      DEFAULT_RUBRIC,
+      'fine'
+    );
+
+    expect(consensus?.confidence).toBeLessThan(LOW_CONFIDENCE);
+    expect(consensus?.lowConfidence).toBe(true);
+    expect(scored.notes).toMatch(/Low confidence; the analyses disagreed\.\)$/);
+  });
+
+  it('only calls the merge calibrated when every sample found the reference', () => {
+    const calibrated = (pxPerMm: number | null): BaseChiveMetrics => ({
+      ...sample(1.5),
+      calibration: { reference: 'ruler', pxPerMm },
+    });
+
+    expect(
+      scoreSamples([calibrated(10), calibrated(12)], DEFAULT_RUBRIC, 'fine').base.calibration
+    ).toEqual({ reference: 'ruler', pxPerMm: 11 });
+    expect(
+      scoreSamples([calibrated(10), calibrated(null)], DEFAULT_RUBRIC, 'fine').base.calibration
+    ).toEqual({ reference: 'ruler', pxPerMm: null });
+  });
+});
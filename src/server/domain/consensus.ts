@@ -0,0 +1,211 @@
+/**
+ * Combines several analyses of the same photo into one. The model is sampled
+ * at a non-zero temperature, so repeated calls disagree a little; the median
+ * and majority here keep one odd sample from moving the score.
+ */
+
+import type { CutStyle } from './cutStyles';
+import {
+  scoreChiveAnalysis,
+  type BaseChiveMetrics,
+  type RegionMetrics,
+  type ScoredChiveMetrics,
+  type ScoringRubric,
+} from './scoring';
+
+export type ConsensusSummary = {
+  /** Samples that returned usable metrics. */
+  samples: number;
+  /** 0-1; how closely the samples agree. */
+  confidence: number;
+  /** Below `LOW_CONFIDENCE`; the score may move noticeably on a re-run. */
+  lowConfidence: boolean;
+  /** Lowest and highest overall score among the samples; null when none scored. */
+  scoreRange: { min: number; max: number } | null;
+  /** Share of samples that gave the majority cut-quality label. */
+  labelAgreement: number;
+  /** Mean share of samples agreeing on each region's label; null without regions. */
+  regionAgreement: number | null;
+};
+
+export const LOW_CONFIDENCE = 0.6;
+
+// Spreads at which the thickness and score components of confidence reach 0.
+const THICKNESS_SPREAD_LIMIT = 0.5;
+const SCORE_SPREAD_LIMIT = 30;
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+const numbers = (values: (number | null | undefined)[]) =>
+  values.filter((v): v is number => typeof v === 'number' && Number.isFinite(v));
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  const upper = sorted[mid] ?? 0;
+  return sorted.length % 2 ? upper : ((sorted[mid - 1] ?? upper) + upper) / 2;
+};
+
+/** Most common value and its share; ties go to the value seen first. */
+const majority = <T>(values: T[]): { value: T; share: number } | null => {
+  const counts = new Map<T, number>();
+  for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+
+  let best: { value: T; count: number } | null = null;
+  for (const [value, count] of counts) {
+    if (!best || count > best.count) best = { value, count };
+  }
+  return best ? { value: best.value, share: best.count / values.length } : null;
+};
+
+/** Half the relative range, so 0.5 means the samples span ±50% of the median. */
+const relativeSpread = (values: number[]) => {
+  const mid = median(values);
+  if (mid == null || mid <= 0 || values.length < 2) return 0;
+  return (Math.max(...values) - Math.min(...values)) / mid / 2;
+};
+
+const mergeRegions = (
+  samples: BaseChiveMetrics[]
+): { regions: RegionMetrics[]; agreement: number | null } => {
+  const ids: string[] = [];
+  for (const sample of samples) {
+    for (const region of sample.regions ?? []) {
+      if (!ids.includes(region.id)) ids.push(region.id);
+    }
+  }
+
+  const agreements: number[] = [];
+  const regions = ids.map((id) => {
+    const matches = samples
+      .map((s) => s.regions?.find((r) => r.id === id))
+      .filter((r): r is RegionMetrics => r != null);
+    const label = majority(matches.map((r) => r.regionCutQualityLabel ?? 'no_chives'));
+    // Regions every sample saw as empty say nothing about agreement.
+    const seen = matches.some(
+      (r) => r.regionCutQualityLabel && r.regionCutQualityLabel !== 'no_chives'
+    );
+    if (label && seen) {
+      agreements.push(label.share);
+    }
+
+    const average = median(numbers(matches.map((r) => r.regionAverageThicknessMm)));
+    const stdDev = median(numbers(matches.map((r) => r.regionThicknessStdDevMm)));
+    const region: RegionMetrics = { id };
+    if (average != null) region.regionAverageThicknessMm = round(average, 2);
+    if (stdDev != null) region.regionThicknessStdDevMm = round(stdDev, 2);
+    if (label) region.regionCutQualityLabel = label.value;
+    return region;
+  });
+
+  return {
+    regions,
+    agreement: agreements.length
+      ? round(agreements.reduce((a, b) => a + b, 0) / agreements.length, 2)
+      : null,
+  };
+};
+
+/**
+ * Scores the samples of one photo. With a single sample this is just
+ * `scoreChiveAnalysis`; with more, the merged metrics are scored and each
+ * sample is scored on its own for the range and confidence.
+ */
+export function scoreSamples(
+  samples: BaseChiveMetrics[],
+  rubric: ScoringRubric,
+  style: CutStyle,
+  targetThicknessMm: number | null = null
+): { base: BaseChiveMetrics; scored: ScoredChiveMetrics; consensus: ConsensusSummary | null } {
+  const [first] = samples;
+  if (!first) throw new Error('No analysis samples to score');
+  if (samples.length === 1) {
+    return {
+      base: first,
+      scored: scoreChiveAnalysis(first, rubric, style, targetThicknessMm),
+      consensus: null,
+    };
+  }
+
+  const thicknesses = numbers(samples.map((s) => s.averageThicknessMm));
+  const averageThicknessMm = median(thicknesses);
+  const thicknessStdDevMm = median(numbers(samples.map((s) => s.thicknessStdDevMm)));
+  const label = majority(samples.map((s) => s.cutQualityLabel));
+  const pieceLength = median(numbers(samples.map((s) => s.averagePieceLengthMm)));
+  const cutAngle = median(numbers(samples.map((s) => s.averageCutAngleDeg)));
+  const { regions, agreement: regionAgreement } = mergeRegions(samples);
+  // Only calibrated if every sample found the reference; otherwise the
+  // median mixes measured and estimated millimetres.
+  const scales = numbers(samples.map((s) => s.calibration?.pxPerMm));
+  const pxPerMm = scales.length === samples.length ? median(scales) : null;
+
+  // The notes of the sample nearest the median read most like the result.
+  const representative =
+    averageThicknessMm == null
+      ? first
+      : samples.reduce((best, s) =>
+          Math.abs((s.averageThicknessMm ?? Infinity) - averageThicknessMm) <
+          Math.abs((best.averageThicknessMm ?? Infinity) - averageThicknessMm)
+            ? s
+            : best
+        );
+
+  const base: BaseChiveMetrics = {
+    averageThicknessMm: averageThicknessMm == null ? null : round(averageThicknessMm, 2),
+    thicknessStdDevMm: thicknessStdDevMm == null ? null : round(thicknessStdDevMm, 2),
+    cutQualityLabel: label?.value ?? 'unknown',
+    regions,
+    ...(representative.rawNotes ? { rawNotes: representative.rawNotes } : {}),
+    ...(pieceLength != null ? { averagePieceLengthMm: round(pieceLength, 1) } : {}),
+    ...(cutAngle != null ? { averageCutAngleDeg: round(cutAngle, 1) } : {}),
+    ...(first.calibration
+      ? {
+          calibration: {
+            reference: first.calibration.reference,
+            pxPerMm: pxPerMm == null ? null : round(pxPerMm, 2),
+          },
+        }
+      : {}),
+  };
+
+  const scores = numbers(
+    samples.map((s) => scoreChiveAnalysis(s, rubric, style, targetThicknessMm).overallScore)
+  );
+  const scoreRange = scores.length ? { min: Math.min(...scores), max: Math.max(...scores) } : null;
+
+  const labelAgreement = round(label?.share ?? 0, 2);
+  const components = [
+    Math.max(0, 1 - relativeSpread(thicknesses) / THICKNESS_SPREAD_LIMIT),
+    labelAgreement,
+    ...(regionAgreement != null ? [regionAgreement] : []),
+    ...(scoreRange
+      ? [Math.max(0, 1 - (scoreRange.max - scoreRange.min) / SCORE_SPREAD_LIMIT)]
+      : []),
+  ];
+  const confidence = round(components.reduce((a, b) => a + b, 0) / components.length, 2);
+
+  const scored = scoreChiveAnalysis(base, rubric, style, targetThicknessMm);
+  const consensus: ConsensusSummary = {
+    samples: samples.length,
+    confidence,
+    lowConfidence: confidence < LOW_CONFIDENCE,
+    scoreRange,
+    labelAgreement,
+    regionAgreement,
+  };
+  const rangeNote = scoreRange
+    ? `Consensus of ${samples.length} analyses: scores ranged ${scoreRange.min}-${scoreRange.max}.`
+    : `Consensus of ${samples.length} analyses.`;
+
+  return {
+    base,
+    scored: {
+      ...scored,
+      notes: consensus.lowConfidence
+        ? `${scored.notes} (${rangeNote} Low confidence; the analyses disagreed.)`
+        : `${scored.notes} (${rangeNote})`,
+    },
+    consensus,
+  };
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CUT_STYLE_IDS,
+  CUT_STYLES,
+  DEFAULT_CUT_STYLE,
+  extraMetricFor,
+  isCutStyle,
+} from './cutStyles';
+
+describe('cut styles', () => {
+  it('lists every style, starting with the default', () => {
+    expect(CUT_STYLE_IDS).toEqual(['fine', 'bias', 'baton']);
+    expect(DEFAULT_CUT_STYLE).toBe('fine');
+  });
+
+  it('gives every style a target', () => {
+    expect(CUT_STYLES.fine.target).toMatchObject({ metric: 'averageThicknessMm', value: 1.5 });
+    expect(CUT_STYLES.bias.target?.metric).toBe('averageCutAngleDeg');
+    expect(CUT_STYLES.baton.target?.metric).toBe('averagePieceLengthMm');
+  });
+
+  it('asks the model for an extra measurement only beyond thickness', () => {
+    expect(extraMetricFor('fine')).toBeNull();
+    expect(extraMetricFor('bias')).toBe('averageCutAngleDeg');
+    expect(extraMetricFor('baton')).toBe('averagePieceLengthMm');
+  });
+
+  it('recognizes style ids and nothing else', () => {
+    expect(isCutStyle('baton')).toBe(true);
+    expect(isCutStyle('julienne')).toBe(false);
+    expect(isCutStyle(undefined)).toBe(false);
+  });
+});
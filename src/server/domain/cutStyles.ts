@@ -0,0 +1,71 @@
+/**
+ * Cut styles a submission can be judged against. Each scores how close the
+ * pieces come to a target: a thickness for fine snips, which every analysis
+ * measures, or a length or angle that the model is asked to measure as well.
+ */
+
+export type CutStyle = 'fine' | 'bias' | 'baton';
+
+/** The measurement a style's target is judged on. */
+export type TargetMetric = 'averageThicknessMm' | 'averagePieceLengthMm' | 'averageCutAngleDeg';
+
+export type CutStyleTarget = {
+  metric: TargetMetric;
+  value: number;
+  /** Distance from `value` at which the target score reaches 0. */
+  tolerance: number;
+  unit: 'mm' | '°';
+  /** Share of the overall score given to hitting the target (0-1). */
+  weight: number;
+};
+
+export type CutStyleSpec = {
+  label: string;
+  target: CutStyleTarget | null;
+};
+
+export const CUT_STYLES: Record<CutStyle, CutStyleSpec> = {
+  fine: {
+    label: 'Fine snip (1-2 mm)',
+    target: { metric: 'averageThicknessMm', value: 1.5, tolerance: 0.5, unit: 'mm', weight: 0.4 },
+  },
+  bias: {
+    label: 'Bias cut (~45°)',
+    target: { metric: 'averageCutAngleDeg', value: 45, tolerance: 30, unit: '°', weight: 0.4 },
+  },
+  baton: {
+    label: 'Batons (2-3 cm)',
+    target: { metric: 'averagePieceLengthMm', value: 25, tolerance: 15, unit: 'mm', weight: 0.4 },
+  },
+};
+
+export const CUT_STYLE_IDS = Object.keys(CUT_STYLES) as CutStyle[];
+
+/** Entries and jobs from before styles existed are fine snips. */
+export const DEFAULT_CUT_STYLE: CutStyle = 'fine';
+
+export const isCutStyle = (value: unknown): value is CutStyle =>
+  typeof value === 'string' && CUT_STYLE_IDS.includes(value as CutStyle);
+
+/**
+ * `style`'s target, judged against `thicknessMm` instead when a daily
+ * challenge sets one; only thickness targets (fine snips) change.
+ */
+export const targetFor = (
+  style: CutStyle,
+  thicknessMm: number | null = null
+): CutStyleTarget | null => {
+  const target = CUT_STYLES[style].target;
+  return target && thicknessMm != null && target.metric === 'averageThicknessMm'
+    ? { ...target, value: thicknessMm }
+    : target;
+};
+
+/**
+ * The measurement `style` needs from the model on top of the ones every
+ * analysis has, or null when its target is judged on those.
+ */
+export const extraMetricFor = (style: CutStyle): TargetMetric | null => {
+  const target = CUT_STYLES[style].target;
+  return target && target.metric !== 'averageThicknessMm' ? target.metric : null;
+};
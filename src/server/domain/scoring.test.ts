@@ -0,0 +1,193 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_RUBRIC,
+  rubricVersion,
+  scoreChiveAnalysis,
+  type BaseChiveMetrics,
+  type RegionMetrics,
+} from './scoring';
+
+const region = (
+  id: string,
+  averageMm: number,
+  label: RegionMetrics['regionCutQualityLabel'] = 'clean',
+  stdDevMm = 0.2
+): RegionMetrics => ({
+  id,
+  regionAverageThicknessMm: averageMm,
+  regionThicknessStdDevMm: stdDevMm,
+  regionCutQualityLabel: label,
+});
+
+const metrics = (overrides: Partial<BaseChiveMetrics> = {}): BaseChiveMetrics => ({
+  averageThicknessMm: 1.5,
+  thicknessStdDevMm: 0.3,
+  cutQualityLabel: 'clean',
+  rawNotes: 'Even snips.',
+  regions: [region('r1c1', 1.5), region('r1c2', 1.5), region('r1c3', 0, 'no_chives', 0)],
+  ...overrides,
+});
+
+describe('scoreChiveAnalysis', () => {
+  it('weighs consistency and cut quality by the rubric', () => {
+    const scored = scoreChiveAnalysis(metrics());
+
+    // 0.3 mm spread -> 0.8 consistency; clean -> 1.0; 0.6/0.4 weights give
+    // 88, blended 60/40 with hitting the 1.5 mm fine-snip target.
+    expect(scored.thicknessConsistencyScore).toBe(0.8);
+    expect(scored.cutQualityScore).toBe(1);
+    expect(scored.overallScore).toBe(93);
+    expect(scored.notes).toBe('Even snips. (Fine snip (1-2 mm): measured 1.5mm, target 1.5mm.)');
+    expect(scored.rubricVersion).toBe(rubricVersion(DEFAULT_RUBRIC));
+  });
+
+  it('bottoms consistency out at the rubric maximum spread', () => {
+    const scored = scoreChiveAnalysis(metrics({ thicknessStdDevMm: 2, cutQualityLabel: 'ragged' }));
+
+    expect(scored.thicknessConsistencyScore).toBe(0);
+    // 14 for technique, on target.
+    expect(scored.overallScore).toBe(48);
+  });
+
+  it('scores each region with chives on its own', () => {
+    const { regionScores } = scoreChiveAnalysis(metrics());
+
+    // 0.2 mm spread -> 0.87 consistency.
+    expect(regionScores.map((r) => r.score)).toEqual([92, 92, null]);
+  });
+
+  describe('anti-cheat', () => {
+    it('refuses photos without chives', () => {
+      const scored = scoreChiveAnalysis(
+        metrics({ rawNotes: '', regions: [region('r1c1', 0, 'no_chives')] })
+      );
+
+      expect(scored.overallScore).toBeNull();
+      expect(scored.notes).toBe('No regions with chives detected; score not computed.');
+    });
+
+    it('refuses a single region of chives', () => {
+      const scored = scoreChiveAnalysis(metrics({ regions: [region('r1c1', 1.5)] }));
+
+      expect(scored.overallScore).toBeNull();
+      expect(scored.notes).toMatch(/Insufficient chive coverage/);
+    });
+
+    it('refuses implausible thicknesses', () => {
+      expect(scoreChiveAnalysis(metrics({ averageThicknessMm: 8 })).overallScore).toBeNull();
+      expect(scoreChiveAnalysis(metrics({ averageThicknessMm: 0 })).overallScore).toBeNull();
+    });
+  });
+
+  describe('regional mode', () => {
+    const rubric = { ...DEFAULT_RUBRIC, mode: 'regional' as const };
+    const uneven = metrics({
+      // The model claims an even cut its regions contradict.
+      thicknessStdDevMm: 0.1,
+      regions: [region('r1c1', 1), region('r1c2', 2, 'ragged')],
+    });
+
+    it('takes thickness and spread from the regions', () => {
+      const scored = scoreChiveAnalysis(uneven, rubric);
+
+      expect(scored.regional).toMatchObject({
+        averageThicknessMm: 1.5,
+        interRegionStdDevMm: 0.5,
+        pooledStdDevMm: 0.54,
+        raggedShare: 0.5,
+        coverage: 1,
+        disagreement: false,
+      });
+      // 0.54 mm -> 0.64 consistency; regions average (1.0 + 0.35) / 2.
+      expect(scored.thicknessConsistencyScore).toBe(0.64);
+      expect(scored.cutQualityScore).toBe(0.68);
+      // 66 for technique, on the 1.5 mm target.
+      expect(scored.overallScore).toBe(80);
+    });
+
+    it('flags a global estimate far from the regions', () => {
+      const scored = scoreChiveAnalysis({ ...uneven, averageThicknessMm: 3 }, rubric);
+
+      expect(scored.regional?.disagreement).toBe(true);
+      expect(scored.notes).toMatch(/disagrees with its per-region measurements/);
+    });
+  });
+
+  describe('cut style targets', () => {
+    it('blends closeness to the target into the overall score', () => {
+      const onTarget = scoreChiveAnalysis(
+        metrics({ averageCutAngleDeg: 45 }),
+        DEFAULT_RUBRIC,
+        'bias'
+      );
+      const offTarget = scoreChiveAnalysis(
+        metrics({ averageCutAngleDeg: 60 }),
+        DEFAULT_RUBRIC,
+        'bias'
+      );
+
+      expect(onTarget.targetScore).toBe(1);
+      expect(onTarget.overallScore).toBe(93);
+      expect(offTarget.targetScore).toBe(0.5);
+      expect(offTarget.overallScore).toBe(73);
+      expect(offTarget.notes).toMatch(/measured 60°, target 45°/);
+    });
+
+    it('scores fine snips against a 1.5 mm thickness', () => {
+      const thick = scoreChiveAnalysis(
+        metrics({ averageThicknessMm: 1.75 }),
+        DEFAULT_RUBRIC,
+        'fine'
+      );
+      const chunky = scoreChiveAnalysis(
+        metrics({ averageThicknessMm: 2.5 }),
+        DEFAULT_RUBRIC,
+        'fine'
+      );
+
+      expect(thick.targetScore).toBe(0.5);
+      expect(thick.overallScore).toBe(73);
+      expect(thick.notes).toMatch(/measured 1.75mm, target 1.5mm/);
+      // Past the 0.5 mm tolerance the target adds nothing, however even the cut.
+      expect(chunky.targetScore).toBe(0);
+      expect(chunky.overallScore).toBe(53);
+    });
+
+    it("judges fine snips against a daily challenge's thickness instead", () => {
+      const chunky = metrics({ averageThicknessMm: 2.5 });
+      const onChallenge = scoreChiveAnalysis(chunky, DEFAULT_RUBRIC, 'fine', 2.5);
+      const biasOnChallenge = scoreChiveAnalysis(
+        metrics({ averageCutAngleDeg: 45 }),
+        DEFAULT_RUBRIC,
+        'bias',
+        2.5
+      );
+
+      expect(onChallenge.targetScore).toBe(1);
+      expect(onChallenge.overallScore).toBe(93);
+      expect(onChallenge.notes).toMatch(/measured 2.5mm, target 2.5mm/);
+      // Only thickness targets move; a bias cut keeps its 45° angle.
+      expect(biasOnChallenge.targetScore).toBe(1);
+    });
+  });
+});
+
+describe('rubricVersion', () => {
+  it('is the same for rubrics with the same values', () => {
+    expect(rubricVersion({ ...DEFAULT_RUBRIC })).toBe(rubricVersion(DEFAULT_RUBRIC));
+    expect(rubricVersion(DEFAULT_RUBRIC)).toMatch(/^[0-9a-f]{8}$/);
+  });
+
+  it('changes with any value, and with the scoring mode', () => {
+    const version = rubricVersion(DEFAULT_RUBRIC);
+
+    expect(rubricVersion({ ...DEFAULT_RUBRIC, maxStdDevMm: 2 })).not.toBe(version);
+    expect(
+      rubricVersion({
+        ...DEFAULT_RUBRIC,
+        cutQualityScores: { ...DEFAULT_RUBRIC.cutQualityScores, ragged: 0.2 },
+      })
+    ).not.toBe(version);
+    expect(rubricVersion({ ...DEFAULT_RUBRIC, mode: 'regional' })).not.toBe(version);
+  });
+});
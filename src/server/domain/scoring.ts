@@ -2,6 +2,21 @@
  * Chive-cut scoring rubric (TypeScript port).
  */
 
+import crypto from 'crypto';
+import {
+  isCalibrated,
+  REFERENCE_OBJECTS,
+  type Calibration,
+  type ReferenceMeasurement,
+} from './calibration';
+import {
+  CUT_STYLES,
+  DEFAULT_CUT_STYLE,
+  targetFor,
+  type CutStyle,
+  type CutStyleTarget,
+} from './cutStyles';
+
 export type RegionMetrics = {
   id: string;
   regionAverageThicknessMm?: number;
@@ -15,6 +30,44 @@ export type BaseChiveMetrics = {
   cutQualityLabel: 'clean' | 'mixed' | 'ragged' | 'unknown' | string;
   rawNotes?: string;
   regions?: RegionMetrics[];
+  /** Only measured for cut styles that target it; see `CUT_STYLES`. */
+  averagePieceLengthMm?: number;
+  averageCutAngleDeg?: number;
+  /** Reported by the model when the user named a reference object. */
+  referenceMeasurement?: ReferenceMeasurement;
+  /** Set by `applyCalibration` when the user named a reference object. */
+  calibration?: Calibration;
+};
+
+/**
+ * `global` scores the model's image-wide estimates; `regional` derives them
+ * from the nine per-region measurements instead.
+ */
+export type ScoringMode = 'global' | 'regional';
+
+/** Sub-scores for one grid region; all null for regions without chives. */
+export type RegionScore = {
+  id: string;
+  consistencyScore: number | null;
+  cutQualityScore: number | null;
+  /** 0-100, weighted like the overall score. */
+  score: number | null;
+};
+
+/** Image-level figures computed from the regions that contain chives. */
+export type RegionalSummary = {
+  /** Mean of the region averages; each region with chives counts equally. */
+  averageThicknessMm: number;
+  /** Spread of the region averages around that mean. */
+  interRegionStdDevMm: number;
+  /** Within-region and between-region spread combined. */
+  pooledStdDevMm: number;
+  /** Share of regions with chives that are labelled ragged. */
+  raggedShare: number;
+  /** Share of the grid that contains chives. */
+  coverage: number;
+  /** The model's global estimate is far from what its regions add up to. */
+  disagreement: boolean;
 };
 
 export type ScoredChiveMetrics = {
@@ -22,22 +75,209 @@ export type ScoredChiveMetrics = {
   cutQualityScore: number | null;
   overallScore: number | null;
   notes: string;
+  /** `rubricVersion` of the rubric that produced these scores. */
+  rubricVersion: string;
+  scoringMode: ScoringMode;
+  regionScores: RegionScore[];
+  /** Null when fewer than two regions have measurements. */
+  regional: RegionalSummary | null;
+  cutStyle: CutStyle;
+  /** 0-1 closeness to the style's target; null when it wasn't measured. */
+  targetScore: number | null;
+  /** Thicknesses were measured against a reference object rather than estimated. */
+  calibrated: boolean;
 };
 
-export function scoreChiveAnalysis(base: BaseChiveMetrics): ScoredChiveMetrics {
+/** The tunable parts of scoring. Moderators can override each per subreddit. */
+export type ScoringRubric = {
+  mode: ScoringMode;
+  /** Thickness std dev (mm) at which consistency bottoms out at 0. */
+  maxStdDevMm: number;
+  /** Cut quality score (0-1) for each label; `unknown` covers anything else. */
+  cutQualityScores: { clean: number; mixed: number; ragged: number; unknown: number };
+  /** Relative weights of the two sub-scores in the overall score. */
+  weights: { consistency: number; cutQuality: number };
+  /** Average thickness outside (min, max] mm is rejected as implausible. */
+  plausibleThicknessMm: { min: number; max: number };
+};
+
+export const DEFAULT_RUBRIC: ScoringRubric = {
+  mode: 'global',
+  maxStdDevMm: 1.5,
+  cutQualityScores: { clean: 1.0, mixed: 0.7, ragged: 0.35, unknown: 0.5 },
+  weights: { consistency: 0.6, cutQuality: 0.4 },
+  plausibleThicknessMm: { min: 0, max: 5 },
+};
+
+/**
+ * Short fingerprint of a rubric's values. Two rubrics with the same numbers
+ * share a version, so results stay comparable across subreddits and a
+ * settings change can be told apart from the results scored before it.
+ */
+export function rubricVersion(rubric: ScoringRubric): string {
+  const values = [
+    rubric.maxStdDevMm,
+    rubric.cutQualityScores.clean,
+    rubric.cutQualityScores.mixed,
+    rubric.cutQualityScores.ragged,
+    rubric.cutQualityScores.unknown,
+    rubric.weights.consistency,
+    rubric.weights.cutQuality,
+    rubric.plausibleThicknessMm.min,
+    rubric.plausibleThicknessMm.max,
+    // Only named when not the default, so global rubrics keep the versions
+    // they had before regional scoring existed.
+    ...(rubric.mode === 'global' ? [] : [rubric.mode]),
+  ];
+  return crypto.createHash('sha256').update(values.join('|')).digest('hex').slice(0, 8);
+}
+
+// Global and regional figures further apart than this are flagged.
+const DISAGREEMENT_THICKNESS_RATIO = 0.25;
+const DISAGREEMENT_STDDEV_MM = 0.5;
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+function consistencyFor(stdDevMm: number, rubric: ScoringRubric): number {
+  return round(Math.max(0, 1 - stdDevMm / rubric.maxStdDevMm), 2);
+}
+
+function cutQualityFor(label: string, rubric: ScoringRubric): number {
+  const scores = rubric.cutQualityScores;
+  switch (label.toLowerCase()) {
+    case 'clean':
+      return scores.clean;
+    case 'mixed':
+      return scores.mixed;
+    case 'ragged':
+      return scores.ragged;
+    default:
+      return scores.unknown; // unknown/other
+  }
+}
+
+function combine(consistency: number, quality: number, rubric: ScoringRubric): number {
+  const { weights } = rubric;
+  const totalWeight = weights.consistency + weights.cutQuality;
+  return Math.round(
+    ((consistency * weights.consistency + quality * weights.cutQuality) / totalWeight) * 100
+  );
+}
+
+function scoreRegions(regions: RegionMetrics[], rubric: ScoringRubric): RegionScore[] {
+  return regions.map((region) => {
+    const label = region.regionCutQualityLabel;
+    if (!label || label === 'no_chives') {
+      return { id: region.id, consistencyScore: null, cutQualityScore: null, score: null };
+    }
+
+    const consistencyScore =
+      typeof region.regionThicknessStdDevMm === 'number'
+        ? consistencyFor(region.regionThicknessStdDevMm, rubric)
+        : null;
+    const cutQualityScore = cutQualityFor(label, rubric);
+    return {
+      id: region.id,
+      consistencyScore,
+      cutQualityScore,
+      score: combine(consistencyScore ?? 0.5, cutQualityScore, rubric),
+    };
+  });
+}
+
+function summarizeRegions(
+  base: BaseChiveMetrics,
+  regions: RegionMetrics[]
+): RegionalSummary | null {
+  const withChives = regions.filter(
+    (r) => r.regionCutQualityLabel && r.regionCutQualityLabel !== 'no_chives'
+  );
+  const measured = withChives.filter(
+    (r): r is RegionMetrics & { regionAverageThicknessMm: number; regionThicknessStdDevMm: number } =>
+      typeof r.regionAverageThicknessMm === 'number' &&
+      typeof r.regionThicknessStdDevMm === 'number'
+  );
+  if (measured.length < 2) return null;
+
+  const means = measured.map((r) => r.regionAverageThicknessMm);
+  const average = means.reduce((a, b) => a + b, 0) / means.length;
+  const between = means.reduce((a, m) => a + (m - average) ** 2, 0) / means.length;
+  const within =
+    measured.reduce((a, r) => a + r.regionThicknessStdDevMm ** 2, 0) / measured.length;
+  const pooled = Math.sqrt(within + between);
+
+  const { averageThicknessMm, thicknessStdDevMm } = base;
+  const disagreement =
+    (typeof averageThicknessMm === 'number' &&
+      average > 0 &&
+      Math.abs(averageThicknessMm - average) / average > DISAGREEMENT_THICKNESS_RATIO) ||
+    (typeof thicknessStdDevMm === 'number' &&
+      Math.abs(thicknessStdDevMm - pooled) > DISAGREEMENT_STDDEV_MM);
+
+  return {
+    averageThicknessMm: round(average, 2),
+    interRegionStdDevMm: round(Math.sqrt(between), 2),
+    pooledStdDevMm: round(pooled, 2),
+    raggedShare: round(
+      withChives.filter((r) => r.regionCutQualityLabel === 'ragged').length / withChives.length,
+      2
+    ),
+    coverage: round(withChives.length / Math.max(regions.length, 1), 2),
+    disagreement,
+  };
+}
+
+/** Closeness of the measurement to the target, 1 when on target. */
+function targetScoreFor(base: BaseChiveMetrics, target: CutStyleTarget | null): number | null {
+  if (!target) return null;
+
+  const measured = base[target.metric];
+  if (typeof measured !== 'number' || !Number.isFinite(measured)) return null;
+  return round(Math.max(0, 1 - Math.abs(measured - target.value) / target.tolerance), 2);
+}
+
+/**
+ * Scores `base` under `rubric` as a cut of the given `style`, blending
+ * closeness to the style's target into the overall score by the target's
+ * weight. A daily challenge's `targetThicknessMm` replaces the fine-snip
+ * target for entries on its post.
+ */
+export function scoreChiveAnalysis(
+  base: BaseChiveMetrics,
+  rubric: ScoringRubric = DEFAULT_RUBRIC,
+  style: CutStyle = DEFAULT_CUT_STYLE,
+  targetThicknessMm: number | null = null
+): ScoredChiveMetrics {
   const { averageThicknessMm, thicknessStdDevMm, cutQualityLabel, rawNotes, regions } = base;
+  const version = rubricVersion(rubric);
+  const target = targetFor(style, targetThicknessMm);
+  const targetScore = targetScoreFor(base, target);
 
   const regionList = Array.isArray(regions) ? regions : [];
   const regionsWithChives = regionList.filter(
-    (r) => r && typeof r.regionCutQualityLabel === 'string' && r.regionCutQualityLabel !== 'no_chives'
+    (r) =>
+      r && typeof r.regionCutQualityLabel === 'string' && r.regionCutQualityLabel !== 'no_chives'
   );
 
+  const regionScores = scoreRegions(regionList, rubric);
+  const regional = summarizeRegions(base, regionList);
+  const unscored = {
+    thicknessConsistencyScore: null,
+    cutQualityScore: null,
+    overallScore: null,
+    rubricVersion: version,
+    scoringMode: rubric.mode,
+    regionScores,
+    regional,
+    cutStyle: style,
+    targetScore,
+    calibrated: isCalibrated(base),
+  };
+
   // Anti-cheat 1: no chives anywhere -> no score.
   if (regionsWithChives.length === 0) {
     return {
-      thicknessConsistencyScore: null,
-      cutQualityScore: null,
-      overallScore: null,
+      ...unscored,
       notes:
         rawNotes && rawNotes.trim().length
           ? `${rawNotes} (No regions with chives detected; score not computed.)`
@@ -48,55 +288,91 @@ export function scoreChiveAnalysis(base: BaseChiveMetrics): ScoredChiveMetrics {
   // Anti-cheat 2: only one small region with chives -> treat as insufficient coverage.
   if (regionsWithChives.length === 1) {
     return {
-      thicknessConsistencyScore: null,
-      cutQualityScore: null,
-      overallScore: null,
+      ...unscored,
       notes: 'Insufficient chive coverage (only one region contains chives); score not computed.',
     };
   }
 
-  // Anti-cheat 3: sanity-check global thickness range against typical chive size.
-  if (typeof averageThicknessMm === 'number' && (averageThicknessMm <= 0 || averageThicknessMm > 5)) {
+  // Regional mode takes thickness and spread from the regions; global mode
+  // (and regional mode without enough measured regions) uses the model's
+  // image-wide estimates.
+  const useRegions = rubric.mode === 'regional' && regional != null;
+  const thicknessMm = useRegions ? regional.averageThicknessMm : averageThicknessMm;
+  const stdDevMm = useRegions ? regional.pooledStdDevMm : thicknessStdDevMm;
+
+  // Anti-cheat 3: sanity-check thickness range against typical chive size.
+  const { min, max } = rubric.plausibleThicknessMm;
+  if (typeof thicknessMm === 'number' && (thicknessMm <= min || thicknessMm > max)) {
     return {
-      thicknessConsistencyScore: null,
-      cutQualityScore: null,
-      overallScore: null,
-      notes: 'Model reported an implausible average thickness for chives; score not computed.',
+      ...unscored,
+      notes: isCalibrated(base)
+        ? 'Average thickness measured against the reference is implausible for chives; check the reference object. Score not computed.'
+        : 'Model reported an implausible average thickness for chives; score not computed.',
     };
   }
 
   // Thickness consistency: ideal is very low std dev (uniform cuts).
-  // 0 mm std dev -> 1.0, 1.5 mm+ std dev -> ~0.
+  // 0 mm std dev -> 1.0, maxStdDevMm+ std dev -> ~0.
   let thicknessConsistencyScore: number | null = null;
-  if (typeof thicknessStdDevMm === 'number' && Number.isFinite(thicknessStdDevMm)) {
-    const normalized = Math.max(0, 1 - thicknessStdDevMm / 1.5);
-    thicknessConsistencyScore = Number(normalized.toFixed(2));
+  if (typeof stdDevMm === 'number' && Number.isFinite(stdDevMm)) {
+    thicknessConsistencyScore = consistencyFor(stdDevMm, rubric);
   }
 
-  // Cut quality: map label to score.
+  // Cut quality: map the label to a score, or average the regions' scores so
+  // every ragged region pulls it down.
   let cutQualityScore: number | null = null;
-  if (typeof cutQualityLabel === 'string') {
-    const label = cutQualityLabel.toLowerCase();
-    if (label === 'clean') cutQualityScore = 1.0;
-    else if (label === 'mixed') cutQualityScore = 0.7;
-    else if (label === 'ragged') cutQualityScore = 0.35;
-    else cutQualityScore = 0.5; // unknown/other
+  if (useRegions) {
+    const regionQuality = regionScores
+      .map((r) => r.cutQualityScore)
+      .filter((q): q is number => q != null);
+    cutQualityScore = round(regionQuality.reduce((a, b) => a + b, 0) / regionQuality.length, 2);
+  } else if (typeof cutQualityLabel === 'string') {
+    cutQualityScore = cutQualityFor(cutQualityLabel, rubric);
   }
 
-  // Combine into overall score. Weight consistency slightly higher than raw cut label.
-  const consistency = thicknessConsistencyScore ?? 0.5;
-  const quality = cutQualityScore ?? 0.5;
-  const overallScore = Math.round((consistency * 0.6 + quality * 0.4) * 100);
+  // Combine into overall score. By default consistency weighs slightly more
+  // than the raw cut label.
+  const technique = combine(thicknessConsistencyScore ?? 0.5, cutQualityScore ?? 0.5, rubric);
+  const overallScore = target
+    ? Math.round(technique * (1 - target.weight) + (targetScore ?? 0.5) * 100 * target.weight)
+    : technique;
 
-  const notes =
+  const summary =
     rawNotes && rawNotes.trim().length
       ? rawNotes
       : 'Scored based on thickness uniformity and cleanliness of cuts.';
+  const measured = target ? base[target.metric] : undefined;
+  const reference = base.calibration ? REFERENCE_OBJECTS[base.calibration.reference] : null;
+  const notes = [
+    summary,
+    useRegions && regional.disagreement
+      ? "(The model's overall estimate disagrees with its per-region measurements; scored from the regions.)"
+      : null,
+    target
+      ? typeof measured === 'number'
+        ? `(${CUT_STYLES[style].label}: measured ${measured}${target.unit}, target ${target.value}${target.unit}.)`
+        : `(${CUT_STYLES[style].label}: the model did not measure the target.)`
+      : null,
+    base.calibration && reference
+      ? base.calibration.pxPerMm != null
+        ? `(Measured against the ${reference.label} at ${base.calibration.pxPerMm} px/mm.)`
+        : `(The ${reference.label} wasn't found in the photo; millimetres are estimated.)`
+      : null,
+  ]
+    .filter(Boolean)
+    .join(' ');
 
   return {
     thicknessConsistencyScore,
     cutQualityScore,
     overallScore,
     notes,
+    rubricVersion: version,
+    scoringMode: rubric.mode,
+    regionScores,
+    regional,
+    cutStyle: style,
+    targetScore,
+    calibrated: isCalibrated(base),
   };
 }
@@ -0,0 +1,29 @@
+/**
+ * Named score tiers, highest first. The thresholds match the badges on the
+ * result card; flair awards use the same names.
+ */
+
+export type ScoreTier = 'perfect' | 'great' | 'very_good' | 'good' | 'fair' | 'poor';
+
+export type ScoreTierSpec = {
+  id: ScoreTier;
+  label: string;
+  /** Lowest rounded overall score in the tier. */
+  minScore: number;
+};
+
+const POOR: ScoreTierSpec = { id: 'poor', label: 'Poor', minScore: 0 };
+
+export const SCORE_TIERS: readonly ScoreTierSpec[] = [
+  { id: 'perfect', label: 'Perfect', minScore: 95 },
+  { id: 'great', label: 'Great', minScore: 90 },
+  { id: 'very_good', label: 'Very good', minScore: 85 },
+  { id: 'good', label: 'Good', minScore: 80 },
+  { id: 'fair', label: 'Fair', minScore: 75 },
+  POOR,
+];
+
+export const tierFor = (score: number): ScoreTierSpec => {
+  const rounded = Math.round(score);
+  return SCORE_TIERS.find((tier) => rounded >= tier.minScore) ?? POOR;
+};
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { InvalidModelOutput, REGION_IDS, validateChiveMetrics } from './validation';
+
+const region = (id: string, label = 'clean') => ({
+  id,
+  regionAverageThicknessMm: 1.5,
+  regionThicknessStdDevMm: 0.2,
+  regionCutQualityLabel: label,
+});
+
+const modelOutput = (overrides: Record<string, unknown> = {}) => ({
+  averageThicknessMm: 1.5,
+  thicknessStdDevMm: 0.3,
+  cutQualityLabel: 'clean',
+  rawNotes: 'Even snips.',
+  regions: REGION_IDS.map((id) => region(id)),
+  ...overrides,
+});
+
+const errorsOf = (result: ReturnType<typeof validateChiveMetrics>) =>
+  result.ok ? [] : result.errors;
+
+describe('validateChiveMetrics', () => {
+  it('accepts output in the documented shape', () => {
+    const result = validateChiveMetrics(modelOutput());
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.averageThicknessMm).toBe(1.5);
+    expect(result.value.regions).toHaveLength(9);
+  });
+
+  it('returns regions in row-major order whatever order the model used', () => {
+    const result = validateChiveMetrics(
+      modelOutput({ regions: [...REGION_IDS].reverse().map((id) => region(id)) })
+    );
+
+    expect(result.ok && result.value.regions?.map((r) => r.id)).toEqual(REGION_IDS);
+  });
+
+  it('defaults missing notes to an empty string', () => {
+    const result = validateChiveMetrics(modelOutput({ rawNotes: undefined }));
+
+    expect(result.ok && result.value.rawNotes).toBe('');
+  });
+
+  it('rejects anything but an object', () => {
+    expect(errorsOf(validateChiveMetrics('{"averageThicknessMm":1}'))).toEqual([
+      'response must be a JSON object',
+    ]);
+    expect(validateChiveMetrics([modelOutput()]).ok).toBe(false);
+  });
+
+  it('reports every problem at once', () => {
+    const errors = errorsOf(
+      validateChiveMetrics(
+        modelOutput({ averageThicknessMm: -1, thicknessStdDevMm: 'thin', cutQualityLabel: 'great' })
+      )
+    );
+
+    expect(errors).toHaveLength(3);
+    expect(errors[0]).toMatch(/averageThicknessMm must not be negative/);
+    expect(errors[1]).toMatch(/thicknessStdDevMm must be a finite number/);
+    expect(errors[2]).toMatch(/cutQualityLabel must be one of/);
+  });
+
+  it('rejects missing, duplicate and unknown regions', () => {
+    const regions = REGION_IDS.slice(0, 7).map((id) => region(id));
+    regions.push(region('r1c1'), region('r4c1'));
+
+    const errors = errorsOf(validateChiveMetrics(modelOutput({ regions })));
+
+    expect(errors).toContain('duplicate region id r1c1');
+    expect(errors).toContain('regions.r4c1.id must be one of ' + REGION_IDS.join(', '));
+    expect(errors).toContain('missing regions: r3c2, r3c3');
+  });
+
+  it("requires the measurement a cut style's target needs", () => {
+    expect(errorsOf(validateChiveMetrics(modelOutput(), 'bias'))[0]).toMatch(
+      /averageCutAngleDeg must be a finite number/
+    );
+    expect(
+      errorsOf(validateChiveMetrics(modelOutput({ averageCutAngleDeg: 120 }), 'bias'))
+    ).toEqual(['averageCutAngleDeg must be at most 90 (got 120)']);
+
+    const result = validateChiveMetrics(modelOutput({ averagePieceLengthMm: 24 }), 'baton');
+    expect(result.ok && result.value.averagePieceLengthMm).toBe(24);
+  });
+
+  it('requires pixel measurements when a reference object was named', () => {
+    expect(errorsOf(validateChiveMetrics(modelOutput(), 'fine', 'us_quarter'))[0]).toMatch(
+      /^reference must be an object/
+    );
+
+    const reference = { detected: true, sizePx: 240, averageThicknessPx: 15, thicknessStdDevPx: 3 };
+    const result = validateChiveMetrics(modelOutput({ reference }), 'fine', 'us_quarter');
+    expect(result.ok && result.value.referenceMeasurement).toEqual(reference);
+  });
+});
+
+describe('InvalidModelOutput', () => {
+  it('keeps the errors and the raw output for the repair prompt', () => {
+    const error = new InvalidModelOutput(['a', 'b'], '{}', 3);
+
+    expect(error.message).toBe('Model output failed validation after 3 attempts: a; b');
+    expect(error.errors).toEqual(['a', 'b']);
+    expect(error.rawOutput).toBe('{}');
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Runtime validation of vision-model output against the shape documented in
+ * the analysis prompt.
+ */
+
+import {
+  DEFAULT_REFERENCE,
+  REFERENCE_OBJECTS,
+  type ReferenceMeasurement,
+  type ReferenceObject,
+} from './calibration';
+import { DEFAULT_CUT_STYLE, extraMetricFor, type CutStyle } from './cutStyles';
+import type { BaseChiveMetrics, RegionMetrics } from './scoring';
+
+export const REGION_IDS = ['r1c1', 'r1c2', 'r1c3', 'r2c1', 'r2c2', 'r2c3', 'r3c1', 'r3c2', 'r3c3'];
+
+const OVERALL_LABELS = ['clean', 'mixed', 'ragged', 'unknown'];
+const REGION_LABELS = ['clean', 'mixed', 'ragged', 'no_chives'];
+
+/** Thrown when the model keeps returning output that fails validation. */
+export class InvalidModelOutput extends Error {
+  readonly errors: string[];
+  readonly rawOutput: string;
+
+  constructor(errors: string[], rawOutput: string, attempts: number) {
+    super(
+      `Model output failed validation after ${attempts} attempt${attempts === 1 ? '' : 's'}: ${errors.join('; ')}`
+    );
+    this.name = 'InvalidModelOutput';
+    this.errors = errors;
+    this.rawOutput = rawOutput;
+  }
+}
+
+export type ValidationResult =
+  | { ok: true; value: BaseChiveMetrics }
+  | { ok: false; errors: string[] };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const checkMeasurement = (value: unknown, path: string, errors: string[]): value is number => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    errors.push(`${path} must be a finite number (got ${JSON.stringify(value) ?? 'undefined'})`);
+    return false;
+  }
+  if (value < 0) {
+    errors.push(`${path} must not be negative (got ${value})`);
+    return false;
+  }
+  return true;
+};
+
+const checkReference = (value: unknown, errors: string[]): ReferenceMeasurement | null => {
+  if (!isRecord(value)) {
+    errors.push(
+      'reference must be an object with detected, sizePx, averageThicknessPx and thicknessStdDevPx'
+    );
+    return null;
+  }
+
+  const { detected, sizePx, averageThicknessPx, thicknessStdDevPx } = value;
+  const before = errors.length;
+  if (typeof detected !== 'boolean') errors.push('reference.detected must be a boolean');
+  checkMeasurement(sizePx, 'reference.sizePx', errors);
+  checkMeasurement(averageThicknessPx, 'reference.averageThicknessPx', errors);
+  checkMeasurement(thicknessStdDevPx, 'reference.thicknessStdDevPx', errors);
+  if (errors.length > before) return null;
+
+  return {
+    detected: detected as boolean,
+    sizePx: sizePx as number,
+    averageThicknessPx: averageThicknessPx as number,
+    thicknessStdDevPx: thicknessStdDevPx as number,
+  };
+};
+
+/**
+ * Checks model output against the documented shape. A `style` whose target
+ * needs an extra measurement also requires that, and a `reference` other
+ * than `none` requires the pixel measurements used to calibrate.
+ */
+export function validateChiveMetrics(
+  input: unknown,
+  style: CutStyle = DEFAULT_CUT_STYLE,
+  reference: ReferenceObject = DEFAULT_REFERENCE
+): ValidationResult {
+  const errors: string[] = [];
+
+  if (!isRecord(input)) {
+    return { ok: false, errors: ['response must be a JSON object'] };
+  }
+
+  const { averageThicknessMm, thicknessStdDevMm, cutQualityLabel, rawNotes, regions } = input;
+
+  checkMeasurement(averageThicknessMm, 'averageThicknessMm', errors);
+  checkMeasurement(thicknessStdDevMm, 'thicknessStdDevMm', errors);
+
+  if (typeof cutQualityLabel !== 'string' || !OVERALL_LABELS.includes(cutQualityLabel)) {
+    errors.push(
+      `cutQualityLabel must be one of ${OVERALL_LABELS.join(', ')} (got ${JSON.stringify(cutQualityLabel) ?? 'undefined'})`
+    );
+  }
+
+  if (rawNotes !== undefined && typeof rawNotes !== 'string') {
+    errors.push('rawNotes must be a string');
+  }
+
+  const extraMetric = extraMetricFor(style);
+  const targetValue = extraMetric ? input[extraMetric] : undefined;
+  if (extraMetric && checkMeasurement(targetValue, extraMetric, errors)) {
+    if (extraMetric === 'averageCutAngleDeg' && (targetValue as number) > 90) {
+      errors.push(`averageCutAngleDeg must be at most 90 (got ${targetValue as number})`);
+    }
+  }
+
+  const referenceMeasurement =
+    REFERENCE_OBJECTS[reference].sizeMm != null ? checkReference(input.reference, errors) : null;
+
+  const validRegions: RegionMetrics[] = [];
+  if (!Array.isArray(regions)) {
+    errors.push('regions must be an array of 9 region objects');
+  } else {
+    if (regions.length !== REGION_IDS.length) {
+      errors.push(
+        `regions must contain exactly ${REGION_IDS.length} entries (got ${regions.length})`
+      );
+    }
+
+    const seen = new Set<string>();
+    regions.forEach((region, i) => {
+      if (!isRecord(region)) {
+        errors.push(`regions[${i}] must be an object`);
+        return;
+      }
+
+      const { id, regionAverageThicknessMm, regionThicknessStdDevMm, regionCutQualityLabel } =
+        region;
+      const path = typeof id === 'string' ? `regions.${id}` : `regions[${i}]`;
+
+      if (typeof id !== 'string' || !REGION_IDS.includes(id)) {
+        errors.push(`${path}.id must be one of ${REGION_IDS.join(', ')}`);
+      } else if (seen.has(id)) {
+        errors.push(`duplicate region id ${id}`);
+      } else {
+        seen.add(id);
+      }
+
+      const avgOk = checkMeasurement(
+        regionAverageThicknessMm,
+        `${path}.regionAverageThicknessMm`,
+        errors
+      );
+      const sdOk = checkMeasurement(
+        regionThicknessStdDevMm,
+        `${path}.regionThicknessStdDevMm`,
+        errors
+      );
+
+      const labelOk =
+        typeof regionCutQualityLabel === 'string' && REGION_LABELS.includes(regionCutQualityLabel);
+      if (!labelOk) {
+        errors.push(
+          `${path}.regionCutQualityLabel must be one of ${REGION_LABELS.join(', ')} (got ${JSON.stringify(regionCutQualityLabel) ?? 'undefined'})`
+        );
+      }
+
+      if (typeof id === 'string' && avgOk && sdOk && labelOk) {
+        validRegions.push({
+          id,
+          regionAverageThicknessMm: regionAverageThicknessMm as number,
+          regionThicknessStdDevMm: regionThicknessStdDevMm as number,
+          regionCutQualityLabel: regionCutQualityLabel as NonNullable<
+            RegionMetrics['regionCutQualityLabel']
+          >,
+        });
+      }
+    });
+
+    const missing = REGION_IDS.filter((id) => !seen.has(id));
+    if (missing.length) {
+      errors.push(`missing regions: ${missing.join(', ')}`);
+    }
+  }
+
+  if (errors.length) {
+    return { ok: false, errors };
+  }
+
+  // Return regions in canonical row-major order regardless of model ordering.
+  validRegions.sort((a, b) => REGION_IDS.indexOf(a.id) - REGION_IDS.indexOf(b.id));
+
+  return {
+    ok: true,
+    value: {
+      averageThicknessMm: averageThicknessMm as number,
+      thicknessStdDevMm: thicknessStdDevMm as number,
+      cutQualityLabel: cutQualityLabel as string,
+      rawNotes: (rawNotes as string | undefined) ?? '',
+      regions: validRegions,
+      ...(extraMetric ? { [extraMetric]: targetValue as number } : {}),
+      ...(referenceMeasurement ? { referenceMeasurement } : {}),
+    },
+  };
+}
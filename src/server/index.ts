@@ -1,12 +1,105 @@
 import express from 'express';
-import type { NextFunction } from 'express';
-import multer from 'multer';
+import type { NextFunction, Response } from 'express';
 import crypto from 'crypto';
-import type { InitResponse, IncrementResponse, DecrementResponse, AnalyzeResponse } from '../shared/types/api';
-import { redis, reddit, createServer, context, getServerPort, settings } from '@devvit/web/server';
-import { createPost } from './core/post';
-import { analyzeChiveImageWithGrok, getXaiApiKey } from './services/grokClient';
-import { scoreChiveAnalysis } from './domain/scoring';
+import type {
+  InitResponse,
+  AnalyzeResponse,
+  AnalyzeAsyncResponse,
+  BatchResponse,
+  JobResultResponse,
+  HistoryResponse,
+  PersonalBestResponse,
+  LeaderboardResponse,
+  LeaderboardScope,
+  LeaderboardWindow,
+  ChallengeResponse,
+  DuplicatesResponse,
+  FlairResponse,
+  ModeratorStatusResponse,
+  OpsActionResponse,
+  OpsResponse,
+  QuotaResponse,
+  RescoreResponse,
+  ScorecardResponse,
+  UsageResponse,
+  HealthResponse,
+  WorkerUnavailableResponse,
+  HistoryEntry,
+  PeoplesChoiceResponse,
+  PeoplesChoiceScope,
+  SubmissionSort,
+  SubmissionsResponse,
+  VoteValue,
+  VotesResponse,
+} from '../shared/types/api';
+import { reddit, createServer, context, getServerPort } from '@devvit/web/server';
+import { createPost, getLatestPostId } from './core/post';
+import { getVisionProvider, getVisionProviderName } from './services/visionProvider';
+import {
+  applyCalibration,
+  DEFAULT_REFERENCE,
+  isReferenceObject,
+  REFERENCE_IDS,
+  type ReferenceObject,
+} from './domain/calibration';
+import { CUT_STYLE_IDS, DEFAULT_CUT_STYLE, isCutStyle, type CutStyle } from './domain/cutStyles';
+import { scoreSamples } from './domain/consensus';
+import { getHistory, getHistoryEntry, getPersonalBest } from './core/history';
+import { deleteScorecard, getScorecard, shareScorecard } from './core/scorecards';
+import { recordCompletedAnalysis, UNRANKED_NOTE } from './core/analysis';
+import { describeDuplicate, getFlaggedDuplicates } from './core/duplicates';
+import { getFlairStatus, setFlairOptOut } from './core/flair';
+import { isCurrentUserModerator } from './core/moderation';
+import {
+  banSubmitter,
+  getFailedJob,
+  getOpsOverview,
+  getStuckJobIds,
+  isBannedSubmitter,
+  setEntryHidden,
+  unbanSubmitter,
+} from './core/ops';
+import { contentHash, getResultCacheTtl } from './core/resultCache';
+import { analyzeSamples, getConsensusSettings } from './core/consensus';
+import { getScoringRubric } from './core/rubric';
+import { rescoreHistory } from './core/rescore';
+import { getQuotaStatus, reserveQuota, sendQuotaExceeded } from './core/quotas';
+import { checkBudget, getUsageReport, recordUsage, sendBudgetExceeded } from './core/usage';
+import { getHealth, isWorkerAlive } from './core/workers';
+import {
+  getUploadLimits,
+  handleImageUpload,
+  hostUpload,
+  prepareUploads,
+  type UploadedFile,
+} from './core/uploads';
+import {
+  cancelJob,
+  enqueueBatch,
+  getBatch,
+  getBatchStatus,
+  getJob,
+  purgeJob,
+  requeueJob,
+  resolveJob,
+  type AnalysisJob,
+} from './core/jobs';
+import { publishJobUpdate, runJobEventRelay, startJobEventRelay } from './core/jobEvents';
+import { getLeaderboard, LEADERBOARD_SCOPES, LEADERBOARD_WINDOWS } from './core/leaderboard';
+import {
+  backfillSubmissions,
+  castVote,
+  getCommunityVotes,
+  getPeoplesChoice,
+  PEOPLES_CHOICE_SCOPES,
+} from './core/votes';
+import { getSubmissions, SUBMISSION_SORTS, toSubmission } from './core/submissions';
+import {
+  getChallengeForPost,
+  getLatestChallenge,
+  isChallengeOpen,
+  runDailyChallenge,
+} from './core/challenge';
 
 const app = express();
 
@@ -34,15 +127,11 @@ router.get<{ postId: string }, InitResponse | { status: string; message: string
     }
 
     try {
-      const [count, username] = await Promise.all([
-        redis.get('count'),
-        reddit.getCurrentUsername(),
-      ]);
+      const username = await reddit.getCurrentUsername();
 
       res.json({
         type: 'init',
         postId: postId,
-        count: count ? parseInt(count) : 0,
         username: username ?? 'anonymous',
       });
     } catch (error) {
@@ -56,87 +145,185 @@ router.get<{ postId: string }, InitResponse | { status: string; message: string
   }
 );
 
-router.post<{ postId: string }, IncrementResponse | { status: string; message: string }, unknown>(
-  '/api/increment',
-  async (_req, res): Promise<void> => {
-    const { postId } = context;
-    if (!postId) {
-      res.status(400).json({
-        status: 'error',
-        message: 'postId is required',
-      });
-      return;
-    }
+/**
+ * Reads an optional cut style from a form field or query parameter. Missing
+ * means the default style; anything else unknown is `null` and answered 400.
+ */
+const parseCutStyle = (value: unknown): CutStyle | null => {
+  if (value === undefined || value === '') return DEFAULT_CUT_STYLE;
+  return typeof value === 'string' && isCutStyle(value) ? value : null;
+};
 
-    res.json({
-      count: await redis.incrBy('count', 1),
-      postId,
-      type: 'increment',
-    });
-  }
-);
+const invalidCutStyleMessage = `Unknown cut style; use one of ${CUT_STYLE_IDS.join(', ')}`;
+
+const parseReference = (value: unknown): ReferenceObject | null => {
+  if (value === undefined || value === '') return DEFAULT_REFERENCE;
+  return isReferenceObject(value) ? value : null;
+};
+
+const invalidReferenceMessage = `Unknown reference object; use one of ${REFERENCE_IDS.join(', ')}`;
+
+const bannedMessage = 'A moderator has stopped you from submitting photos here';
 
-router.post<{ postId: string }, DecrementResponse | { status: string; message: string }, unknown>(
-  '/api/decrement',
+// Whether any queue worker is alive to run jobs from /api/analyze-async
+router.get<Record<string, never>, HealthResponse | { status: string; message: string }>(
+  '/api/health',
   async (_req, res): Promise<void> => {
-    const { postId } = context;
-    if (!postId) {
-      res.status(400).json({
-        status: 'error',
-        message: 'postId is required',
-      });
-      return;
+    try {
+      res.json(await getHealth());
+    } catch (err) {
+      const error = err as Error;
+      console.error('Error checking health:', error);
+      res.status(500).json({ status: 'error', message: error.message });
     }
-
-    res.json({
-      count: await redis.incrBy('count', -1),
-      postId,
-      type: 'decrement',
-    });
   }
 );
 
-// Multer in-memory storage for image uploads
-const storage = multer.memoryStorage();
-const upload = multer({ storage });
-
 // New async queue endpoint
 router.post(
   '/api/analyze-async',
-  upload.array('images'),
+  // Resolve the provider and upload limits before multer, as for the sync
+  // endpoint. The worker holds its own credentials, so only the provider name
+  // travels with the job.
+  async (_req, res, next: NextFunction): Promise<void> => {
+    try {
+      res.locals.visionProviderName = await getVisionProviderName();
+      res.locals.uploadLimits = await getUploadLimits();
+      res.locals.resultCacheTtl = await getResultCacheTtl();
+      res.locals.rubric = await getScoringRubric();
+      res.locals.consensus = await getConsensusSettings();
+      next();
+    } catch (err) {
+      const error = err as Error;
+      console.error('Error resolving vision provider', error);
+      res.status(500).json({ error: error.message });
+    }
+  },
+  handleImageUpload,
   async (req, res): Promise<void> => {
     try {
-      const files = (req as any).files || [];
-      const jobs: string[] = [];
-
-      for (const [index, file] of files.entries()) {
-        const jobId = crypto.randomUUID();
-
-        // Upload image to Reddit media (so worker can fetch it)
-        const mediaUrl = await reddit.uploadMedia({
-          data: file.buffer,
-          type: file.mimetype as 'image/png' | 'image/jpeg',
-        }, context);
-
-        // Queue job in Redis
-        const job = {
-          jobId,
-          imageUrl: mediaUrl,
-          mimeType: file.mimetype,
-          submittedBy: context.userId || 'anonymous',
-          subreddit: context.subredditName || 'unknown',
-          postId: context.postId || '',
-          createdAt: Date.now(),
-          status: 'pending',
+      const files: UploadedFile[] = Array.isArray(req.files) ? req.files : [];
+      const { visionProviderName: visionProvider } = res.locals;
+      if (!visionProvider) {
+        throw new Error('Vision provider missing from request context');
+      }
+      if (files.length === 0) {
+        res.status(400).json({ status: 'error', message: 'No images uploaded' });
+        return;
+      }
+
+      if (context.userId && (await isBannedSubmitter(context.userId))) {
+        res.status(403).json({ status: 'error', message: bannedMessage });
+        return;
+      }
+
+      const cutStyle = parseCutStyle(req.body?.cutStyle);
+      if (!cutStyle) {
+        res.status(400).json({ status: 'error', message: invalidCutStyleMessage });
+        return;
+      }
+
+      const reference = parseReference(req.body?.reference);
+      if (!reference) {
+        res.status(400).json({ status: 'error', message: invalidReferenceMessage });
+        return;
+      }
+
+      // Jobs queued now would sit until a worker starts; refuse them before
+      // anything is uploaded or counted, so the client can use /api/analyze.
+      if (!(await isWorkerAlive())) {
+        const response: WorkerUnavailableResponse = {
+          status: 'error',
+          code: 'worker_unavailable',
+          message: 'No analysis worker is running right now',
         };
+        res.status(503).json(response);
+        return;
+      }
+
+      // Normalize before anything leaves the server: this strips EXIF (and
+      // with it GPS data) and bounds the size sent to the model.
+      const { accepted, rejected } = await prepareUploads(files, res.locals.uploadLimits);
+      if (accepted.length === 0) {
+        const response: AnalyzeAsyncResponse = { batchId: null, jobs: [], rejected };
+        res.json(response);
+        return;
+      }
+
+      const budget = await checkBudget(context.subredditName || 'unknown');
+      if (!budget.ok) {
+        sendBudgetExceeded(res, budget.exceeded);
+        return;
+      }
+
+      const username = (await reddit.getCurrentUsername()) ?? 'anonymous';
+      const challenge = context.postId ? await getChallengeForPost(context.postId) : null;
+
+      const quota = await reserveQuota(accepted.length);
+      if (!quota.ok) {
+        sendQuotaExceeded(res, quota.exceeded);
+        return;
+      }
+
+      const batchId = crypto.randomUUID();
+      const submittedBy = context.userId || 'anonymous';
+      const createdAt = Date.now();
+      const jobs: AnalysisJob[] = [];
+
+      try {
+        for (const image of accepted) {
+          const jobId = crypto.randomUUID();
+
+          // Upload image to Reddit media (so worker can fetch it)
+          const mediaUrl = await hostUpload(image);
 
-        await redis.set(`analysis:jobs:${jobId}`, JSON.stringify(job), { expiration: new Date(Date.now() + 3600000) });
-        await redis.rPush('analysis:queue', JSON.stringify(job));
+          jobs.push({
+            jobId,
+            batchId,
+            filename: image.filename,
+            uploadIndex: image.index,
+            imageUrl: mediaUrl,
+            mimeType: image.mimeType,
+            perceptualHash: image.perceptualHash,
+            contentHash: contentHash(image.buffer),
+            resultCacheTtlSeconds: res.locals.resultCacheTtl,
+            visionProvider,
+            cutStyle,
+            reference,
+            rubric: res.locals.rubric,
+            consensus: res.locals.consensus,
+            targetThicknessMm: challenge?.targetThicknessMm ?? null,
+            submittedBy,
+            submittedByName: username,
+            subreddit: context.subredditName || 'unknown',
+            postId: context.postId || '',
+            createdAt,
+            status: 'pending',
+            attempts: 0,
+            nextRetryAt: null,
+          });
+        }
 
-        jobs.push(jobId);
+        await enqueueBatch(
+          { batchId, jobIds: jobs.map((job) => job.jobId), submittedBy, createdAt },
+          jobs
+        );
+      } catch (err) {
+        // Nothing was queued, so the user shouldn't pay for it.
+        await quota.release();
+        throw err;
       }
+      for (const job of jobs) {
+        await publishJobUpdate(job);
+      }
+      await startJobEventRelay();
 
-      res.json({ jobs });
+      const response: AnalyzeAsyncResponse = {
+        batchId,
+        jobs: jobs.map((job) => job.jobId),
+        rejected,
+      };
+      res.json(response);
     } catch (err) {
       const error = err as Error;
       console.error('Error queuing analysis:', error);
@@ -146,94 +333,254 @@ router.post(
 );
 
 // Get job result
-router.get('/api/result/:jobId', async (req, res): Promise<void> => {
-  try {
-    const { jobId } = req.params;
-    const resultData = await redis.get(`analysis:results:${jobId}`);
-
-    if (!resultData) {
-      // Check if job exists
-      const jobData = await redis.get(`analysis:jobs:${jobId}`);
-      if (!jobData) {
+router.get<{ jobId: string }, JobResultResponse | { error: string }>(
+  '/api/result/:jobId',
+  async (req, res): Promise<void> => {
+    try {
+      const job = await getJob(req.params.jobId);
+      if (!job) {
         res.status(404).json({ error: 'Job not found' });
         return;
       }
 
-      const job = JSON.parse(jobData);
-      res.json({ status: job.status });
-      return;
+      res.json(await resolveJob(job));
+    } catch (err) {
+      const error = err as Error;
+      console.error('Error fetching result:', error);
+      res.status(500).json({ error: error.message });
     }
+  }
+);
+
+// Status and finished results of every job in an upload
+router.get<{ batchId: string }, BatchResponse | { status: string; message: string }>(
+  '/api/batch/:batchId',
+  async (req, res): Promise<void> => {
+    try {
+      const batch = await getBatch(req.params.batchId);
+      if (!batch) {
+        res.status(404).json({ status: 'error', message: 'Batch not found' });
+        return;
+      }
 
-    const result = JSON.parse(resultData);
+      if (batch.submittedBy !== (context.userId || 'anonymous')) {
+        res.status(403).json({ status: 'error', message: 'Only the submitter can view this batch' });
+        return;
+      }
 
-    if (result.status === 'failed') {
-      res.json({ status: 'failed', error: result.error });
-      return;
+      res.json(await getBatchStatus(batch));
+    } catch (err) {
+      const error = err as Error;
+      console.error('Error fetching batch:', error);
+      res.status(500).json({ status: 'error', message: error.message });
     }
+  }
+);
 
-    const scored = scoreChiveAnalysis(result.result);
+// Cancel every unfinished job in an upload
+router.delete<{ batchId: string }, BatchResponse | { status: string; message: string }>(
+  '/api/batch/:batchId',
+  async (req, res): Promise<void> => {
+    try {
+      const batch = await getBatch(req.params.batchId);
+      if (!batch) {
+        res.status(404).json({ status: 'error', message: 'Batch not found' });
+        return;
+      }
+      if (batch.submittedBy !== (context.userId || 'anonymous')) {
+        res.status(403).json({ status: 'error', message: 'Only the submitter can cancel this batch' });
+        return;
+      }
 
-    res.json({
-      status: 'completed',
-      result: {
-        ...result.result,
-        ...scored,
-      },
-    });
-  } catch (err) {
-    const error = err as Error;
-    console.error('Error fetching result:', error);
-    res.status(500).json({ error: error.message });
+      for (const jobId of batch.jobIds) {
+        const job = await getJob(jobId);
+        if (job && (await cancelJob(job))) {
+          await publishJobUpdate({ ...job, status: 'cancelled' });
+        }
+      }
+
+      res.json(await getBatchStatus(batch));
+    } catch (err) {
+      const error = err as Error;
+      console.error('Error cancelling batch:', error);
+      res.status(500).json({ status: 'error', message: error.message });
+    }
   }
-});
+);
+
+// Cancel a single job
+router.delete<{ batchId: string; jobId: string }, BatchResponse | { status: string; message: string }>(
+  '/api/batch/:batchId/jobs/:jobId',
+  async (req, res): Promise<void> => {
+    try {
+      const { batchId, jobId } = req.params;
+      const batch = await getBatch(batchId);
+      const job = await getJob(jobId);
+      if (!batch || !job || job.batchId !== batchId) {
+        res.status(404).json({ status: 'error', message: 'Job not found' });
+        return;
+      }
+      if (job.submittedBy !== (context.userId || 'anonymous')) {
+        res.status(403).json({ status: 'error', message: 'Only the submitter can cancel this job' });
+        return;
+      }
+
+      if (await cancelJob(job)) {
+        await publishJobUpdate({ ...job, status: 'cancelled' });
+      }
+      res.json(await getBatchStatus(batch));
+    } catch (err) {
+      const error = err as Error;
+      console.error('Error cancelling job:', error);
+      res.status(500).json({ status: 'error', message: error.message });
+    }
+  }
+);
 
 // Legacy sync endpoint (keep for backward compat, but will be slow/timeout)
 router.post(
   '/api/analyze',
-  // First middleware: resolve XAI API key while Devvit request context is intact
-  async (req, res, next: NextFunction): Promise<void> => {
-    try {
-      const key = await getXaiApiKey();
-      (req as any).xaiApiKey = key;
-
-      // Also resolve proxy URL while context is available
-      let proxyUrl = process.env.XAI_PROXY_URL;
-      if (!proxyUrl || proxyUrl.length === 0) {
-        const fromSettings = (await settings.get('XAI_PROXY_URL')) as string | undefined;
-        if (fromSettings && fromSettings.length > 0) {
-          proxyUrl = fromSettings;
-        }
-      }
-      (req as any).xaiProxyUrl = proxyUrl;
+  // First middleware: resolve the vision provider (and its API key) while the
+  // Devvit request context is intact
+  async (_req, res, next: NextFunction): Promise<void> => {
+    try {
+      // Capture who the calls are for now; the context isn't safe to read
+      // from inside the provider once multer has run.
+      const source = {
+        subreddit: context.subredditName || 'unknown',
+        userId: context.userId || 'anonymous',
+        username: (await reddit.getCurrentUsername()) ?? 'anonymous',
+      };
+      res.locals.visionProvider = await getVisionProvider((usage) => recordUsage(usage, source));
+      res.locals.uploadLimits = await getUploadLimits();
+      res.locals.resultCacheTtl = await getResultCacheTtl();
+      res.locals.rubric = await getScoringRubric();
+      res.locals.consensus = await getConsensusSettings();
 
       next();
     } catch (err) {
       const error = err as Error;
-      console.error('Error resolving XAI API key', error);
+      console.error('Error resolving vision provider', error);
       res.status(500).json({ error: 'Analysis failed', details: error.message });
     }
   },
   // Second middleware: handle multipart upload
-  upload.array('images'),
-  // Final handler: perform analysis using the resolved key
+  handleImageUpload,
+  // Final handler: perform analysis using the resolved provider
   async (req, res): Promise<void> => {
     try {
-      const files = (req as any).files || [];
-      const xaiApiKey = (req as any).xaiApiKey as string | undefined;
-      const xaiProxyUrl = (req as any).xaiProxyUrl as string | undefined;
+      const files: UploadedFile[] = Array.isArray(req.files) ? req.files : [];
+      const { visionProvider } = res.locals;
       const results: AnalyzeResponse['results'] = [];
 
-      if (!xaiApiKey) {
-        throw new Error('XAI API key missing from request context');
+      if (!visionProvider) {
+        throw new Error('Vision provider missing from request context');
+      }
+
+      if (context.userId && (await isBannedSubmitter(context.userId))) {
+        res.status(403).json({ status: 'error', message: bannedMessage });
+        return;
+      }
+
+      const cutStyle = parseCutStyle(req.body?.cutStyle);
+      if (!cutStyle) {
+        res.status(400).json({ status: 'error', message: invalidCutStyleMessage });
+        return;
+      }
+
+      const reference = parseReference(req.body?.reference);
+      if (!reference) {
+        res.status(400).json({ status: 'error', message: invalidReferenceMessage });
+        return;
+      }
+
+      const { accepted, rejected } = await prepareUploads(files, res.locals.uploadLimits);
+      if (accepted.length > 0) {
+        const budget = await checkBudget(context.subredditName || 'unknown');
+        if (!budget.ok) {
+          sendBudgetExceeded(res, budget.exceeded);
+          return;
+        }
+
+        const quota = await reserveQuota(accepted.length);
+        if (!quota.ok) {
+          sendQuotaExceeded(res, quota.exceeded);
+          return;
+        }
+      }
+
+      for (const { index, filename, error } of rejected) {
+        results.push({
+          filename,
+          bunchIndex: index,
+          averageThicknessMm: null,
+          thicknessStdDevMm: null,
+          cutQualityLabel: 'unknown',
+          overallScore: null,
+          thicknessConsistencyScore: null,
+          cutQualityScore: null,
+          notes: `Upload rejected: ${error}`,
+          rawNotes: '',
+          regions: [],
+        });
       }
 
-      for (const [index, file] of files.entries()) {
+      const username = await reddit.getCurrentUsername();
+      const challenge = context.postId ? await getChallengeForPost(context.postId) : null;
+
+      for (const image of accepted) {
+        const { index, filename, buffer, mimeType, perceptualHash } = image;
         try {
-          const baseMetrics = await analyzeChiveImageWithGrok(file.buffer, file.mimetype, xaiApiKey, xaiProxyUrl);
-          const scored = scoreChiveAnalysis(baseMetrics);
+          const { samples, cache } = await analyzeSamples(
+            visionProvider,
+            buffer,
+            mimeType,
+            cutStyle,
+            reference,
+            res.locals.resultCacheTtl,
+            res.locals.consensus
+          );
+          const {
+            base: baseMetrics,
+            scored,
+            consensus,
+          } = scoreSamples(
+            samples.map((sample) => applyCalibration(sample, reference)),
+            res.locals.rubric,
+            cutStyle,
+            challenge?.targetThicknessMm ?? null
+          );
+          let notes = scored.notes;
+          let entryId: string | undefined;
+
+          if (context.userId) {
+            const entry = await recordCompletedAnalysis(
+              {
+                id: crypto.randomUUID(),
+                userId: context.userId,
+                username: username ?? 'unknown',
+                postId: context.postId || '',
+                subreddit: context.subredditName || 'unknown',
+                mediaUrl: await hostUpload(image).catch((err: unknown) => {
+                  // The score still counts; the entry just has no photo in the gallery.
+                  console.error(`Failed to host ${filename}:`, err);
+                  return null;
+                }),
+                createdAt: Date.now(),
+                perceptualHash,
+              },
+              baseMetrics,
+              scored,
+              { consensus, requireConsensus: res.locals.consensus.requiredForLeaderboard }
+            );
+            const duplicateNote = await describeDuplicate(entry);
+            if (duplicateNote) notes = `${notes} ${duplicateNote}`;
+            if (entry.unranked) notes = `${notes} ${UNRANKED_NOTE}`;
+            entryId = entry.id;
+          }
 
         results.push({
-          filename: file.originalname,
+          filename,
           bunchIndex: index,
           averageThicknessMm: baseMetrics.averageThicknessMm,
           thicknessStdDevMm: baseMetrics.thicknessStdDevMm,
@@ -243,12 +590,29 @@ router.post(
           thicknessConsistencyScore: scored.thicknessConsistencyScore,
           cutQualityScore: scored.cutQualityScore,
           overallScore: scored.overallScore,
-          notes: scored.notes,
+          notes,
+          cache,
+          rubricVersion: scored.rubricVersion,
+          scoringMode: scored.scoringMode,
+          regionScores: scored.regionScores,
+          regional: scored.regional,
+          cutStyle: scored.cutStyle,
+          targetScore: scored.targetScore,
+          consensus,
+          calibrated: scored.calibrated,
+          calibration: baseMetrics.calibration ?? null,
+          ...(entryId ? { entryId } : {}),
+          ...(baseMetrics.averagePieceLengthMm != null
+            ? { averagePieceLengthMm: baseMetrics.averagePieceLengthMm }
+            : {}),
+          ...(baseMetrics.averageCutAngleDeg != null
+            ? { averageCutAngleDeg: baseMetrics.averageCutAngleDeg }
+            : {}),
         });
       } catch (err) {
         const error = err as Error;
         results.push({
-          filename: file.originalname,
+          filename,
           bunchIndex: index,
           averageThicknessMm: null,
           thicknessStdDevMm: null,
@@ -263,8 +627,10 @@ router.post(
       }
     }
 
+    results.sort((a, b) => a.bunchIndex - b.bunchIndex);
+
     const payload: AnalyzeResponse = {
-      analyzedCount: Array.isArray(files) ? files.length : 0,
+      analyzedCount: accepted.length,
       results,
     };
 
@@ -275,35 +641,789 @@ router.post(
   }
 });
 
-router.post('/internal/on-app-install', async (_req, res): Promise<void> => {
-  try {
-    const post = await createPost();
+const parseLimit = (value: unknown, fallback: number, max: number): number => {
+  const parsed = typeof value === 'string' ? parseInt(value, 10) : NaN;
+  if (!Number.isFinite(parsed) || parsed <= 0) return fallback;
+  return Math.min(parsed, max);
+};
 
-    res.json({
-      status: 'success',
-      message: `Post created in subreddit ${context.subredditName} with id ${post.id}`,
-    });
-  } catch (error) {
-    console.error(`Error creating post: ${error}`);
-    res.status(400).json({
-      status: 'error',
-      message: 'Failed to create post',
-    });
+router.get<Record<string, never>, HistoryResponse | { status: string; message: string }>(
+  '/api/history',
+  async (req, res): Promise<void> => {
+    const { userId } = context;
+    if (!userId) {
+      res.status(401).json({ status: 'error', message: 'You must be logged in to view history' });
+      return;
+    }
+
+    const cutStyle = parseCutStyle(req.query.style);
+    if (!cutStyle) {
+      res.status(400).json({ status: 'error', message: invalidCutStyleMessage });
+      return;
+    }
+
+    try {
+      const limit = parseLimit(req.query.limit, 20, 100);
+      const cursor = parseLimit(req.query.cursor, 0, Number.MAX_SAFE_INTEGER);
+      const [page, best] = await Promise.all([
+        getHistory(userId, limit, cursor, cutStyle),
+        getPersonalBest(userId, cutStyle),
+      ]);
+
+      res.json({
+        type: 'history',
+        cutStyle,
+        entries: page.entries,
+        best,
+        nextCursor: page.nextCursor,
+      });
+    } catch (err) {
+      const error = err as Error;
+      console.error('Error fetching history:', error);
+      res.status(500).json({ status: 'error', message: error.message });
+    }
   }
-});
+);
 
-router.post('/internal/menu/post-create', async (_req, res): Promise<void> => {
-  try {
-    const post = await createPost();
+router.get<Record<string, never>, PersonalBestResponse | { status: string; message: string }>(
+  '/api/me/best',
+  async (req, res): Promise<void> => {
+    const { userId } = context;
+    if (!userId) {
+      res.status(401).json({ status: 'error', message: 'You must be logged in to view your best score' });
+      return;
+    }
 
-    res.json({
-      navigateTo: `https://reddit.com/r/${context.subredditName}/comments/${post.id}`,
-    });
-  } catch (error) {
-    console.error(`Error creating post: ${error}`);
-    res.status(400).json({
-      status: 'error',
-      message: 'Failed to create post',
+    const cutStyle = parseCutStyle(req.query.style);
+    if (!cutStyle) {
+      res.status(400).json({ status: 'error', message: invalidCutStyleMessage });
+      return;
+    }
+
+    try {
+      res.json({ type: 'best', cutStyle, best: await getPersonalBest(userId, cutStyle) });
+    } catch (err) {
+      const error = err as Error;
+      console.error('Error fetching personal best:', error);
+      res.status(500).json({ status: 'error', message: error.message });
+    }
+  }
+);
+
+router.get<Record<string, never>, FlairResponse | { status: string; message: string }>(
+  '/api/me/flair',
+  async (_req, res): Promise<void> => {
+    const { userId } = context;
+    if (!userId) {
+      res.status(401).json({ status: 'error', message: 'You must be logged in to view your flair' });
+      return;
+    }
+
+    try {
+      res.json(await getFlairStatus(userId));
+    } catch (err) {
+      const error = err as Error;
+      console.error('Error fetching flair status:', error);
+      res.status(500).json({ status: 'error', message: error.message });
+    }
+  }
+);
+
+// Opt out of (or back into) score flair; body: { optOut: boolean }
+router.post<Record<string, never>, FlairResponse | { status: string; message: string }>(
+  '/api/me/flair',
+  async (req, res): Promise<void> => {
+    const { userId, subredditName } = context;
+    if (!userId || !subredditName) {
+      res.status(401).json({ status: 'error', message: 'You must be logged in to change your flair' });
+      return;
+    }
+
+    const optOut = req.body?.optOut;
+    if (typeof optOut !== 'boolean') {
+      res.status(400).json({ status: 'error', message: 'optOut must be true or false' });
+      return;
+    }
+
+    try {
+      const username = await reddit.getCurrentUsername();
+      if (!username) {
+        res.status(401).json({ status: 'error', message: 'You must be logged in to change your flair' });
+        return;
+      }
+
+      res.json(await setFlairOptOut(userId, username, subredditName, optOut));
+    } catch (err) {
+      const error = err as Error;
+      console.error('Error updating flair preference:', error);
+      res.status(500).json({ status: 'error', message: error.message });
+    }
+  }
+);
+
+router.get<Record<string, never>, ModeratorStatusResponse | { status: string; message: string }>(
+  '/api/me/moderator',
+  async (_req, res): Promise<void> => {
+    try {
+      res.json({ type: 'moderator', isModerator: await isCurrentUserModerator() });
+    } catch (err) {
+      const error = err as Error;
+      console.error('Error checking moderator status:', error);
+      res.status(500).json({ status: 'error', message: error.message });
+    }
+  }
+);
+
+router.get<Record<string, never>, QuotaResponse | { status: string; message: string }>(
+  '/api/me/quota',
+  async (_req, res): Promise<void> => {
+    try {
+      res.json(await getQuotaStatus());
+    } catch (err) {
+      const error = err as Error;
+      console.error('Error fetching quota:', error);
+      res.status(500).json({ status: 'error', message: error.message });
+    }
+  }
+);
+
+// Entries flagged as resubmitted photos, for moderators to review
+router.get<Record<string, never>, DuplicatesResponse | { status: string; message: string }>(
+  '/api/mod/duplicates',
+  async (req, res): Promise<void> => {
+    const { subredditName } = context;
+    if (!subredditName) {
+      res.status(400).json({ status: 'error', message: 'subredditName is missing from context' });
+      return;
+    }
+
+    try {
+      if (!(await isCurrentUserModerator())) {
+        res.status(403).json({ status: 'error', message: 'Only moderators can review duplicates' });
+        return;
+      }
+
+      const page = await getFlaggedDuplicates(
+        subredditName,
+        parseLimit(req.query.limit, 20, 100),
+        parseLimit(req.query.cursor, 0, Number.MAX_SAFE_INTEGER)
+      );
+
+      res.json({ type: 'duplicates', subreddit: subredditName, ...page });
+    } catch (err) {
+      const error = err as Error;
+      console.error('Error fetching duplicates:', error);
+      res.status(500).json({ status: 'error', message: error.message });
+    }
+  }
+);
+
+// Re-score stored entries under the subreddit's current rubric, one page of
+// users per call
+router.post<Record<string, never>, RescoreResponse | { status: string; message: string }>(
+  '/api/mod/rescore',
+  async (req, res): Promise<void> => {
+    try {
+      if (!(await isCurrentUserModerator())) {
+        res.status(403).json({ status: 'error', message: 'Only moderators can re-score entries' });
+        return;
+      }
+
+      const cursor = parseLimit(req.query.cursor, 0, Number.MAX_SAFE_INTEGER);
+      res.json(await rescoreHistory(await getScoringRubric(), cursor));
+    } catch (err) {
+      const error = err as Error;
+      console.error('Error re-scoring entries:', error);
+      res.status(500).json({ status: 'error', message: error.message });
+    }
+  }
+);
+
+// Queue health, failures, recent submissions and bans, for moderators
+router.get<Record<string, never>, OpsResponse | { status: string; message: string }>(
+  '/api/mod/ops',
+  async (_req, res): Promise<void> => {
+    try {
+      if (!(await isCurrentUserModerator())) {
+        res.status(403).json({ status: 'error', message: 'Only moderators can view the ops dashboard' });
+        return;
+      }
+
+      res.json(await getOpsOverview());
+    } catch (err) {
+      const error = err as Error;
+      console.error('Error fetching ops overview:', error);
+      res.status(500).json({ status: 'error', message: error.message });
+    }
+  }
+);
+
+// Model token usage and estimated spend against the monthly budget, for moderators
+router.get<Record<string, never>, UsageResponse | { status: string; message: string }>(
+  '/api/mod/usage',
+  async (_req, res): Promise<void> => {
+    try {
+      if (!(await isCurrentUserModerator())) {
+        res.status(403).json({ status: 'error', message: 'Only moderators can view model usage' });
+        return;
+      }
+
+      const { subredditName } = context;
+      if (!subredditName) {
+        res.status(400).json({ status: 'error', message: 'subredditName is missing from context' });
+        return;
+      }
+
+      res.json(await getUsageReport(subredditName));
+    } catch (err) {
+      const error = err as Error;
+      console.error('Error fetching model usage:', error);
+      res.status(500).json({ status: 'error', message: error.message });
+    }
+  }
+);
+
+// Run a job that failed for good again from its first attempt
+router.post<{ jobId: string }, OpsActionResponse | { status: string; message: string }>(
+  '/api/mod/ops/jobs/:jobId/requeue',
+  async (req, res): Promise<void> => {
+    try {
+      if (!(await isCurrentUserModerator())) {
+        res.status(403).json({ status: 'error', message: 'Only moderators can requeue jobs' });
+        return;
+      }
+
+      const failed = await getFailedJob(req.params.jobId);
+      if (!failed) {
+        res.status(404).json({ status: 'error', message: 'Failed job not found' });
+        return;
+      }
+
+      const { error: _error, failedAt: _failedAt, ...job } = failed;
+      await publishJobUpdate(await requeueJob(job));
+      await startJobEventRelay();
+      res.json({ type: 'ops_action', message: `Requeued ${job.filename || job.jobId}` });
+    } catch (err) {
+      const error = err as Error;
+      console.error('Error requeueing job:', error);
+      res.status(500).json({ status: 'error', message: error.message });
+    }
+  }
+);
+
+// Give up on in-flight jobs that no worker has recovered
+router.post<Record<string, never>, OpsActionResponse | { status: string; message: string }>(
+  '/api/mod/ops/purge-stuck',
+  async (_req, res): Promise<void> => {
+    try {
+      if (!(await isCurrentUserModerator())) {
+        res.status(403).json({ status: 'error', message: 'Only moderators can purge jobs' });
+        return;
+      }
+
+      const jobIds = await getStuckJobIds();
+      for (const jobId of jobIds) {
+        const job = await purgeJob(jobId);
+        if (job) await publishJobUpdate({ ...job, status: 'cancelled' });
+      }
+      res.json({ type: 'ops_action', message: `Purged ${jobIds.length} stuck job(s)` });
+    } catch (err) {
+      const error = err as Error;
+      console.error('Error purging stuck jobs:', error);
+      res.status(500).json({ status: 'error', message: error.message });
+    }
+  }
+);
+
+// Hide an entry from the leaderboards, or show it again; body: { hidden: boolean }
+router.post<{ entryId: string }, OpsActionResponse | { status: string; message: string }>(
+  '/api/mod/ops/entries/:entryId/hidden',
+  async (req, res): Promise<void> => {
+    const hidden = req.body?.hidden;
+    if (typeof hidden !== 'boolean') {
+      res.status(400).json({ status: 'error', message: 'hidden must be true or false' });
+      return;
+    }
+
+    try {
+      if (!(await isCurrentUserModerator())) {
+        res.status(403).json({ status: 'error', message: 'Only moderators can hide submissions' });
+        return;
+      }
+
+      const entry = await setEntryHidden(req.params.entryId, hidden);
+      if (!entry) {
+        res.status(404).json({ status: 'error', message: 'Entry not found' });
+        return;
+      }
+
+      res.json({
+        type: 'ops_action',
+        message: hidden
+          ? `Hid u/${entry.username}'s submission from the leaderboards`
+          : `Restored u/${entry.username}'s submission to the leaderboards`,
+      });
+    } catch (err) {
+      const error = err as Error;
+      console.error('Error hiding entry:', error);
+      res.status(500).json({ status: 'error', message: error.message });
+    }
+  }
+);
+
+// Stop a user from submitting photos; body: { userId, username }
+router.post<Record<string, never>, OpsActionResponse | { status: string; message: string }>(
+  '/api/mod/ops/bans',
+  async (req, res): Promise<void> => {
+    const { userId, username } = req.body ?? {};
+    if (typeof userId !== 'string' || !userId || typeof username !== 'string' || !username) {
+      res.status(400).json({ status: 'error', message: 'userId and username are required' });
+      return;
+    }
+
+    try {
+      if (!(await isCurrentUserModerator())) {
+        res.status(403).json({ status: 'error', message: 'Only moderators can ban submitters' });
+        return;
+      }
+
+      await banSubmitter({
+        userId,
+        username,
+        bannedAt: Date.now(),
+        bannedBy: (await reddit.getCurrentUsername()) ?? 'unknown',
+      });
+      res.json({ type: 'ops_action', message: `u/${username} can no longer submit photos` });
+    } catch (err) {
+      const error = err as Error;
+      console.error('Error banning submitter:', error);
+      res.status(500).json({ status: 'error', message: error.message });
+    }
+  }
+);
+
+router.delete<{ userId: string }, OpsActionResponse | { status: string; message: string }>(
+  '/api/mod/ops/bans/:userId',
+  async (req, res): Promise<void> => {
+    try {
+      if (!(await isCurrentUserModerator())) {
+        res.status(403).json({ status: 'error', message: 'Only moderators can lift bans' });
+        return;
+      }
+
+      if (!(await unbanSubmitter(req.params.userId))) {
+        res.status(404).json({ status: 'error', message: 'User is not banned' });
+        return;
+      }
+      res.json({ type: 'ops_action', message: 'Ban lifted' });
+    } catch (err) {
+      const error = err as Error;
+      console.error('Error lifting ban:', error);
+      res.status(500).json({ status: 'error', message: error.message });
+    }
+  }
+);
+
+router.get<Record<string, never>, LeaderboardResponse | { status: string; message: string }>(
+  '/api/leaderboard',
+  async (req, res): Promise<void> => {
+    const scope = (req.query.scope ?? 'post') as LeaderboardScope;
+    const window = (req.query.window ?? 'daily') as LeaderboardWindow;
+
+    if (!LEADERBOARD_SCOPES.includes(scope) || !LEADERBOARD_WINDOWS.includes(window)) {
+      res.status(400).json({ status: 'error', message: 'Invalid leaderboard scope or window' });
+      return;
+    }
+
+    const cutStyle = parseCutStyle(req.query.style);
+    if (!cutStyle) {
+      res.status(400).json({ status: 'error', message: invalidCutStyleMessage });
+      return;
+    }
+
+    const scopeId = scope === 'post' ? context.postId : context.subredditName;
+    if (!scopeId) {
+      res.status(400).json({ status: 'error', message: `${scope} is missing from context` });
+      return;
+    }
+
+    try {
+      const page = await getLeaderboard({
+        scope,
+        scopeId,
+        window,
+        cutStyle,
+        limit: parseLimit(req.query.limit, 10, 100),
+        cursor: parseLimit(req.query.cursor, 0, Number.MAX_SAFE_INTEGER),
+        userId: context.userId,
+      });
+
+      res.json({ type: 'leaderboard', scope, window, cutStyle, ...page });
+    } catch (err) {
+      const error = err as Error;
+      console.error('Error fetching leaderboard:', error);
+      res.status(500).json({ status: 'error', message: error.message });
+    }
+  }
+);
+
+// Submissions ranked by community votes instead of the AI's score
+router.get<Record<string, never>, PeoplesChoiceResponse | { status: string; message: string }>(
+  '/api/leaderboard/peoples-choice',
+  async (req, res): Promise<void> => {
+    const scope = (req.query.scope ?? 'post') as PeoplesChoiceScope;
+    if (!PEOPLES_CHOICE_SCOPES.includes(scope)) {
+      res.status(400).json({ status: 'error', message: 'Invalid people\'s choice scope' });
+      return;
+    }
+
+    const scopeId = scope === 'post' ? context.postId : context.subredditName;
+    if (!scopeId) {
+      res.status(400).json({ status: 'error', message: `${scope} is missing from context` });
+      return;
+    }
+
+    try {
+      const page = await getPeoplesChoice({
+        scope,
+        scopeId,
+        limit: parseLimit(req.query.limit, 10, 100),
+        cursor: parseLimit(req.query.cursor, 0, Number.MAX_SAFE_INTEGER),
+        userId: context.userId,
+      });
+
+      res.json({ type: 'peoples_choice', scope, ...page });
+    } catch (err) {
+      const error = err as Error;
+      console.error('Error fetching people\'s choice:', error);
+      res.status(500).json({ status: 'error', message: error.message });
+    }
+  }
+);
+
+// The current post's gallery of other players' submissions
+router.get<Record<string, never>, SubmissionsResponse | { status: string; message: string }>(
+  '/api/submissions',
+  async (req, res): Promise<void> => {
+    const sort = (req.query.sort ?? 'newest') as SubmissionSort;
+    if (!SUBMISSION_SORTS.includes(sort)) {
+      res.status(400).json({ status: 'error', message: 'Invalid submission sort' });
+      return;
+    }
+
+    const { postId } = context;
+    if (!postId) {
+      res.status(400).json({ status: 'error', message: 'postId is missing from context' });
+      return;
+    }
+
+    try {
+      const page = await getSubmissions({
+        postId,
+        sort,
+        limit: parseLimit(req.query.limit, 12, 50),
+        cursor: parseLimit(req.query.cursor, 0, Number.MAX_SAFE_INTEGER),
+      });
+      const votes = await getCommunityVotes(page.entries, context.userId);
+
+      res.json({
+        type: 'submissions',
+        sort,
+        entries: page.entries.flatMap((entry, i) => {
+          const entryVotes = votes[i];
+          return entryVotes ? [toSubmission(entry, entryVotes)] : [];
+        }),
+        total: page.total,
+        nextCursor: page.nextCursor,
+      });
+    } catch (err) {
+      const error = err as Error;
+      console.error('Error fetching submissions:', error);
+      res.status(500).json({ status: 'error', message: error.message });
+    }
+  }
+);
+
+router.get<Record<string, never>, ChallengeResponse | { status: string; message: string }>(
+  '/api/challenge',
+  async (_req, res): Promise<void> => {
+    try {
+      const [challenge, latest] = await Promise.all([
+        context.postId ? getChallengeForPost(context.postId) : Promise.resolve(null),
+        getLatestChallenge(),
+      ]);
+
+      res.json({
+        type: 'challenge',
+        challenge,
+        isOpen: challenge ? await isChallengeOpen(challenge) : false,
+        latest,
+      });
+    } catch (err) {
+      const error = err as Error;
+      console.error('Error fetching challenge:', error);
+      res.status(500).json({ status: 'error', message: error.message });
+    }
+  }
+);
+
+/**
+ * Loads an entry of the current user for the scorecard routes, answering
+ * 401/404/403 itself and returning null when the request can't go on.
+ */
+const getOwnEntry = async (
+  entryId: string,
+  res: Response<ScorecardResponse | { status: string; message: string }>
+): Promise<HistoryEntry | null> => {
+  const { userId } = context;
+  if (!userId) {
+    res.status(401).json({ status: 'error', message: 'You must be logged in to share a scorecard' });
+    return null;
+  }
+
+  const entry = await getHistoryEntry(entryId);
+  if (!entry) {
+    res.status(404).json({ status: 'error', message: 'Entry not found' });
+    return null;
+  }
+  if (entry.userId !== userId) {
+    res.status(403).json({ status: 'error', message: 'Only the submitter can share this entry' });
+    return null;
+  }
+  return entry;
+};
+
+router.get<{ entryId: string }, ScorecardResponse | { status: string; message: string }>(
+  '/api/entries/:entryId/scorecard',
+  async (req, res): Promise<void> => {
+    try {
+      const { entryId } = req.params;
+      res.json({ type: 'scorecard', entryId, scorecard: await getScorecard(entryId) });
+    } catch (err) {
+      const error = err as Error;
+      console.error('Error fetching scorecard:', error);
+      res.status(500).json({ status: 'error', message: error.message });
+    }
+  }
+);
+
+// Post an entry's scorecard as a comment on the current post
+router.post<{ entryId: string }, ScorecardResponse | { status: string; message: string }>(
+  '/api/entries/:entryId/scorecard',
+  async (req, res): Promise<void> => {
+    const { postId } = context;
+    if (!postId) {
+      res.status(400).json({ status: 'error', message: 'postId is missing from context' });
+      return;
+    }
+
+    try {
+      const entry = await getOwnEntry(req.params.entryId, res);
+      if (!entry) return;
+
+      const shared = await shareScorecard(entry, postId);
+      if (!shared.ok) {
+        const retryAfterSeconds = Math.max(1, Math.ceil((shared.retryAt - Date.now()) / 1000));
+        res
+          .status(429)
+          .set('Retry-After', String(retryAfterSeconds))
+          .json({
+            status: 'error',
+            message: `You can share another scorecard in ${Math.ceil(retryAfterSeconds / 60)} min`,
+          });
+        return;
+      }
+
+      res.json({ type: 'scorecard', entryId: entry.id, scorecard: shared.scorecard });
+    } catch (err) {
+      const error = err as Error;
+      console.error('Error sharing scorecard:', error);
+      res.status(500).json({ status: 'error', message: error.message });
+    }
+  }
+);
+
+// Delete the comment posted for an entry
+router.delete<{ entryId: string }, ScorecardResponse | { status: string; message: string }>(
+  '/api/entries/:entryId/scorecard',
+  async (req, res): Promise<void> => {
+    try {
+      const entry = await getOwnEntry(req.params.entryId, res);
+      if (!entry) return;
+
+      if (!(await deleteScorecard(entry))) {
+        res.status(404).json({ status: 'error', message: 'This entry has not been shared' });
+        return;
+      }
+
+      res.json({ type: 'scorecard', entryId: entry.id, scorecard: null });
+    } catch (err) {
+      const error = err as Error;
+      console.error('Error deleting scorecard:', error);
+      res.status(500).json({ status: 'error', message: error.message });
+    }
+  }
+);
+
+// Community votes on up to 50 entries; query: entryIds=a,b,c
+router.get<Record<string, never>, VotesResponse | { status: string; message: string }>(
+  '/api/votes',
+  async (req, res): Promise<void> => {
+    const raw = typeof req.query.entryIds === 'string' ? req.query.entryIds : '';
+    const entryIds = [...new Set(raw.split(',').filter(Boolean))].slice(0, 50);
+
+    try {
+      const entries = (await Promise.all(entryIds.map((id) => getHistoryEntry(id)))).filter(
+        (entry): entry is HistoryEntry => entry !== null
+      );
+      res.json({ type: 'votes', votes: await getCommunityVotes(entries, context.userId) });
+    } catch (err) {
+      const error = err as Error;
+      console.error('Error fetching votes:', error);
+      res.status(500).json({ status: 'error', message: error.message });
+    }
+  }
+);
+
+// Vote on someone else's entry; body: { vote: 1 | -1 | 0 }, where 0 takes it back
+router.post<{ entryId: string }, VotesResponse | { status: string; message: string }>(
+  '/api/entries/:entryId/vote',
+  async (req, res): Promise<void> => {
+    const { userId } = context;
+    if (!userId) {
+      res.status(401).json({ status: 'error', message: 'You must be logged in to vote' });
+      return;
+    }
+
+    const vote = req.body?.vote as VoteValue;
+    if (vote !== 1 && vote !== -1 && vote !== 0) {
+      res.status(400).json({ status: 'error', message: 'vote must be 1, -1 or 0' });
+      return;
+    }
+
+    try {
+      const entry = await getHistoryEntry(req.params.entryId);
+      if (!entry) {
+        res.status(404).json({ status: 'error', message: 'Entry not found' });
+        return;
+      }
+      if (entry.userId === userId) {
+        res.status(403).json({ status: 'error', message: 'You can\'t vote on your own submission' });
+        return;
+      }
+      if (entry.hidden || entry.duplicateOf) {
+        res.status(403).json({ status: 'error', message: 'This submission is not open for votes' });
+        return;
+      }
+
+      res.json({ type: 'votes', votes: [await castVote(entry, userId, vote)] });
+    } catch (err) {
+      const error = err as Error;
+      console.error('Error recording vote:', error);
+      res.status(500).json({ status: 'error', message: error.message });
+    }
+  }
+);
+
+router.post('/internal/scheduler/daily-challenge', async (_req, res): Promise<void> => {
+  try {
+    const challenge = await runDailyChallenge();
+    if (challenge) {
+      console.log(`Posted daily challenge ${challenge.date} as ${challenge.postId}`);
+    }
+    res.json({ status: 'success' });
+  } catch (error) {
+    console.error(`Error running daily challenge: ${error}`);
+    res.status(400).json({
+      status: 'error',
+      message: 'Failed to run daily challenge',
+    });
+  }
+});
+
+// Adds entries from before the galleries and people's-choice boards to them,
+// a page of users a minute; a no-op once that's done.
+router.post('/internal/scheduler/backfill-submissions', async (_req, res): Promise<void> => {
+  try {
+    const synced = await backfillSubmissions();
+    if (synced) console.log(`Backfilled ${synced} submission(s)`);
+    res.json({ status: 'success' });
+  } catch (error) {
+    console.error(`Error backfilling submissions: ${error}`);
+    res.status(400).json({
+      status: 'error',
+      message: 'Failed to backfill submissions',
+    });
+  }
+});
+
+// Relays worker job events to clients over realtime. Started when jobs are
+// queued (the `job-events-now` task) and every minute as a safety net.
+router.post('/internal/scheduler/job-events', async (_req, res): Promise<void> => {
+  try {
+    await runJobEventRelay();
+    res.json({ status: 'success' });
+  } catch (error) {
+    console.error(`Error relaying job events: ${error}`);
+    res.status(400).json({
+      status: 'error',
+      message: 'Failed to relay job events',
+    });
+  }
+});
+
+router.post('/internal/on-app-install', async (_req, res): Promise<void> => {
+  try {
+    const post = await createPost();
+
+    res.json({
+      status: 'success',
+      message: `Post created in subreddit ${context.subredditName} with id ${post.id}`,
+    });
+  } catch (error) {
+    console.error(`Error creating post: ${error}`);
+    res.status(400).json({
+      status: 'error',
+      message: 'Failed to create post',
+    });
+  }
+});
+
+router.post('/internal/menu/post-create', async (_req, res): Promise<void> => {
+  try {
+    const post = await createPost();
+
+    res.json({
+      navigateTo: `https://reddit.com/r/${context.subredditName}/comments/${post.id}`,
+    });
+  } catch (error) {
+    console.error(`Error creating post: ${error}`);
+    res.status(400).json({
+      status: 'error',
+      message: 'Failed to create post',
+    });
+  }
+});
+
+// Takes the moderator to the ops dashboard, which lives in the Mod tools tab
+// of every chiveit post; only moderators see that tab.
+router.post('/internal/menu/ops-dashboard', async (_req, res): Promise<void> => {
+  try {
+    const postId = await getLatestPostId();
+    if (!postId) {
+      res.json({ showToast: 'Create a chiveit post first; its Mod tools tab has the ops dashboard.' });
+      return;
+    }
+
+    res.json({
+      navigateTo: `https://reddit.com/r/${context.subredditName}/comments/${postId}`,
+      showToast: 'Open the Mod tools tab for the ops dashboard.',
+    });
+  } catch (error) {
+    console.error(`Error opening ops dashboard: ${error}`);
+    res.status(400).json({
+      status: 'error',
+      message: 'Failed to open the ops dashboard',
     });
   }
 });
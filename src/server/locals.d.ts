@@ -0,0 +1,23 @@
+import type { ConsensusSettings } from './core/consensus';
+import type { UploadLimits } from './core/uploads';
+import type { ScoringRubric } from './domain/scoring';
+import type { VisionProvider, VisionProviderName } from './services/visionProvider';
+
+// What the analyze routes' first middleware resolves while the Devvit request
+// context is intact, for the handlers after multer to read.
+declare global {
+  namespace Express {
+    interface Locals {
+      uploadLimits: UploadLimits;
+      resultCacheTtl: number | null;
+      rubric: ScoringRubric;
+      consensus: ConsensusSettings;
+      /** /api/analyze-async only: the worker holds the credentials, so just the name is queued. */
+      visionProviderName?: VisionProviderName;
+      /** /api/analyze only. */
+      visionProvider?: VisionProvider;
+    }
+  }
+}
+
+export {};
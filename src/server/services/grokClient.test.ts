@@ -0,0 +1,138 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+// @ts-expect-error -- plain JS, deployed on its own.
+import cloudflareWorker from '../../../cloudflare-worker.js';
+// @ts-expect-error -- plain JS, deployed on its own.
+import { toAllowedRequest, verifyRequest } from '../../../proxy-server.js';
+import { buildChiveChatRequest } from './chivePrompt';
+import { signProxyRequest } from './grokClient';
+
+vi.mock('@devvit/web/server', () => ({ settings: { get: vi.fn() } }));
+
+const SECRET = 'test-proxy-secret';
+const NOW = Date.UTC(2026, 0, 1);
+
+// What the app sends the proxy for one photo.
+const analysisBody = JSON.stringify(
+  buildChiveChatRequest(
+    'grok-4-fast',
+    Buffer.from('not really a jpeg'),
+    'image/jpeg',
+    'fine',
+    'none'
+  )
+);
+
+/** An Express-like request as the Node proxy sees it after `express.raw`. */
+const expressRequest = (headers: Record<string, string>, body = analysisBody) => ({
+  get: (name: string) =>
+    Object.entries(headers).find(([key]) => key.toLowerCase() === name.toLowerCase())?.[1],
+  body: Buffer.from(body),
+});
+
+describe('signProxyRequest', () => {
+  it('signs the timestamp, nonce and body', () => {
+    const headers = signProxyRequest(SECRET, analysisBody, NOW);
+
+    expect(headers['X-Chiveit-Timestamp']).toBe(String(NOW / 1000));
+    expect(headers['X-Chiveit-Nonce']).toMatch(/^[0-9a-f-]{36}$/);
+    expect(headers['X-Chiveit-Signature']).toMatch(/^[0-9a-f]{64}$/);
+    expect(signProxyRequest(SECRET, analysisBody, NOW)['X-Chiveit-Nonce']).not.toBe(
+      headers['X-Chiveit-Nonce']
+    );
+  });
+});
+
+describe('proxy-server.js verifyRequest', () => {
+  it('accepts a signed request once', () => {
+    const req = expressRequest(signProxyRequest(SECRET, analysisBody, NOW));
+
+    expect(verifyRequest(req, SECRET, NOW)).toBeNull();
+    expect(verifyRequest(req, SECRET, NOW + 1000)).toBe('Replayed request');
+  });
+
+  it('rejects unsigned requests', () => {
+    expect(verifyRequest(expressRequest({}), SECRET, NOW)).toBe('Missing signature');
+  });
+
+  it('rejects stale timestamps', () => {
+    const req = expressRequest(signProxyRequest(SECRET, analysisBody, NOW - 10 * 60 * 1000));
+
+    expect(verifyRequest(req, SECRET, NOW)).toBe('Stale or invalid timestamp');
+  });
+
+  it('rejects a tampered body or the wrong secret', () => {
+    const headers = signProxyRequest(SECRET, analysisBody, NOW);
+
+    expect(verifyRequest(expressRequest(headers, `${analysisBody} `), SECRET, NOW)).toBe(
+      'Invalid signature'
+    );
+    expect(verifyRequest(expressRequest(headers), 'another-secret', NOW)).toBe('Invalid signature');
+  });
+});
+
+describe('proxy-server.js toAllowedRequest', () => {
+  it("passes the app's analysis request", () => {
+    expect(toAllowedRequest(JSON.parse(analysisBody))).toMatchObject({ model: 'grok-4-fast' });
+  });
+
+  it('refuses other models and general chat', () => {
+    expect(toAllowedRequest({ ...JSON.parse(analysisBody), model: 'grok-4' })).toBeNull();
+    expect(
+      toAllowedRequest({ model: 'grok-4-fast', messages: [{ role: 'user', content: 'Hi' }] })
+    ).toBeNull();
+  });
+});
+
+describe('cloudflare-worker.js', () => {
+  const env = { XAI_API_KEY: 'xai-key', PROXY_SECRET: SECRET };
+
+  const post = (headers: Record<string, string>, body = analysisBody) =>
+    cloudflareWorker.fetch(
+      new Request('https://proxy.example/', { method: 'POST', headers, body }),
+      env
+    ) as Promise<Response>;
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('forwards a signed analysis request to xAI', async () => {
+    const upstream = vi.fn(async () => Response.json({ choices: [] }));
+    vi.stubGlobal('fetch', upstream);
+
+    const res = await post(signProxyRequest(SECRET, analysisBody));
+
+    expect(res.status).toBe(200);
+    expect(upstream).toHaveBeenCalledOnce();
+    expect(upstream).toHaveBeenCalledWith(
+      'https://api.x.ai/v1/chat/completions',
+      expect.objectContaining({
+        headers: expect.objectContaining({ Authorization: 'Bearer xai-key' }),
+      })
+    );
+  });
+
+  it('rejects unsigned, replayed and tampered requests without calling xAI', async () => {
+    const upstream = vi.fn(async () => Response.json({ choices: [] }));
+    vi.stubGlobal('fetch', upstream);
+    const headers = signProxyRequest(SECRET, analysisBody);
+
+    expect((await post({})).status).toBe(401);
+    expect((await post(headers, `${analysisBody} `)).status).toBe(401);
+    expect((await post(headers)).status).toBe(200);
+    expect(await (await post(headers)).json()).toEqual({ error: 'Replayed request' });
+    expect(upstream).toHaveBeenCalledOnce();
+  });
+
+  it('refuses signed requests that are not chive analyses', async () => {
+    vi.stubGlobal('fetch', vi.fn());
+    const body = JSON.stringify({
+      model: 'grok-4-fast',
+      messages: [{ role: 'user', content: 'Hi' }],
+    });
+
+    const res = await post(signProxyRequest(SECRET, body), body);
+
+    expect(res.status).toBe(400);
+  });
+});
@@ -1,5 +1,13 @@
+import crypto from 'crypto';
 import { settings } from '@devvit/web/server';
-import type { BaseChiveMetrics, RegionMetrics } from '../domain/scoring';
+import { DEFAULT_REFERENCE, type ReferenceObject } from '../domain/calibration';
+import { DEFAULT_CUT_STYLE, type CutStyle } from '../domain/cutStyles';
+import type { BaseChiveMetrics } from '../domain/scoring';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleClient';
+import type { UsageListener, VisionProvider } from './visionProvider';
+
+const XAI_CHAT_COMPLETIONS_URL = 'https://api.x.ai/v1/chat/completions';
+const XAI_MODEL = 'grok-4-fast';
 
 // Exported so we can resolve the key *before* certain middleware
 // (e.g. multer) potentially interferes with Devvit's request context.
@@ -16,139 +24,85 @@ export async function getXaiApiKey(): Promise<string> {
   throw new Error('XAI API key is not configured');
 }
 
-export async function analyzeChiveImageWithGrok(
-  buffer: Buffer,
-  mimeType: string,
-  XAI_API_KEY: string,
-  PROXY_URL?: string
-): Promise<BaseChiveMetrics> {
-  const base64 = buffer.toString('base64');
-  const dataUrl = `data:${mimeType};base64,${base64}`;
-
-  const apiUrl = PROXY_URL || 'https://api.x.ai/v1/chat/completions';
-
-  const requestBody = {
-    model: 'grok-4-fast',
-    temperature: 0.2,
-    response_format: { type: 'json_object' },
-    messages: [
-        {
-          role: 'system',
-          content:
-            'You are an expert chef and knife skills instructor evaluating photos of cut chives. ' +
-            'You must estimate chive thickness and cut quality and respond ONLY as JSON.',
-        },
-        {
-          role: 'user',
-          content: [
-            {
-              type: 'text',
-              text:
-                'Examine this image of cut chives. ' +
-                '1) Divide the image into a 3×3 grid of regions, indexed row-major as r1c1, r1c2, r1c3, r2c1, r2c2, r2c3, r3c1, r3c2, r3c3. ' +
-                '2) For each region, detect the chive pieces that are visible in that region and estimate: ' +
-                '   regionAverageThicknessMm (average thickness of chive pieces in that region, in millimetres), ' +
-                '   regionThicknessStdDevMm (standard deviation of thickness in that region, in millimetres), and ' +
-                '   regionCutQualityLabel (one of "clean", "mixed", "ragged", or "no_chives"). Use "no_chives" whenever there are only a few stray pieces or effectively no dense cluster of chives in that region. ' +
-                '3) Using all regions together, compute overall image-level metrics: ' +
-                '   averageThicknessMm (overall average thickness across all regions that contain chives), ' +
-                '   thicknessStdDevMm (overall standard deviation of thickness), and ' +
-                '   cutQualityLabel (one of "clean", "mixed", or "ragged" for overall cut quality). ' +
-                '   When estimating millimetres, assume typical grocery-store chives and use your best judgement; do not leave fields blank just because the scale is approximate. If the entire image lacks any finely bunched group of chopped chives (for example, only a single stray chive is present), then set averageThicknessMm to 0, thicknessStdDevMm to 0, cutQualityLabel to "unknown", and explain in rawNotes that there are not enough chives to score. ' +
-                '4) Provide a short explanation of what you see about the cuts and consistency. ' +
-                'Respond ONLY as a single JSON object in valid JSON syntax (no markdown, no extra prose) with this exact shape: ' +
-                '{ "averageThicknessMm": number, "thicknessStdDevMm": number, "cutQualityLabel": "clean" | "mixed" | "ragged" | "unknown", "regions": [ { "id": "r1c1", "regionAverageThicknessMm": number, "regionThicknessStdDevMm": number, "regionCutQualityLabel": "clean" | "mixed" | "ragged" | "no_chives" } ], "rawNotes": string }. ' +
-                'The "regions" array MUST contain exactly 9 objects, one for each of: r1c1, r1c2, r1c3, r2c1, r2c2, r2c3, r3c1, r3c2, r3c3. ' +
-                'All numeric fields must be finite numbers (use approximate values if necessary, never null or undefined).',
-            },
-            {
-              type: 'image_url',
-              image_url: {
-                url: dataUrl,
-              },
-            },
-          ],
-        },
-      ],
-  };
-
-  // Different headers for proxy vs direct API call
-  const headers: Record<string, string> = {
-    'Content-Type': 'application/json',
-  };
-
-  // Only add Authorization header for direct X.AI API calls
-  // Proxy server handles auth with its own env variable
-  if (!PROXY_URL) {
-    headers['Authorization'] = `Bearer ${XAI_API_KEY}`;
-  }
-
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), 60000); // 60s timeout
+export async function getXaiProxyUrl(): Promise<string | undefined> {
+  const fromEnv = process.env.XAI_PROXY_URL;
+  if (fromEnv && fromEnv.length > 0) return fromEnv;
 
-  try {
-    const response = await fetch(apiUrl, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(requestBody),
-      signal: controller.signal,
-    });
-    clearTimeout(timeout);
+  const fromSettings = (await settings.get('XAI_PROXY_URL')) as string | undefined;
+  if (fromSettings && fromSettings.length > 0) return fromSettings;
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`X.AI API request failed: ${response.status} ${response.statusText} - ${errorText}`);
-    }
+  return undefined;
+}
 
-    const data = await response.json();
-    const content = data?.choices?.[0]?.message?.content;
-    if (!content) {
-      throw new Error('No content returned from Grok');
-    }
+// The proxies (proxy-server.js, cloudflare-worker.js) hold the real xAI key,
+// so they only forward requests signed with this shared secret.
+export async function getXaiProxySecret(): Promise<string> {
+  const fromEnv = process.env.XAI_PROXY_SECRET;
+  if (fromEnv && fromEnv.length > 0) return fromEnv;
 
-    let jsonText: string;
-    if (typeof content === 'string') {
-      jsonText = content;
-    } else if (Array.isArray(content)) {
-      jsonText = content
-        .map((part) => {
-          if (typeof part === 'string') return part;
-          if (typeof part === 'object' && part !== null) {
-            return (part as any).text || (part as any).content || '';
-          }
-          return '';
-        })
-        .join('\n');
-    } else if (typeof content === 'object' && content !== null) {
-      jsonText = (content as any).text || (content as any).content || JSON.stringify(content);
-    } else {
-      throw new Error('Unsupported Grok content format');
-    }
+  const fromSettings = (await settings.get('XAI_PROXY_SECRET')) as string | undefined;
+  if (fromSettings && fromSettings.length > 0) return fromSettings;
 
-    const match = jsonText.match(/\{[\s\S]*\}/);
-    if (!match) {
-      throw new Error('No JSON object found in Grok response');
-    }
+  throw new Error('XAI_PROXY_SECRET is required when XAI_PROXY_URL is set');
+}
 
-    const parsed = JSON.parse(match[0]) as {
-      averageThicknessMm?: number;
-      thicknessStdDevMm?: number;
-      cutQualityLabel?: string;
-      rawNotes?: string;
-      regions?: RegionMetrics[];
-    };
+/**
+ * Headers proving a proxy request came from this app: an HMAC-SHA256 of the
+ * timestamp, a one-off nonce and the exact body. The proxies reject stale
+ * timestamps and nonces they have already seen.
+ */
+export function signProxyRequest(
+  secret: string,
+  body: string,
+  now = Date.now()
+): Record<string, string> {
+  const timestamp = String(Math.floor(now / 1000));
+  const nonce = crypto.randomUUID();
+  const signature = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${nonce}.${body}`)
+    .digest('hex');
+
+  return {
+    'X-Chiveit-Timestamp': timestamp,
+    'X-Chiveit-Nonce': nonce,
+    'X-Chiveit-Signature': signature,
+  };
+}
 
-    const base: BaseChiveMetrics = {
-      averageThicknessMm: parsed.averageThicknessMm ?? null,
-      thicknessStdDevMm: parsed.thicknessStdDevMm ?? null,
-      cutQualityLabel: (parsed.cutQualityLabel as BaseChiveMetrics['cutQualityLabel']) ?? 'unknown',
-      rawNotes: parsed.rawNotes || '',
-      regions: Array.isArray(parsed.regions) ? parsed.regions : [],
-    };
+export function createXaiProvider(
+  XAI_API_KEY: string,
+  PROXY_URL?: string,
+  onUsage?: UsageListener,
+  PROXY_SECRET?: string
+): VisionProvider {
+  return createOpenAiCompatibleProvider({
+    name: 'xai',
+    label: 'X.AI API',
+    model: XAI_MODEL,
+    apiUrl: PROXY_URL || XAI_CHAT_COMPLETIONS_URL,
+    // Only send the key on direct X.AI API calls; the proxy server holds its
+    // own key and instead checks that each request is signed.
+    apiKey: PROXY_URL ? undefined : XAI_API_KEY,
+    signRequest:
+      PROXY_URL && PROXY_SECRET ? (body) => signProxyRequest(PROXY_SECRET, body) : undefined,
+    onUsage,
+  });
+}
 
-    return base;
-  } catch (error) {
-    clearTimeout(timeout);
-    throw error;
-  }
+export async function analyzeChiveImageWithGrok(
+  buffer: Buffer,
+  mimeType: string,
+  XAI_API_KEY: string,
+  PROXY_URL?: string,
+  style: CutStyle = DEFAULT_CUT_STYLE,
+  reference: ReferenceObject = DEFAULT_REFERENCE,
+  PROXY_SECRET?: string
+): Promise<BaseChiveMetrics> {
+  return createXaiProvider(XAI_API_KEY, PROXY_URL, undefined, PROXY_SECRET).analyze(
+    buffer,
+    mimeType,
+    style,
+    reference
+  );
 }
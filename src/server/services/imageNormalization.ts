@@ -0,0 +1,101 @@
+import { decode as decodeWebp } from '@cwasm/webp';
+import decodeHeic from 'heic-decode';
+import { Jimp } from 'jimp';
+
+export type NormalizeOptions = {
+  /** Longest edge of the output, in pixels. Smaller images are not enlarged. */
+  maxEdgePx: number;
+  /** JPEG quality, 1-100. */
+  jpegQuality: number;
+};
+
+export type NormalizedImage = {
+  buffer: Buffer;
+  mimeType: 'image/jpeg';
+  width: number;
+  height: number;
+  /** 64-bit DCT perceptual hash as 16 hex digits; see `hammingDistance`. */
+  perceptualHash: string;
+};
+
+/** Thrown when an upload can't be decoded as a supported image. */
+export class UnreadableImage extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnreadableImage';
+  }
+}
+
+// ISO-BMFF brands used by HEIC/HEIF stills from phones.
+const HEIF_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+
+const isHeif = (buffer: Buffer) =>
+  buffer.length > 12 &&
+  buffer.toString('ascii', 4, 8) === 'ftyp' &&
+  HEIF_BRANDS.includes(buffer.toString('ascii', 8, 12));
+
+const isWebp = (buffer: Buffer) =>
+  buffer.length > 12 &&
+  buffer.toString('ascii', 0, 4) === 'RIFF' &&
+  buffer.toString('ascii', 8, 12) === 'WEBP';
+
+type DecodedImage = Awaited<ReturnType<typeof Jimp.fromBuffer>>;
+
+const decode = async (buffer: Buffer): Promise<DecodedImage> => {
+  if (isHeif(buffer)) {
+    const { width, height, data } = await decodeHeic({ buffer });
+    return Jimp.fromBitmap({ width, height, data: Buffer.from(data.buffer) });
+  }
+  if (isWebp(buffer)) {
+    const { width, height, data } = decodeWebp(buffer);
+    return Jimp.fromBitmap({ width, height, data: Buffer.from(data.buffer) });
+  }
+  // Applies the EXIF orientation while decoding.
+  return Jimp.fromBuffer(buffer);
+};
+
+/**
+ * Decodes an upload by its content (the declared MIME type is not trusted),
+ * applies its EXIF rotation, scales it down to `maxEdgePx` and re-encodes it
+ * as a baseline JPEG. The encoder writes no metadata, so EXIF data such as
+ * GPS coordinates never leaves the server.
+ */
+export const normalizeImage = async (
+  buffer: Buffer,
+  { maxEdgePx, jpegQuality }: NormalizeOptions
+): Promise<NormalizedImage> => {
+  let image: DecodedImage;
+  try {
+    image = await decode(buffer);
+  } catch (err) {
+    throw new UnreadableImage(
+      `not a readable JPEG, PNG, WebP or HEIC image (${(err as Error).message})`
+    );
+  }
+
+  // Hashed after rotation so a rotated re-upload still matches.
+  const perceptualHash = BigInt(`0b${image.pHash()}`).toString(16).padStart(16, '0');
+
+  if (Math.max(image.width, image.height) > maxEdgePx) {
+    image.scaleToFit({ w: maxEdgePx, h: maxEdgePx });
+  }
+
+  return {
+    buffer: await image.getBuffer('image/jpeg', { quality: jpegQuality }),
+    mimeType: 'image/jpeg',
+    width: image.width,
+    height: image.height,
+    perceptualHash,
+  };
+};
+
+/** Number of differing bits between two hex perceptual hashes. */
+export const hammingDistance = (a: string, b: string): number => {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let bits = 0;
+  while (diff) {
+    bits += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return bits;
+};
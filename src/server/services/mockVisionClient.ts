@@ -0,0 +1,127 @@
+import crypto from 'crypto';
+import { REFERENCE_OBJECTS, type ReferenceObject } from '../domain/calibration';
+import { extraMetricFor, type CutStyle } from '../domain/cutStyles';
+import type { BaseChiveMetrics, RegionMetrics } from '../domain/scoring';
+import { REGION_IDS } from '../domain/validation';
+import type { VisionProvider } from './visionProvider';
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+const labelFor = (stdDevMm: number): 'clean' | 'mixed' | 'ragged' =>
+  stdDevMm < 0.35 ? 'clean' : stdDevMm < 0.7 ? 'mixed' : 'ragged';
+
+/**
+ * Offline stand-in for a vision model. Metrics are derived only from the
+ * SHA-256 `digest` of the normalized image, so the same upload always yields
+ * the same result: each grid region takes its coverage, spread and thickness
+ * from one byte of the digest apiece. The worker gets the same digest from the
+ * job's content hash, so a queued upload scores as it would here. Keep in sync
+ * with `mockAnalyze` in worker/providers.js.
+ */
+export const mockChiveMetrics = (digest: Buffer): BaseChiveMetrics => {
+  const regions: RegionMetrics[] = REGION_IDS.map((id, i) => {
+    if ((digest[i] ?? 0) % 5 === 0) {
+      return {
+        id,
+        regionAverageThicknessMm: 0,
+        regionThicknessStdDevMm: 0,
+        regionCutQualityLabel: 'no_chives',
+      };
+    }
+
+    const stdDev = 0.1 + ((digest[REGION_IDS.length + i] ?? 0) / 255) * 0.9;
+    return {
+      id,
+      regionAverageThicknessMm: round(1.2 + ((digest[21 + i] ?? 0) / 255) * 2, 2),
+      regionThicknessStdDevMm: round(stdDev, 2),
+      regionCutQualityLabel: labelFor(stdDev),
+    };
+  });
+
+  const withChives = regions.filter((r) => r.regionCutQualityLabel !== 'no_chives');
+  const fingerprint = digest.toString('hex').slice(0, 12);
+
+  if (withChives.length === 0) {
+    return {
+      averageThicknessMm: 0,
+      thicknessStdDevMm: 0,
+      cutQualityLabel: 'unknown',
+      rawNotes: `Mock analysis (${fingerprint}): not enough chives to score.`,
+      regions,
+    };
+  }
+
+  const means = withChives.map((r) => r.regionAverageThicknessMm ?? 0);
+  const average = means.reduce((a, b) => a + b, 0) / means.length;
+  // Pooled spread: within-region variance plus variance of the region means.
+  const within =
+    withChives.reduce((a, r) => a + (r.regionThicknessStdDevMm ?? 0) ** 2, 0) / withChives.length;
+  const between = means.reduce((a, m) => a + (m - average) ** 2, 0) / means.length;
+  const stdDev = Math.sqrt(within + between);
+
+  return {
+    averageThicknessMm: round(average, 2),
+    thicknessStdDevMm: round(stdDev, 2),
+    cutQualityLabel: labelFor(stdDev),
+    rawNotes: `Mock analysis (${fingerprint}) derived from the image hash; no model was called.`,
+    regions,
+  };
+};
+
+/**
+ * The extra measurement a cut style asks for, taken from byte 18 of the
+ * digest: an angle between 10° and 80°, or a length between 10 and 40 mm.
+ */
+export const mockStyleMetrics = (digest: Buffer, style: CutStyle): Partial<BaseChiveMetrics> => {
+  const metric = extraMetricFor(style);
+  if (!metric) return {};
+
+  const fraction = (digest[18] ?? 0) / 255;
+  return metric === 'averageCutAngleDeg'
+    ? { averageCutAngleDeg: round(10 + fraction * 70, 1) }
+    : { averagePieceLengthMm: round(10 + fraction * 30, 1) };
+};
+
+/**
+ * Pixel measurements for a named reference object, as if it were photographed
+ * at 4-12 px/mm (digest byte 19). Byte 20 moves the chive widths by up to
+ * ±10%, so calibration visibly changes the mock's millimetre estimates.
+ */
+export const mockReferenceMeasurement = (
+  digest: Buffer,
+  metrics: BaseChiveMetrics,
+  reference: ReferenceObject
+): Partial<BaseChiveMetrics> => {
+  const { sizeMm } = REFERENCE_OBJECTS[reference];
+  if (sizeMm == null) return {};
+
+  const pxPerMm = 4 + ((digest[19] ?? 0) / 255) * 8;
+  const drift = 0.9 + ((digest[20] ?? 0) / 255) * 0.2;
+  return {
+    referenceMeasurement: {
+      detected: true,
+      sizePx: round(sizeMm * pxPerMm, 1),
+      averageThicknessPx: round((metrics.averageThicknessMm ?? 0) * pxPerMm * drift, 1),
+      thicknessStdDevPx: round((metrics.thicknessStdDevMm ?? 0) * pxPerMm * drift, 1),
+    },
+  };
+};
+
+export const createMockVisionProvider = (): VisionProvider => ({
+  name: 'mock',
+  model: 'mock-v1',
+  async analyze(
+    buffer: Buffer,
+    _mimeType: string,
+    style: CutStyle,
+    reference: ReferenceObject
+  ): Promise<BaseChiveMetrics> {
+    const digest = crypto.createHash('sha256').update(buffer).digest();
+    const metrics = mockChiveMetrics(digest);
+    return {
+      ...metrics,
+      ...mockStyleMetrics(digest, style),
+      ...mockReferenceMeasurement(digest, metrics, reference),
+    };
+  },
+});
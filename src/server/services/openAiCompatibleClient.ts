@@ -0,0 +1,129 @@
+import type { ReferenceObject } from '../domain/calibration';
+import type { CutStyle } from '../domain/cutStyles';
+import type { BaseChiveMetrics } from '../domain/scoring';
+import { InvalidModelOutput } from '../domain/validation';
+import {
+  buildChiveChatRequest,
+  extractMessageText,
+  extractUsage,
+  parseChiveMetrics,
+  type RepairContext,
+} from './chivePrompt';
+import type { UsageListener, VisionProvider, VisionProviderName } from './visionProvider';
+
+export type OpenAiCompatibleOptions = {
+  model: string;
+  /** Full chat-completions endpoint; see `chatCompletionsUrl`. */
+  apiUrl: string;
+  /** Sent as a bearer token when present. */
+  apiKey?: string | undefined;
+  /** Extra headers for each serialized request body, e.g. a proxy signature. */
+  signRequest?: ((body: string) => Record<string, string>) | undefined;
+  name?: VisionProviderName;
+  /** Used in error messages, e.g. "X.AI API". */
+  label?: string;
+  timeoutMs?: number;
+  /** Extra requests allowed to correct output that fails validation. */
+  maxRepairAttempts?: number;
+  onUsage?: UsageListener | undefined;
+};
+
+/** Accepts either a base URL (`https://host/v1`) or a full chat-completions URL. */
+export const chatCompletionsUrl = (baseUrl: string) => {
+  const trimmed = baseUrl.replace(/\/+$/, '');
+  return /\/chat\/completions$/.test(trimmed) ? trimmed : `${trimmed}/chat/completions`;
+};
+
+/**
+ * Provider for any endpoint that speaks the OpenAI chat-completions dialect
+ * with image inputs.
+ */
+export const createOpenAiCompatibleProvider = ({
+  model,
+  apiUrl,
+  apiKey,
+  signRequest,
+  name = 'openai-compatible',
+  label = 'Vision API',
+  timeoutMs = 60000,
+  maxRepairAttempts = 2,
+  onUsage,
+}: OpenAiCompatibleOptions): VisionProvider => {
+  const requestCompletion = async (request: unknown): Promise<string> => {
+    const body = JSON.stringify(request);
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...signRequest?.(body),
+    };
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+    const startedAt = Date.now();
+
+    try {
+      const response = await fetch(apiUrl, {
+        method: 'POST',
+        headers,
+        body,
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(
+          `${label} request failed: ${response.status} ${response.statusText} - ${errorText}`
+        );
+      }
+
+      const data = await response.json();
+      if (onUsage) {
+        // Accounting must never fail an analysis that the model already paid for.
+        try {
+          await onUsage({
+            provider: name,
+            model,
+            ...extractUsage(data),
+            latencyMs: Date.now() - startedAt,
+          });
+        } catch (err) {
+          console.error('Failed to record model usage', err);
+        }
+      }
+      return extractMessageText(data);
+    } finally {
+      clearTimeout(timeout);
+    }
+  };
+
+  return {
+    name,
+    model,
+    async analyze(
+      buffer: Buffer,
+      mimeType: string,
+      style: CutStyle,
+      reference: ReferenceObject
+    ): Promise<BaseChiveMetrics> {
+      let repair: RepairContext | undefined;
+
+      // Re-ask with the validation errors until the output is valid or the
+      // repair budget runs out.
+      for (let attempt = 1; ; attempt += 1) {
+        const text = await requestCompletion(
+          buildChiveChatRequest(model, buffer, mimeType, style, reference, repair)
+        );
+        const result = parseChiveMetrics(text, style, reference);
+        if (result.ok) return result.value;
+
+        console.warn(`${label} returned invalid output (attempt ${attempt}):`, result.errors);
+        if (attempt > maxRepairAttempts) {
+          throw new InvalidModelOutput(result.errors, text, attempt);
+        }
+        repair = { previousOutput: text, errors: result.errors };
+      }
+    },
+  };
+};
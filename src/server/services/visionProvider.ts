@@ -0,0 +1,97 @@
+import { settings } from '@devvit/web/server';
+import type { ReferenceObject } from '../domain/calibration';
+import type { CutStyle } from '../domain/cutStyles';
+import type { BaseChiveMetrics } from '../domain/scoring';
+import { chatCompletionsUrl, createOpenAiCompatibleProvider } from './openAiCompatibleClient';
+import { createMockVisionProvider } from './mockVisionClient';
+import { createXaiProvider, getXaiApiKey, getXaiProxySecret, getXaiProxyUrl } from './grokClient';
+
+/**
+ * Anything that can turn a chive photo into `BaseChiveMetrics`. Providers are
+ * plain objects built by the `create*Provider` factories.
+ */
+export type VisionProvider = {
+  name: VisionProviderName;
+  model: string;
+  analyze(
+    buffer: Buffer,
+    mimeType: string,
+    style: CutStyle,
+    reference: ReferenceObject
+  ): Promise<BaseChiveMetrics>;
+};
+
+export type VisionProviderName = 'xai' | 'openai-compatible' | 'mock';
+
+/** Tokens and wall time of one model call, including repair calls. */
+export type ModelUsage = {
+  provider: VisionProviderName;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  latencyMs: number;
+};
+
+/** Told about every model call a provider makes; the mock makes none. */
+export type UsageListener = (usage: ModelUsage) => void | Promise<void>;
+
+const PROVIDER_NAMES: readonly VisionProviderName[] = ['xai', 'openai-compatible', 'mock'];
+
+/** Env wins over subreddit settings, matching how the xAI key is resolved. */
+const readSetting = async (name: string): Promise<string | undefined> => {
+  const fromEnv = process.env[name];
+  if (fromEnv && fromEnv.length > 0) return fromEnv;
+
+  const fromSettings = await settings.get<string | string[]>(name);
+  // Select settings come back as a single-item array.
+  const value = Array.isArray(fromSettings) ? fromSettings[0] : fromSettings;
+  return value && value.length > 0 ? value : undefined;
+};
+
+export async function getVisionProviderName(): Promise<VisionProviderName> {
+  const selected = (await readSetting('VISION_PROVIDER')) ?? 'xai';
+  if (!PROVIDER_NAMES.includes(selected as VisionProviderName)) {
+    throw new Error(`Unknown vision provider "${selected}"`);
+  }
+  return selected as VisionProviderName;
+}
+
+/**
+ * Builds the provider selected by the `VISION_PROVIDER` setting (default xAI).
+ * Must be called while the Devvit request context is intact, i.e. before
+ * multer runs. `onUsage` hears about each model call, for cost accounting.
+ */
+export async function getVisionProvider(onUsage?: UsageListener): Promise<VisionProvider> {
+  switch (await getVisionProviderName()) {
+    case 'mock':
+      return createMockVisionProvider();
+
+    case 'openai-compatible': {
+      const baseUrl = await readSetting('VISION_BASE_URL');
+      const model = await readSetting('VISION_MODEL');
+      if (!baseUrl || !model) {
+        throw new Error(
+          'VISION_BASE_URL and VISION_MODEL are required for the openai-compatible provider'
+        );
+      }
+      return createOpenAiCompatibleProvider({
+        apiUrl: chatCompletionsUrl(baseUrl),
+        model,
+        apiKey: await readSetting('VISION_API_KEY'),
+        onUsage,
+      });
+    }
+
+    case 'xai':
+    default: {
+      const proxyUrl = await getXaiProxyUrl();
+      return createXaiProvider(
+        await getXaiApiKey(),
+        proxyUrl,
+        onUsage,
+        proxyUrl ? await getXaiProxySecret() : undefined
+      );
+    }
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * In-memory stand-in for the Devvit `redis` client, covering the commands the
+ * server uses, for specs that run core modules outside Devvit. Expirations
+ * are accepted and ignored.
+ */
+
+type ZMember = { member: string; score: number };
+type ZRangeOptions = { by: 'rank' | 'score' | 'lex'; reverse?: boolean };
+type Bound = number | string;
+
+const toScore = (bound: Bound) =>
+  bound === '+inf' ? Infinity : bound === '-inf' ? -Infinity : Number(bound);
+
+export const createFakeRedis = () => {
+  const strings = new Map<string, string>();
+  const hashes = new Map<string, Map<string, string>>();
+  const zsets = new Map<string, Map<string, number>>();
+
+  const hash = (key: string) => {
+    let value = hashes.get(key);
+    if (!value) hashes.set(key, (value = new Map()));
+    return value;
+  };
+  const zset = (key: string) => {
+    let value = zsets.get(key);
+    if (!value) zsets.set(key, (value = new Map()));
+    return value;
+  };
+  const sorted = (key: string): ZMember[] =>
+    [...(zsets.get(key) ?? new Map<string, number>())]
+      .map(([member, score]) => ({ member, score }))
+      .sort((a, b) => a.score - b.score || a.member.localeCompare(b.member));
+  const byRank = (members: ZMember[], start: number, stop: number) => {
+    const from = start < 0 ? Math.max(0, members.length + start) : start;
+    const to = stop < 0 ? members.length + stop : stop;
+    return members.slice(from, to + 1);
+  };
+  const has = (key: string) => strings.has(key) || hashes.has(key) || zsets.has(key);
+
+  return {
+    async get(key: string) {
+      return strings.get(key);
+    },
+    async set(key: string, value: string, options?: { nx?: boolean; expiration?: Date }) {
+      if (options?.nx && strings.has(key)) return null;
+      strings.set(key, value);
+      return 'OK';
+    },
+    async del(...keys: string[]) {
+      for (const key of keys) {
+        strings.delete(key);
+        hashes.delete(key);
+        zsets.delete(key);
+      }
+    },
+    async exists(...keys: string[]) {
+      return keys.filter(has).length;
+    },
+    async expire(_key: string, _seconds: number) {},
+    async incrBy(key: string, by: number) {
+      const next = Number(strings.get(key) ?? 0) + by;
+      strings.set(key, String(next));
+      return next;
+    },
+
+    async hGet(key: string, field: string) {
+      return hashes.get(key)?.get(field);
+    },
+    async hSet(key: string, values: Record<string, string>) {
+      const target = hash(key);
+      const added = Object.keys(values).filter((field) => !target.has(field)).length;
+      for (const [field, value] of Object.entries(values)) target.set(field, value);
+      return added;
+    },
+    async hGetAll(key: string) {
+      return Object.fromEntries(hashes.get(key) ?? []);
+    },
+    async hMGet(key: string, fields: string[]) {
+      return fields.map((field) => hashes.get(key)?.get(field) ?? null);
+    },
+    async hDel(key: string, fields: string[]) {
+      const target = hashes.get(key);
+      return fields.filter((field) => target?.delete(field)).length;
+    },
+    async hIncrBy(key: string, field: string, by: number) {
+      const target = hash(key);
+      const next = Number(target.get(field) ?? 0) + by;
+      target.set(field, String(next));
+      return next;
+    },
+    async hKeys(key: string) {
+      return [...(hashes.get(key)?.keys() ?? [])];
+    },
+
+    async zAdd(key: string, ...members: ZMember[]) {
+      const target = zset(key);
+      const added = members.filter(({ member }) => !target.has(member)).length;
+      for (const { member, score } of members) target.set(member, score);
+      return added;
+    },
+    async zRem(key: string, members: string[]) {
+      const target = zsets.get(key);
+      return members.filter((member) => target?.delete(member)).length;
+    },
+    async zCard(key: string) {
+      return zsets.get(key)?.size ?? 0;
+    },
+    async zScore(key: string, member: string) {
+      return zsets.get(key)?.get(member);
+    },
+    async zRank(key: string, member: string) {
+      const rank = sorted(key).findIndex((entry) => entry.member === member);
+      return rank < 0 ? undefined : rank;
+    },
+    async zIncrBy(key: string, member: string, by: number) {
+      const target = zset(key);
+      const next = (target.get(member) ?? 0) + by;
+      target.set(member, next);
+      return next;
+    },
+    async zRange(key: string, start: Bound, stop: Bound, options?: ZRangeOptions) {
+      const members = sorted(key);
+      if (options?.by === 'score') {
+        const inRange = members.filter(
+          ({ score }) => score >= toScore(start) && score <= toScore(stop)
+        );
+        return options.reverse ? inRange.reverse() : inRange;
+      }
+      const ordered = options?.reverse ? members.reverse() : members;
+      return byRank(ordered, Number(start), Number(stop));
+    },
+    async zRemRangeByRank(key: string, start: number, stop: number) {
+      const doomed = byRank(sorted(key), start, stop);
+      for (const { member } of doomed) zsets.get(key)?.delete(member);
+      return doomed.length;
+    },
+    async zRemRangeByScore(key: string, min: number, max: number) {
+      const doomed = sorted(key).filter(({ score }) => score >= min && score <= max);
+      for (const { member } of doomed) zsets.get(key)?.delete(member);
+      return doomed.length;
+    },
+  };
+};
+
+export type FakeRedis = ReturnType<typeof createFakeRedis>;
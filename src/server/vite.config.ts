@@ -1,7 +1,24 @@
-import { defineConfig } from 'vite';
-import { builtinModules } from 'node:module';
+import { defineConfig, type Plugin } from 'vite';
+import { readFile } from 'node:fs/promises';
+import { builtinModules, createRequire } from 'node:module';
+
+const require = createRequire(import.meta.url);
+
+// @cwasm/webp reads its codec from `webp.wasm` beside the running script,
+// which after bundling is index.cjs.
+const copyWasmCodecs = (): Plugin => ({
+  name: 'copy-wasm-codecs',
+  async generateBundle() {
+    this.emitFile({
+      type: 'asset',
+      fileName: 'webp.wasm',
+      source: await readFile(require.resolve('@cwasm/webp/webp.wasm')),
+    });
+  },
+});
 
 export default defineConfig({
+  plugins: [copyWasmCodecs()],
   ssr: {
     noExternal: true,
   },
@@ -1,22 +1,9 @@
 export type InitResponse = {
   type: 'init';
   postId: string;
-  count: number;
   username: string;
 };
 
-export type IncrementResponse = {
-  type: 'increment';
-  postId: string;
-  count: number;
-};
-
-export type DecrementResponse = {
-  type: 'decrement';
-  postId: string;
-  count: number;
-};
-
 export type RegionMetrics = {
   id: string;
   regionAverageThicknessMm?: number;
@@ -24,6 +11,62 @@ export type RegionMetrics = {
   regionCutQualityLabel?: 'clean' | 'mixed' | 'ragged' | 'no_chives';
 };
 
+export type ScoringMode = 'global' | 'regional';
+
+/** How the cook was asked to cut; see src/server/domain/cutStyles.ts. */
+export type CutStyle = 'fine' | 'bias' | 'baton';
+
+/** Sub-scores for one grid region; all null for regions without chives. */
+export type RegionScore = {
+  id: string;
+  consistencyScore: number | null;
+  cutQualityScore: number | null;
+  /** 0-100, weighted like the overall score. */
+  score: number | null;
+};
+
+/** Image-level figures computed from the regions that contain chives. */
+export type RegionalSummary = {
+  averageThicknessMm: number;
+  interRegionStdDevMm: number;
+  pooledStdDevMm: number;
+  /** Share of regions with chives that are labelled ragged. */
+  raggedShare: number;
+  /** Share of the grid that contains chives. */
+  coverage: number;
+  /** The model's global estimate is far from what its regions add up to. */
+  disagreement: boolean;
+};
+
+export type ReferenceObject = 'none' | 'us_quarter' | 'euro_coin' | 'ruler' | 'grid_1cm' | 'grid_1in';
+
+export type Calibration = {
+  reference: ReferenceObject;
+  /** Null when the reference wasn't found and the millimetres are estimates. */
+  pxPerMm: number | null;
+};
+
+/** How far several analyses of the same photo agreed (consensus mode). */
+export type ConsensusSummary = {
+  samples: number;
+  /** 0-1; how closely the samples agree. */
+  confidence: number;
+  lowConfidence: boolean;
+  /** Lowest and highest overall score among the samples. */
+  scoreRange: { min: number; max: number } | null;
+  labelAgreement: number;
+  regionAgreement: number | null;
+};
+
+/** Whether a result came from the result cache rather than a model call. */
+export type ResultCacheInfo = {
+  hit: boolean;
+  /** When the reused result was produced; null on a miss. */
+  cachedAt: number | null;
+  model: string;
+  promptVersion: string;
+};
+
 export type AnalyzeResultItem = {
   filename: string;
   bunchIndex: number;
@@ -36,9 +79,488 @@ export type AnalyzeResultItem = {
   notes: string;
   rawNotes?: string;
   regions?: RegionMetrics[];
+  cache?: ResultCacheInfo;
+  /** Version of the scoring rubric the scores were computed with. */
+  rubricVersion?: string;
+  scoringMode?: ScoringMode;
+  regionScores?: RegionScore[];
+  regional?: RegionalSummary | null;
+  cutStyle?: CutStyle;
+  /** 0-1 closeness to the cut style's target; null when it wasn't measured. */
+  targetScore?: number | null;
+  averagePieceLengthMm?: number;
+  averageCutAngleDeg?: number;
+  /** Set when the photo was analyzed several times and the results merged. */
+  consensus?: ConsensusSummary | null;
+  /** Millimetres were measured against a reference object, not estimated. */
+  calibrated?: boolean;
+  calibration?: Calibration | null;
+  /** History entry the result was recorded as; missing for anonymous users. */
+  entryId?: string;
 };
 
 export type AnalyzeResponse = {
   analyzedCount: number;
   results: AnalyzeResultItem[];
 };
+
+export type JobStatus =
+  | 'pending'
+  | 'processing'
+  | 'retrying'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+/** Poll response for a queued analysis job. */
+export type JobResultResponse = {
+  status: JobStatus;
+  /** Worker attempts so far, including the one in progress. */
+  attempts?: number;
+  /** When a `retrying` job runs again (ms since epoch). */
+  nextRetryAt?: number | null;
+  /** Last failure; on a `retrying` job this is what caused the retry. */
+  error?: string;
+  result?: Omit<AnalyzeResultItem, 'filename' | 'bunchIndex'>;
+};
+
+/** An uploaded file that was refused before analysis. */
+export type UploadRejection = {
+  /** Position of the file in the upload. */
+  index: number;
+  filename: string;
+  error: string;
+};
+
+export type AnalyzeAsyncResponse = {
+  /** Null when every file was rejected. */
+  batchId: string | null;
+  jobs: string[];
+  rejected: UploadRejection[];
+};
+
+export type BatchJob = JobResultResponse & {
+  jobId: string;
+  /** Name of the uploaded file. */
+  filename: string;
+  /** Position of the file in the upload. */
+  uploadIndex: number;
+};
+
+/** Pushed on the submitter's realtime channel whenever a job changes state. */
+export type JobUpdateMessage = {
+  type: 'job';
+  batchId: string;
+  job: BatchJob;
+};
+
+export type BatchResponse = {
+  type: 'batch';
+  batchId: string;
+  /** `done` once every job has completed, failed or been cancelled. */
+  status: 'running' | 'done';
+  total: number;
+  counts: Record<JobStatus, number>;
+  jobs: BatchJob[];
+};
+
+export type HistoryEntry = {
+  id: string;
+  userId: string;
+  username: string;
+  postId: string;
+  subreddit: string;
+  mediaUrl: string | null;
+  createdAt: number;
+  overallScore: number | null;
+  thicknessConsistencyScore: number | null;
+  cutQualityScore: number | null;
+  averageThicknessMm: number | null;
+  thicknessStdDevMm: number | null;
+  cutQualityLabel: string;
+  /** Kept so the entry can be re-scored; missing on entries from before rubrics. */
+  regions?: RegionMetrics[];
+  /** Missing on entries scored before rubrics were versioned. */
+  rubricVersion?: string;
+  /** Missing on entries from before cut styles, which were all `fine`. */
+  cutStyle?: CutStyle;
+  targetScore?: number | null;
+  averagePieceLengthMm?: number;
+  averageCutAngleDeg?: number;
+  consensus?: ConsensusSummary | null;
+  /** Only calibrated entries reach the verified leaderboard. */
+  calibrated?: boolean;
+  calibration?: Calibration | null;
+  /** The model's own notes, quoted in shared scorecards. */
+  rawNotes?: string;
+  /**
+   * Kept off the leaderboards because the subreddit requires consensus
+   * scoring and this entry was scored from a single analysis.
+   */
+  unranked?: boolean;
+  /** Taken off the leaderboards by a moderator. */
+  hidden?: boolean;
+  /**
+   * Id of the earlier entry this photo appears to be a resubmission of.
+   * Such entries keep their score but never reach a leaderboard.
+   */
+  duplicateOf?: string | null;
+};
+
+export type HistoryResponse = {
+  type: 'history';
+  cutStyle: CutStyle;
+  entries: HistoryEntry[];
+  best: HistoryEntry | null;
+  nextCursor: number | null;
+};
+
+export type PersonalBestResponse = {
+  type: 'best';
+  cutStyle: CutStyle;
+  best: HistoryEntry | null;
+};
+
+/** `verified` ranks the subreddit's entries measured against a reference object. */
+export type LeaderboardScope = 'post' | 'subreddit' | 'verified';
+
+export type LeaderboardWindow = 'daily' | 'weekly' | 'alltime';
+
+export type LeaderboardEntry = {
+  rank: number;
+  userId: string;
+  username: string;
+  score: number;
+  entryId: string | null;
+};
+
+export type LeaderboardResponse = {
+  type: 'leaderboard';
+  scope: LeaderboardScope;
+  window: LeaderboardWindow;
+  cutStyle: CutStyle;
+  period: string;
+  entries: LeaderboardEntry[];
+  total: number;
+  nextCursor: number | null;
+  me: { rank: number; score: number } | null;
+};
+
+export type DailyChallenge = {
+  date: string;
+  postId: string;
+  title: string;
+  theme: string | null;
+  /** Replaces the 1.5 mm target when scoring fine snips on this post. */
+  targetThicknessMm: number | null;
+  createdAt: number;
+};
+
+export type ChallengeResponse = {
+  type: 'challenge';
+  challenge: DailyChallenge | null;
+  isOpen: boolean;
+  latest: DailyChallenge | null;
+};
+
+export type RescoreResponse = {
+  type: 'rescore';
+  rubricVersion: string;
+  /** Users whose entries were processed in this page. */
+  users: number;
+  /** Entries whose scores changed. */
+  updated: number;
+  /** Entries left alone: already on this rubric, or stored without regions. */
+  skipped: number;
+  nextCursor: number | null;
+};
+
+export type QuotaScope = 'user' | 'subreddit';
+export type QuotaWindow = 'hour' | 'day';
+
+export type QuotaUsage = {
+  scope: QuotaScope;
+  window: QuotaWindow;
+  limit: number;
+  used: number;
+  remaining: number;
+  /** When the current window ends and the count starts over. */
+  resetAt: number;
+};
+
+export type QuotaResponse = {
+  type: 'quota';
+  /** Moderators aren't limited; `usage` is empty for them. */
+  exempt: boolean;
+  usage: QuotaUsage[];
+};
+
+/** Body of a 429 from the analyze endpoints. */
+export type QuotaExceededResponse = {
+  status: 'error';
+  code: 'quota_exceeded';
+  message: string;
+  scope: QuotaScope;
+  window: QuotaWindow;
+  limit: number;
+  remaining: number;
+  /** Images in the rejected request. */
+  requested: number;
+  resetAt: number;
+};
+
+export type ModeratorStatusResponse = {
+  type: 'moderator';
+  isModerator: boolean;
+};
+
+export type FlairResponse = {
+  type: 'flair';
+  /** Whether the subreddit awards score flair at all. */
+  enabled: boolean;
+  optedOut: boolean;
+  /** The best leaderboard-eligible score the flair is based on. */
+  best: { score: number; tier: string; text: string } | null;
+};
+
+export type FlaggedDuplicate = {
+  entry: HistoryEntry;
+  original: HistoryEntry | null;
+  /** Differing bits between the two perceptual hashes (0-64). */
+  distance: number;
+  flaggedAt: number;
+};
+
+export type DuplicatesResponse = {
+  type: 'duplicates';
+  subreddit: string;
+  items: FlaggedDuplicate[];
+  nextCursor: number | null;
+};
+
+/** A history entry posted as a comment on the thread. */
+export type Scorecard = {
+  entryId: string;
+  postId: string;
+  permalink: string;
+  createdAt: number;
+};
+
+export type ScorecardResponse = {
+  type: 'scorecard';
+  entryId: string;
+  /** Null when the entry hasn't been shared, or its comment was deleted. */
+  scorecard: Scorecard | null;
+};
+
+/** List lengths the worker last reported; see worker/queue.js. */
+export type OpsQueueStats = {
+  queued: number;
+  processing: number;
+  /** Dead-lettered jobs ever, including ones since requeued. */
+  dead: number;
+  at: number;
+};
+
+export type OpsJob = {
+  jobId: string;
+  /** Null once the job's record has expired. */
+  filename: string | null;
+  submittedBy: string | null;
+  submittedByName: string | null;
+  status: JobStatus | null;
+  attempts: number;
+  error: string | null;
+  /** In-flight jobs: when the worker's claim runs out. */
+  deadline?: number;
+  /** In-flight jobs well past their deadline with no worker recovering them. */
+  stuck?: boolean;
+  /** Failed jobs: when they failed for good. */
+  failedAt?: number;
+};
+
+export type OpsBan = {
+  userId: string;
+  username: string;
+  bannedAt: number;
+  bannedBy: string;
+};
+
+export type OpsResponse = {
+  type: 'ops';
+  /** Null when no worker has reported yet. */
+  queue: OpsQueueStats | null;
+  /** Jobs waiting out a retry backoff, or just submitted and not yet promoted to the queue. */
+  delayed: number;
+  inFlight: OpsJob[];
+  failed: OpsJob[];
+  recent: HistoryEntry[];
+  /** Recorded and failed analyses per UTC day, oldest first. */
+  daily: { date: string; recorded: number; failed: number }[];
+  bans: OpsBan[];
+};
+
+export type OpsActionResponse = {
+  type: 'ops_action';
+  message: string;
+};
+
+/** Token counts summed over model calls. */
+export type UsageTotals = {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** Summed round-trip time; divide by `calls` for the average. */
+  latencyMs: number;
+};
+
+/** One request to the vision model, including repair retries on their own. */
+export type ModelCall = {
+  at: number;
+  userId: string;
+  username: string;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  latencyMs: number;
+};
+
+export type UsageResponse = {
+  type: 'usage';
+  subreddit: string;
+  /** The UTC month the totals cover, as YYYY-MM. */
+  month: string;
+  /** USD per million tokens used to estimate costs. */
+  prices: { inputPerMTok: number; outputPerMTok: number };
+  /** Null when the subreddit has no monthly cap. */
+  monthlyBudgetUsd: number | null;
+  budgetRemainingUsd: number | null;
+  totals: UsageTotals & { costUsd: number };
+  /** Per UTC day, oldest first. */
+  daily: (UsageTotals & { date: string; costUsd: number })[];
+  /** This month's heaviest users, most tokens first. */
+  users: (UsageTotals & { userId: string; username: string; costUsd: number })[];
+  recentCalls: (ModelCall & { costUsd: number })[];
+};
+
+/** Body of a 429 from the analyze endpoints once the monthly budget is spent. */
+export type BudgetExceededResponse = {
+  status: 'error';
+  code: 'budget_exceeded';
+  message: string;
+  /** Start of the next UTC month, when analyses resume. */
+  resetAt: number;
+};
+
+/** What a worker last reported; see worker/heartbeat.js. */
+export type WorkerHeartbeat = {
+  workerId: string;
+  version: string;
+  concurrency: number;
+  startedAt: number;
+  /** Jobs being analysed right now. */
+  active: number;
+  /** Jobs finished and failed for good since the worker started. */
+  processed: number;
+  failed: number;
+  lastError: { jobId: string; message: string; at: number } | null;
+  at: number;
+};
+
+export type HealthResponse = {
+  type: 'health';
+  /** Whether any worker has reported recently enough to pick up queued jobs. */
+  workerAlive: boolean;
+  workers: WorkerHeartbeat[];
+  checkedAt: number;
+};
+
+/** Body of a 503 from `/api/analyze-async` when no worker would run the jobs. */
+export type WorkerUnavailableResponse = {
+  status: 'error';
+  code: 'worker_unavailable';
+  message: string;
+};
+
+/** A user's vote on a submission; 0 takes a vote back. */
+export type VoteValue = -1 | 0 | 1;
+
+export type CrowdComparison = {
+  /** Community score minus AI score. */
+  difference: number;
+  verdict: 'agrees' | 'kinder' | 'harsher';
+};
+
+export type CommunityVotes = {
+  entryId: string;
+  up: number;
+  down: number;
+  net: number;
+  /** Share of upvotes as 0-100; null until a few people have voted. */
+  communityScore: number | null;
+  aiScore: number | null;
+  crowdVsAi: CrowdComparison | null;
+  /** The current user's vote. */
+  myVote: VoteValue;
+  /** False on the user's own submissions, hidden ones and when logged out. */
+  canVote: boolean;
+};
+
+export type VotesResponse = {
+  type: 'votes';
+  votes: CommunityVotes[];
+};
+
+export type PeoplesChoiceScope = 'post' | 'subreddit';
+
+export type PeoplesChoiceEntry = {
+  rank: number;
+  entryId: string;
+  userId: string;
+  username: string;
+  mediaUrl: string | null;
+  createdAt: number;
+  votes: CommunityVotes;
+};
+
+/** Submissions ranked by net community votes rather than by the AI's score. */
+export type PeoplesChoiceResponse = {
+  type: 'peoples_choice';
+  scope: PeoplesChoiceScope;
+  entries: PeoplesChoiceEntry[];
+  total: number;
+  nextCursor: number | null;
+};
+
+/** `ai` orders by the model's score, `community` by the crowd's. */
+export type SubmissionSort = 'newest' | 'ai' | 'community';
+
+/** A photo in the current post's gallery. */
+export type Submission = {
+  entryId: string;
+  userId: string;
+  username: string;
+  mediaUrl: string;
+  createdAt: number;
+  cutStyle: CutStyle;
+  cutQualityLabel: string;
+  overallScore: number | null;
+  thicknessConsistencyScore: number | null;
+  cutQualityScore: number | null;
+  averageThicknessMm: number | null;
+  thicknessStdDevMm: number | null;
+  regions: RegionMetrics[];
+  calibrated: boolean;
+  votes: CommunityVotes;
+};
+
+export type SubmissionsResponse = {
+  type: 'submissions';
+  sort: SubmissionSort;
+  entries: Submission[];
+  total: number;
+  nextCursor: number | null;
+};
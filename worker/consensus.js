@@ -0,0 +1,49 @@
+// Mirrors analyzeSamples in src/server/core/consensus.ts; keep in sync.
+
+async function settleWithLimit(count, limit, run) {
+  const results = new Array(count);
+  let next = 0;
+
+  const lane = async () => {
+    while (next < count) {
+      const index = next;
+      next += 1;
+      try {
+        results[index] = { status: 'fulfilled', value: await run(index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, count) }, lane));
+  return results;
+}
+
+/**
+ * Analyzes the image as many times as the job's consensus settings ask
+ * (once for jobs without them), each sample through the result cache. The
+ * app merges and scores the samples. Failed samples are dropped as long as
+ * one succeeds; otherwise the first failure is thrown, so retries work as
+ * for a single analysis.
+ * Returns { samples, cache } where cache matches ResultCacheInfo.
+ */
+export async function analyzeSamples(resultCache, provider, buffer, mimeType, job) {
+  const samples = Math.max(1, job.consensus?.samples ?? 1);
+  const concurrency = Math.max(1, job.consensus?.concurrency ?? 1);
+
+  const settled = await settleWithLimit(samples, concurrency, (sample) =>
+    resultCache.analyze(provider, buffer, mimeType, job, sample)
+  );
+
+  const done = settled.filter((r) => r.status === 'fulfilled').map((r) => r.value);
+  if (done.length === 0) {
+    throw settled.find((r) => r.status === 'rejected').reason;
+  }
+
+  const allHits = done.length === samples && done.every(({ cache }) => cache.hit);
+  return {
+    samples: done.map(({ metrics }) => metrics),
+    cache: allHits ? done[0].cache : { ...done[0].cache, hit: false, cachedAt: null },
+  };
+}
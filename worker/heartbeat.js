@@ -0,0 +1,39 @@
+// Liveness reports the app reads for `/api/health` (see
+// src/server/core/workers.ts); keep the key format in sync.
+//
+//   worker:heartbeats      zset    workerId -> time of its last beat (ms)
+//   worker:heartbeat:{id}  string  the worker's status; expires soon after
+//                                  the worker stops beating
+
+export const HEARTBEATS_KEY = 'worker:heartbeats';
+const heartbeatKey = (workerId) => `worker:heartbeat:${workerId}`;
+
+const HEARTBEAT_TTL_SECONDS = 60;
+// Workers that vanished without saying goodbye drop out of the index after a day.
+const FORGET_AFTER_MS = 24 * 60 * 60 * 1000;
+
+export function createHeartbeat(redis, { workerId, version, concurrency }) {
+  const startedAt = Date.now();
+
+  return {
+    /** Records that this worker is alive, with `status` (active, processed, failed, lastError). */
+    async beat(status) {
+      const at = Date.now();
+      await redis
+        .multi()
+        .set(
+          heartbeatKey(workerId),
+          JSON.stringify({ workerId, version, concurrency, startedAt, ...status, at }),
+          { EX: HEARTBEAT_TTL_SECONDS }
+        )
+        .zAdd(HEARTBEATS_KEY, { score: at, value: workerId })
+        .zRemRangeByScore(HEARTBEATS_KEY, 0, at - FORGET_AFTER_MS)
+        .exec();
+    },
+
+    /** Removes this worker's heartbeat so the app stops counting it straight away. */
+    async stop() {
+      await redis.multi().del(heartbeatKey(workerId)).zRem(HEARTBEATS_KEY, workerId).exec();
+    },
+  };
+}
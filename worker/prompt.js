@@ -0,0 +1,178 @@
+// Mirrors src/server/services/chivePrompt.ts; keep the two in sync.
+
+import { createHash } from 'crypto';
+import { validateChiveMetrics } from './validation.js';
+
+export const CHIVE_SYSTEM_PROMPT =
+  'You are an expert chef and knife skills instructor evaluating photos of cut chives. ' +
+  'You must estimate chive thickness and cut quality and respond ONLY as JSON.';
+
+export const CHIVE_ANALYSIS_PROMPT =
+  'Examine this image of cut chives. ' +
+  '1) Divide the image into a 3×3 grid of regions, indexed row-major as r1c1, r1c2, r1c3, r2c1, r2c2, r2c3, r3c1, r3c2, r3c3. ' +
+  '2) For each region, detect the chive pieces that are visible in that region and estimate: ' +
+  '   regionAverageThicknessMm (average thickness of chive pieces in that region, in millimetres), ' +
+  '   regionThicknessStdDevMm (standard deviation of thickness in that region, in millimetres), and ' +
+  '   regionCutQualityLabel (one of "clean", "mixed", "ragged", or "no_chives"). Use "no_chives" whenever there are only a few stray pieces or effectively no dense cluster of chives in that region. ' +
+  '3) Using all regions together, compute overall image-level metrics: ' +
+  '   averageThicknessMm (overall average thickness across all regions that contain chives), ' +
+  '   thicknessStdDevMm (overall standard deviation of thickness), and ' +
+  '   cutQualityLabel (one of "clean", "mixed", or "ragged" for overall cut quality). ' +
+  '   When estimating millimetres, assume typical grocery-store chives and use your best judgement; do not leave fields blank just because the scale is approximate. If the entire image lacks any finely bunched group of chopped chives (for example, only a single stray chive is present), then set averageThicknessMm to 0, thicknessStdDevMm to 0, cutQualityLabel to "unknown", and explain in rawNotes that there are not enough chives to score. ' +
+  '4) Provide a short explanation of what you see about the cuts and consistency. ' +
+  'Respond ONLY as a single JSON object in valid JSON syntax (no markdown, no extra prose) with this exact shape: ' +
+  '{ "averageThicknessMm": number, "thicknessStdDevMm": number, "cutQualityLabel": "clean" | "mixed" | "ragged" | "unknown", "regions": [ { "id": "r1c1", "regionAverageThicknessMm": number, "regionThicknessStdDevMm": number, "regionCutQualityLabel": "clean" | "mixed" | "ragged" | "no_chives" } ], "rawNotes": string }. ' +
+  'The "regions" array MUST contain exactly 9 objects, one for each of: r1c1, r1c2, r1c3, r2c1, r2c2, r2c3, r3c1, r3c2, r3c3. ' +
+  'All numeric fields must be finite numbers (use approximate values if necessary, never null or undefined).';
+
+// Appended to the analysis prompt for the job's cut style.
+export const CUT_STYLE_PROMPTS = {
+  fine: '',
+  bias:
+    'The cook was asked for bias cuts: chives sliced at an angle rather than straight across. ' +
+    'Also estimate averageCutAngleDeg, the average angle between each cut face and a cut made straight across the chive, in degrees (0 = straight across, 90 = along the chive), ' +
+    'and add it to the JSON object as "averageCutAngleDeg": number.',
+  baton:
+    'The cook was asked for batons: chives cut into lengths of about 2-3 cm for garnish. Thickness still means the width of each piece across the chive. ' +
+    'Also estimate averagePieceLengthMm, the average length of the pieces along the chive, in millimetres, ' +
+    'and add it to the JSON object as "averagePieceLengthMm": number.',
+};
+
+// Mirrors REFERENCE_OBJECTS in src/server/domain/calibration.ts, in the same
+// order: the real length of what the model measures, and how it's described.
+export const REFERENCE_OBJECTS = {
+  none: { sizeMm: null, measure: '' },
+  us_quarter: { sizeMm: 24.26, measure: 'the diameter of the US quarter coin' },
+  euro_coin: { sizeMm: 23.25, measure: 'the diameter of the 1 euro coin' },
+  ruler: { sizeMm: 10, measure: 'the distance between two adjacent centimetre marks on the ruler' },
+  grid_1cm: {
+    sizeMm: 10,
+    measure: 'the spacing between adjacent lines of the 1 cm grid on the cutting board',
+  },
+  grid_1in: {
+    sizeMm: 25.4,
+    measure: 'the spacing between adjacent lines of the 1 inch grid on the cutting board',
+  },
+};
+
+const referencePrompt = (measure) =>
+  'The photo also contains a reference object for scale. ' +
+  `Find it and measure ${measure}, in pixels of this image, as sizePx. ` +
+  'Then measure, in pixels of this image, the average width of the chive pieces across the chive as averageThicknessPx and its standard deviation as thicknessStdDevPx. ' +
+  'Add these to the JSON object as "reference": { "detected": boolean, "sizePx": number, "averageThicknessPx": number, "thicknessStdDevPx": number }. ' +
+  'If you cannot find the reference, set "detected" to false and "sizePx" to 0, and still measure the chive widths.';
+
+// Appended to the analysis prompt for the job's reference object.
+export const REFERENCE_PROMPTS = Object.fromEntries(
+  Object.entries(REFERENCE_OBJECTS).map(([id, { sizeMm, measure }]) => [
+    id,
+    sizeMm == null ? '' : referencePrompt(measure),
+  ])
+);
+
+export function analysisPromptFor(style, reference = 'none') {
+  return [CHIVE_ANALYSIS_PROMPT, CUT_STYLE_PROMPTS[style], REFERENCE_PROMPTS[reference]]
+    .filter(Boolean)
+    .join(' ');
+}
+
+// Fingerprint of the prompts, part of the result cache key. Computed the same
+// way as on the server, so the two match while the prompts do.
+export const PROMPT_VERSION = createHash('sha256')
+  .update(CHIVE_SYSTEM_PROMPT)
+  .update(CHIVE_ANALYSIS_PROMPT)
+  .update(Object.values(CUT_STYLE_PROMPTS).join(''))
+  .update(Object.values(REFERENCE_PROMPTS).join(''))
+  .digest('hex')
+  .slice(0, 12);
+
+// `repair` ({ previousOutput, errors }) appends the rejected reply and its
+// validation errors so the model can answer again.
+export function buildChiveChatRequest(model, buffer, mimeType, style, reference, repair) {
+  const dataUrl = `data:${mimeType};base64,${buffer.toString('base64')}`;
+
+  const repairMessages = repair
+    ? [
+        { role: 'assistant', content: repair.previousOutput },
+        {
+          role: 'user',
+          content:
+            'Your previous response did not match the required JSON shape: ' +
+            `${repair.errors.join('; ')}. ` +
+            'Respond again with ONLY the corrected JSON object, including all 9 regions.',
+        },
+      ]
+    : [];
+
+  return {
+    model,
+    temperature: 0.2,
+    response_format: { type: 'json_object' },
+    messages: [
+      {
+        role: 'system',
+        content: CHIVE_SYSTEM_PROMPT,
+      },
+      {
+        role: 'user',
+        content: [
+          {
+            type: 'text',
+            text: analysisPromptFor(style, reference),
+          },
+          {
+            type: 'image_url',
+            image_url: { url: dataUrl },
+          },
+        ],
+      },
+      ...repairMessages,
+    ],
+  };
+}
+
+export function extractMessageText(data) {
+  const content = data?.choices?.[0]?.message?.content;
+
+  if (!content) {
+    throw new Error('No content returned from model');
+  }
+
+  return Array.isArray(content)
+    ? content.map((part) => (typeof part === 'string' ? part : part?.text || part?.content || '')).join('\n')
+    : String(content);
+}
+
+const tokenCount = (value) => (typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.round(value) : 0);
+
+// Same as extractUsage in src/server/services/chivePrompt.ts.
+export function extractUsage(data) {
+  const usage = data?.usage;
+  const promptTokens = tokenCount(usage?.prompt_tokens);
+  const completionTokens = tokenCount(usage?.completion_tokens);
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: tokenCount(usage?.total_tokens) || promptTokens + completionTokens,
+  };
+}
+
+// Returns { ok: true, value } or { ok: false, errors }.
+export function parseChiveMetrics(text, style, reference = 'none') {
+  let parsed;
+  try {
+    parsed = JSON.parse(text.trim());
+  } catch {
+    const match = text.match(/\{[\s\S]*\}/);
+    if (!match) {
+      return { ok: false, errors: ['response did not contain a JSON object'] };
+    }
+    try {
+      parsed = JSON.parse(match[0]);
+    } catch (err) {
+      return { ok: false, errors: [`response is not valid JSON (${err.message})`] };
+    }
+  }
+
+  return validateChiveMetrics(parsed, style, reference);
+}
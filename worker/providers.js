@@ -0,0 +1,223 @@
+import { createHash } from 'crypto';
+import {
+  buildChiveChatRequest,
+  extractMessageText,
+  extractUsage,
+  parseChiveMetrics,
+  REFERENCE_OBJECTS,
+} from './prompt.js';
+import { InvalidModelOutput, REGION_IDS } from './validation.js';
+
+// Vision providers for the worker. Each returns the same BaseChiveMetrics shape
+// as the server-side providers in src/server/services/.
+
+const XAI_CHAT_COMPLETIONS_URL = 'https://api.x.ai/v1/chat/completions';
+const XAI_MODEL = 'grok-4-fast';
+
+function chatCompletionsUrl(baseUrl) {
+  const trimmed = baseUrl.replace(/\/+$/, '');
+  return /\/chat\/completions$/.test(trimmed) ? trimmed : `${trimmed}/chat/completions`;
+}
+
+export function createOpenAiCompatibleProvider({ model, apiUrl, apiKey, name = 'openai-compatible', label = 'Vision API', maxRepairAttempts = 2, timeoutMs = 60000, onUsage }) {
+  async function requestCompletion(body) {
+    const headers = { 'Content-Type': 'application/json' };
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+
+    // Same 60 s budget as the app's client; the abort surfaces as an
+    // AbortError, which the worker retries.
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+    const startedAt = Date.now();
+
+    try {
+      const apiResponse = await fetch(apiUrl, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+
+      if (!apiResponse.ok) {
+        const errorText = await apiResponse.text();
+        const error = new Error(`${label} error: ${apiResponse.status} - ${errorText}`);
+        error.status = apiResponse.status;
+        throw error;
+      }
+
+      const data = await apiResponse.json();
+      if (onUsage) {
+        // Accounting must never fail an analysis that the model already paid for.
+        try {
+          await onUsage({ provider: name, model, ...extractUsage(data), latencyMs: Date.now() - startedAt });
+        } catch (err) {
+          console.error('Failed to record model usage', err);
+        }
+      }
+      return extractMessageText(data);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  return {
+    name,
+    model,
+    async analyze(buffer, mimeType, style = 'fine', reference = 'none') {
+      let repair;
+
+      // Re-ask with the validation errors until the output is valid or the
+      // repair budget runs out.
+      for (let attempt = 1; ; attempt += 1) {
+        const text = await requestCompletion(
+          buildChiveChatRequest(model, buffer, mimeType, style, reference, repair)
+        );
+        const result = parseChiveMetrics(text, style, reference);
+        if (result.ok) return result.value;
+
+        console.warn(`${label} returned invalid output (attempt ${attempt}):`, result.errors);
+        if (attempt > maxRepairAttempts) {
+          throw new InvalidModelOutput(result.errors, text, attempt);
+        }
+        repair = { previousOutput: text, errors: result.errors };
+      }
+    },
+  };
+}
+
+export function createXaiProvider(apiKey, onUsage) {
+  return createOpenAiCompatibleProvider({
+    name: 'xai',
+    label: 'X.AI API',
+    model: XAI_MODEL,
+    apiUrl: XAI_CHAT_COMPLETIONS_URL,
+    apiKey,
+    onUsage,
+  });
+}
+
+const round = (value, digits) => Number(value.toFixed(digits));
+const labelFor = (stdDev) => (stdDev < 0.35 ? 'clean' : stdDev < 0.7 ? 'mixed' : 'ragged');
+
+// The mock works from the SHA-256 of the image the server normalized: the job's
+// contentHash when there is one, since the CDN copy downloaded here may not be
+// byte-identical. That is the digest the app's mock takes of the same image, so
+// it scores identically on the sync and queued paths.
+export function mockDigest(buffer, contentHash) {
+  return contentHash ? Buffer.from(contentHash, 'hex') : createHash('sha256').update(buffer).digest();
+}
+
+// Same algorithm as mockChiveMetrics in src/server/services/mockVisionClient.ts.
+export function mockAnalyze(digest) {
+  const regions = REGION_IDS.map((id, i) => {
+    if (digest[i] % 5 === 0) {
+      return { id, regionAverageThicknessMm: 0, regionThicknessStdDevMm: 0, regionCutQualityLabel: 'no_chives' };
+    }
+
+    const stdDev = 0.1 + (digest[REGION_IDS.length + i] / 255) * 0.9;
+
+    return {
+      id,
+      regionAverageThicknessMm: round(1.2 + (digest[21 + i] / 255) * 2, 2),
+      regionThicknessStdDevMm: round(stdDev, 2),
+      regionCutQualityLabel: labelFor(stdDev),
+    };
+  });
+
+  const withChives = regions.filter((r) => r.regionCutQualityLabel !== 'no_chives');
+  const fingerprint = digest.toString('hex').slice(0, 12);
+
+  if (withChives.length === 0) {
+    return {
+      averageThicknessMm: 0,
+      thicknessStdDevMm: 0,
+      cutQualityLabel: 'unknown',
+      rawNotes: `Mock analysis (${fingerprint}): not enough chives to score.`,
+      regions,
+    };
+  }
+
+  const means = withChives.map((r) => r.regionAverageThicknessMm);
+  const average = means.reduce((a, b) => a + b, 0) / means.length;
+  const within = withChives.reduce((a, r) => a + r.regionThicknessStdDevMm ** 2, 0) / withChives.length;
+  const between = means.reduce((a, m) => a + (m - average) ** 2, 0) / means.length;
+  const stdDev = Math.sqrt(within + between);
+
+  return {
+    averageThicknessMm: round(average, 2),
+    thicknessStdDevMm: round(stdDev, 2),
+    cutQualityLabel: labelFor(stdDev),
+    rawNotes: `Mock analysis (${fingerprint}) derived from the image hash; no model was called.`,
+    regions,
+  };
+}
+
+// Same as mockStyleMetrics in src/server/services/mockVisionClient.ts.
+export function mockStyleMetrics(digest, style) {
+  if (style !== 'bias' && style !== 'baton') return {};
+
+  const fraction = digest[18] / 255;
+  return style === 'bias'
+    ? { averageCutAngleDeg: round(10 + fraction * 70, 1) }
+    : { averagePieceLengthMm: round(10 + fraction * 30, 1) };
+}
+
+// Same as mockReferenceMeasurement in src/server/services/mockVisionClient.ts.
+export function mockReferenceMeasurement(digest, metrics, reference) {
+  const sizeMm = REFERENCE_OBJECTS[reference]?.sizeMm;
+  if (sizeMm == null) return {};
+
+  const pxPerMm = 4 + (digest[19] / 255) * 8;
+  const drift = 0.9 + (digest[20] / 255) * 0.2;
+  return {
+    referenceMeasurement: {
+      detected: true,
+      sizePx: round(sizeMm * pxPerMm, 1),
+      averageThicknessPx: round((metrics.averageThicknessMm ?? 0) * pxPerMm * drift, 1),
+      thicknessStdDevPx: round((metrics.thicknessStdDevMm ?? 0) * pxPerMm * drift, 1),
+    },
+  };
+}
+
+export function createMockProvider() {
+  return {
+    name: 'mock',
+    model: 'mock-v1',
+    async analyze(buffer, mimeType, style = 'fine', reference = 'none', contentHash = null) {
+      const digest = mockDigest(buffer, contentHash);
+      const metrics = mockAnalyze(digest);
+      return {
+        ...metrics,
+        ...mockStyleMetrics(digest, style),
+        ...mockReferenceMeasurement(digest, metrics, reference),
+      };
+    },
+  };
+}
+
+/**
+ * Builds a provider by name using credentials from the worker's environment.
+ * Returns null when the provider is not configured here. `onUsage` receives
+ * the token counts and latency of every model call (see usage.js).
+ */
+export function createProvider(name, env = process.env, { onUsage } = {}) {
+  switch (name) {
+    case 'mock':
+      return createMockProvider();
+    case 'openai-compatible':
+      if (!env.VISION_BASE_URL || !env.VISION_MODEL) return null;
+      return createOpenAiCompatibleProvider({
+        model: env.VISION_MODEL,
+        apiUrl: chatCompletionsUrl(env.VISION_BASE_URL),
+        apiKey: env.VISION_API_KEY,
+        onUsage,
+      });
+    case 'xai':
+      if (!env.XAI_API_KEY) return null;
+      return createXaiProvider(env.XAI_API_KEY, onUsage);
+    default:
+      return null;
+  }
+}
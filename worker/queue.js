@@ -0,0 +1,249 @@
+// Reliable queue operations on top of the plain `analysis:queue` list. The
+// Devvit app can't write lists, so it adds new jobs to `analysis:delayed`, due
+// at once, and maintenance promotes them onto the queue.
+//
+//   analysis:queue       list  jobs ready to run (promoted by RPUSH, worker pops left)
+//   analysis:processing  list  jobs claimed by a worker (moved atomically by BLMOVE)
+//   analysis:inflight    zset  jobId -> visibility deadline (ms)
+//   analysis:delayed     zset  job payload -> time it may run (ms): new jobs,
+//                              retry backoffs and moderator requeues
+//   analysis:dead        list  jobs that exhausted their retries
+//   analysis:events      zset  job status changes -> time (ms), relayed to
+//                              clients by the app's realtime relay
+//   analysis:failed      zset  jobId -> time it failed for good (ms)
+//   analysis:failed:jobs hash  jobId -> job payload with its error
+//   analysis:stats       string  list lengths, for the app's ops dashboard,
+//                              which can't read lists itself
+//
+// A job whose visibility deadline passes while still in `processing` (because
+// its worker crashed or was killed) is put back on the queue, so every job is
+// processed at least once. A worker shutting down cleanly hands its unfinished
+// jobs back straight away instead.
+
+import { commandOptions } from 'redis';
+
+export const QUEUE_KEY = 'analysis:queue';
+export const PROCESSING_KEY = 'analysis:processing';
+export const INFLIGHT_KEY = 'analysis:inflight';
+export const DELAYED_KEY = 'analysis:delayed';
+export const DEAD_KEY = 'analysis:dead';
+export const EVENTS_KEY = 'analysis:events';
+export const FAILED_KEY = 'analysis:failed';
+export const FAILED_JOBS_KEY = 'analysis:failed:jobs';
+export const STATS_KEY = 'analysis:stats';
+
+const JOB_TTL_SECONDS = 3600;
+const jobKey = (jobId) => `analysis:jobs:${jobId}`;
+
+export function createQueue(redis, { visibilityTimeoutMs, maxAttempts, backoffBaseMs, backoffMaxMs }) {
+  async function updateJob(jobId, patch) {
+    const raw = await redis.get(jobKey(jobId));
+    const job = raw ? JSON.parse(raw) : { jobId };
+    const next = { ...job, ...patch };
+    await redis.set(jobKey(jobId), JSON.stringify(next), { EX: JOB_TTL_SECONDS });
+
+    if (patch.status && patch.status !== job.status) {
+      const at = Date.now();
+      await redis.zAdd(EVENTS_KEY, { score: at, value: JSON.stringify({ jobId, status: patch.status, at }) });
+    }
+    return next;
+  }
+
+  // Exponential backoff with full jitter: base * 2^(attempt-1), capped.
+  function backoffDelay(attempt) {
+    const ceiling = Math.min(backoffMaxMs, backoffBaseMs * 2 ** (attempt - 1));
+    return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+  }
+
+  // Indexes a job that won't run again so moderators can see and requeue it.
+  async function recordFailure(job, error) {
+    const failedAt = Date.now();
+    await redis
+      .multi()
+      .zAdd(FAILED_KEY, { score: failedAt, value: job.jobId })
+      .hSet(FAILED_JOBS_KEY, job.jobId, JSON.stringify({ ...job, error: error.message, failedAt }))
+      .exec();
+  }
+
+  async function release(payload, jobId) {
+    await redis.multi().lRem(PROCESSING_KEY, 1, payload).zRem(INFLIGHT_KEY, jobId).exec();
+  }
+
+  // Set by the app's cancel routes (DELETE /api/batch/...).
+  async function isCancelled(jobId) {
+    const raw = await redis.get(jobKey(jobId));
+    return raw ? JSON.parse(raw).status === 'cancelled' : false;
+  }
+
+  /**
+   * Schedules a retry with backoff, or dead-letters the job once it has used
+   * all of its attempts. Cancelled jobs are simply dropped. Returns true if a
+   * retry was scheduled.
+   */
+  async function retryOrBury({ payload, job }, error) {
+    const attempts = job.attempts ?? 1;
+
+    if (await isCancelled(job.jobId)) {
+      await release(payload, job.jobId);
+      return false;
+    }
+
+    if (attempts >= maxAttempts) {
+      await updateJob(job.jobId, { status: 'failed', nextRetryAt: null, lastError: error.message });
+      await redis
+        .multi()
+        .lPush(DEAD_KEY, JSON.stringify({ ...job, error: error.message, deadAt: Date.now() }))
+        .lRem(PROCESSING_KEY, 1, payload)
+        .zRem(INFLIGHT_KEY, job.jobId)
+        .exec();
+      await recordFailure(job, error);
+      return false;
+    }
+
+    const nextRetryAt = Date.now() + backoffDelay(attempts);
+    await updateJob(job.jobId, { status: 'retrying', nextRetryAt, lastError: error.message });
+    await redis
+      .multi()
+      .zAdd(DELAYED_KEY, { score: nextRetryAt, value: JSON.stringify({ ...job, attempts }) })
+      .lRem(PROCESSING_KEY, 1, payload)
+      .zRem(INFLIGHT_KEY, job.jobId)
+      .exec();
+    return true;
+  }
+
+  return {
+    retryOrBury,
+    isCancelled,
+
+    /**
+     * Blocks up to `timeoutSeconds` for the next job and claims it. Returns
+     * `{ payload, job }` or null. Cancelled jobs are discarded unprocessed.
+     */
+    async claim(timeoutSeconds) {
+      // Each claim blocks a connection of its own, so concurrent claims don't
+      // stall each other or the worker's other commands.
+      const payload = await redis.blMove(
+        commandOptions({ isolated: true }),
+        QUEUE_KEY,
+        PROCESSING_KEY,
+        'LEFT',
+        'RIGHT',
+        timeoutSeconds
+      );
+      if (!payload) return null;
+
+      const job = JSON.parse(payload);
+      if (await isCancelled(job.jobId)) {
+        console.log(`Skipping cancelled job ${job.jobId}`);
+        await redis.lRem(PROCESSING_KEY, 1, payload);
+        return null;
+      }
+
+      await redis.zAdd(INFLIGHT_KEY, { score: Date.now() + visibilityTimeoutMs, value: job.jobId });
+
+      const record = await updateJob(job.jobId, {
+        status: 'processing',
+        attempts: (job.attempts ?? 0) + 1,
+        nextRetryAt: null,
+        startedAt: Date.now(),
+      });
+
+      return { payload, job: { ...job, attempts: record.attempts } };
+    },
+
+    async complete({ payload, job }, patch = {}) {
+      await updateJob(job.jobId, { status: 'completed', nextRetryAt: null, ...patch });
+      await release(payload, job.jobId);
+    },
+
+    /** Drops a claimed job without touching its record, e.g. once cancelled. */
+    async release({ payload, job }) {
+      await release(payload, job.jobId);
+    },
+
+    /**
+     * Puts a claimed job back at the front of the queue without using up an
+     * attempt, for a worker that is shutting down mid-job.
+     */
+    async requeue({ payload, job }) {
+      if (await isCancelled(job.jobId)) {
+        await release(payload, job.jobId);
+        return;
+      }
+
+      await updateJob(job.jobId, { status: 'pending', attempts: (job.attempts ?? 1) - 1 });
+      await redis
+        .multi()
+        .lRem(PROCESSING_KEY, 1, payload)
+        .zRem(INFLIGHT_KEY, job.jobId)
+        .lPush(QUEUE_KEY, payload)
+        .exec();
+    },
+
+    async fail({ payload, job }, error) {
+      await updateJob(job.jobId, { status: 'failed', nextRetryAt: null, lastError: error.message });
+      await release(payload, job.jobId);
+      await recordFailure(job, error);
+    },
+
+    /** Snapshot of the queue's lists; the app reads it for its ops dashboard. */
+    async publishStats() {
+      const [queued, processing, dead] = await Promise.all([
+        redis.lLen(QUEUE_KEY),
+        redis.lLen(PROCESSING_KEY),
+        redis.lLen(DEAD_KEY),
+      ]);
+      await redis.set(STATS_KEY, JSON.stringify({ queued, processing, dead, at: Date.now() }));
+    },
+
+    /** Moves delayed jobs whose backoff has elapsed back onto the queue. */
+    async promoteDelayed() {
+      const due = await redis.zRangeByScore(DELAYED_KEY, 0, Date.now());
+      for (const payload of due) {
+        // zRem wins the race when several workers promote at once.
+        if (await redis.zRem(DELAYED_KEY, payload)) {
+          const job = JSON.parse(payload);
+          if (await isCancelled(job.jobId)) continue;
+          await updateJob(job.jobId, { status: 'pending' });
+          await redis.rPush(QUEUE_KEY, payload);
+        }
+      }
+      return due.length;
+    },
+
+    /**
+     * Requeues claimed jobs whose visibility deadline has passed. A crash
+     * counts as an attempt, so a job that keeps killing workers still ends up
+     * dead-lettered.
+     */
+    async recoverExpired() {
+      const now = Date.now();
+      const processing = await redis.lRange(PROCESSING_KEY, 0, -1);
+      let recovered = 0;
+
+      for (const payload of processing) {
+        const job = JSON.parse(payload);
+        const deadline = await redis.zScore(INFLIGHT_KEY, job.jobId);
+
+        if (deadline == null) {
+          // Claimed but the deadline was never written (crash right after
+          // BLMOVE); start the clock now.
+          await redis.zAdd(INFLIGHT_KEY, { score: now + visibilityTimeoutMs, value: job.jobId }, { NX: true });
+          continue;
+        }
+        if (deadline > now) continue;
+
+        const record = JSON.parse((await redis.get(jobKey(job.jobId))) ?? '{}');
+        const attempts = record.attempts ?? job.attempts ?? 1;
+        console.warn(`Job ${job.jobId} exceeded its visibility timeout; recovering (attempt ${attempts})`);
+        await retryOrBury(
+          { payload, job: { ...job, attempts } },
+          new Error('Worker stopped responding while processing this job')
+        );
+        recovered += 1;
+      }
+
+      return recovered;
+    },
+  };
+}
@@ -0,0 +1,52 @@
+// Mirrors src/server/core/resultCache.ts; keep the key format in sync.
+
+import { PROMPT_VERSION } from './prompt.js';
+
+export function resultCacheKey(provider, model, style, reference, contentHash, sample = 0) {
+  const variant = reference === 'none' ? style : `${style}:${reference}`;
+  const suffix = sample ? `:${sample}` : '';
+  return `analysis:cache:${provider}:${model}:${PROMPT_VERSION}:${variant}:${contentHash}${suffix}`;
+}
+
+/**
+ * Wraps `provider.analyze` with the shared result cache. Jobs carry the hash
+ * of the image the server normalized (the CDN copy may not be byte-identical)
+ * and the subreddit's cache lifetime; without either the cache is skipped.
+ * The hash is passed on to the provider, for the mock to score.
+ * The job's cut style and reference object select the prompt, so they are
+ * part of the key, as is the consensus sample number after the first.
+ * Returns { metrics, cache } where cache matches ResultCacheInfo.
+ */
+export function createResultCache(redis) {
+  return {
+    async analyze(
+      provider,
+      buffer,
+      mimeType,
+      { contentHash, resultCacheTtlSeconds, cutStyle = 'fine', reference = 'none' },
+      sample = 0
+    ) {
+      const info = { model: provider.model, promptVersion: PROMPT_VERSION };
+      if (!contentHash || !resultCacheTtlSeconds) {
+        return {
+          metrics: await provider.analyze(buffer, mimeType, cutStyle, reference, contentHash),
+          cache: { ...info, hit: false, cachedAt: null },
+        };
+      }
+
+      const key = resultCacheKey(provider.name, provider.model, cutStyle, reference, contentHash, sample);
+      const raw = await redis.get(key);
+      if (raw) {
+        const cached = JSON.parse(raw);
+        return { metrics: cached.metrics, cache: { ...info, hit: true, cachedAt: cached.cachedAt } };
+      }
+
+      const metrics = await provider.analyze(buffer, mimeType, cutStyle, reference, contentHash);
+      await redis.set(key, JSON.stringify({ metrics, cachedAt: Date.now() }), {
+        EX: resultCacheTtlSeconds,
+      });
+
+      return { metrics, cache: { ...info, hit: false, cachedAt: null } };
+    },
+  };
+}
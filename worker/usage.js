@@ -0,0 +1,43 @@
+// Mirrors recordUsage in src/server/core/usage.ts; keep the key format in sync.
+//
+//   usage:{sub}:month:{YYYY-MM}               hash  totals for the subreddit
+//   usage:{sub}:day:{YYYY-MM-DD}              hash  totals for the day
+//   usage:{sub}:user:{userId}:month:{YYYY-MM} hash  totals for one user
+//   usage:{sub}:users:{YYYY-MM}               zset  userId -> tokens this month
+//   usage:{sub}:calls                         zset  newest calls as JSON -> time (ms)
+//   usage:usernames                           hash  userId -> username
+//
+// Totals hashes count calls, promptTokens, completionTokens, totalTokens and
+// latencyMs. Costs are worked out by the app from its price settings.
+
+const CALLS_KEPT = 200;
+
+const utcDate = (at) => new Date(at).toISOString().slice(0, 10);
+const utcMonth = (at) => new Date(at).toISOString().slice(0, 7);
+
+async function addTotals(redis, key, usage) {
+  await redis
+    .multi()
+    .hIncrBy(key, 'calls', 1)
+    .hIncrBy(key, 'promptTokens', usage.promptTokens)
+    .hIncrBy(key, 'completionTokens', usage.completionTokens)
+    .hIncrBy(key, 'totalTokens', usage.totalTokens)
+    .hIncrBy(key, 'latencyMs', usage.latencyMs)
+    .exec();
+}
+
+/** Adds one model call to the subreddit's, the day's and the user's totals. */
+export async function recordUsage(redis, usage, { subreddit, userId, username }, at = Date.now()) {
+  const month = utcMonth(at);
+
+  await addTotals(redis, `usage:${subreddit}:month:${month}`, usage);
+  await addTotals(redis, `usage:${subreddit}:day:${utcDate(at)}`, usage);
+  await addTotals(redis, `usage:${subreddit}:user:${userId}:month:${month}`, usage);
+  await redis.zIncrBy(`usage:${subreddit}:users:${month}`, usage.totalTokens, userId);
+  await redis.hSet('usage:usernames', userId, username);
+
+  const callsKey = `usage:${subreddit}:calls`;
+  const call = { at, userId, username, ...usage };
+  await redis.zAdd(callsKey, { score: at, value: JSON.stringify(call) });
+  await redis.zRemRangeByRank(callsKey, 0, -(CALLS_KEPT + 1));
+}
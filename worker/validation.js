@@ -0,0 +1,146 @@
+// Mirrors src/server/domain/validation.ts; keep the two in sync.
+
+export const REGION_IDS = ['r1c1', 'r1c2', 'r1c3', 'r2c1', 'r2c2', 'r2c3', 'r3c1', 'r3c2', 'r3c3'];
+
+const OVERALL_LABELS = ['clean', 'mixed', 'ragged', 'unknown'];
+
+// Measurement each cut style needs besides the base shape (see
+// src/server/domain/cutStyles.ts).
+const STYLE_METRICS = { fine: null, bias: 'averageCutAngleDeg', baton: 'averagePieceLengthMm' };
+const REGION_LABELS = ['clean', 'mixed', 'ragged', 'no_chives'];
+
+export class InvalidModelOutput extends Error {
+  constructor(errors, rawOutput, attempts) {
+    super(`Model output failed validation after ${attempts} attempt${attempts === 1 ? '' : 's'}: ${errors.join('; ')}`);
+    this.name = 'InvalidModelOutput';
+    this.errors = errors;
+    this.rawOutput = rawOutput;
+  }
+}
+
+const isRecord = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function checkMeasurement(value, path, errors) {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    errors.push(`${path} must be a finite number (got ${JSON.stringify(value) ?? 'undefined'})`);
+    return false;
+  }
+  if (value < 0) {
+    errors.push(`${path} must not be negative (got ${value})`);
+    return false;
+  }
+  return true;
+}
+
+function checkReference(value, errors) {
+  if (!isRecord(value)) {
+    errors.push('reference must be an object with detected, sizePx, averageThicknessPx and thicknessStdDevPx');
+    return null;
+  }
+
+  const { detected, sizePx, averageThicknessPx, thicknessStdDevPx } = value;
+  const before = errors.length;
+  if (typeof detected !== 'boolean') errors.push('reference.detected must be a boolean');
+  checkMeasurement(sizePx, 'reference.sizePx', errors);
+  checkMeasurement(averageThicknessPx, 'reference.averageThicknessPx', errors);
+  checkMeasurement(thicknessStdDevPx, 'reference.thicknessStdDevPx', errors);
+  if (errors.length > before) return null;
+
+  return { detected, sizePx, averageThicknessPx, thicknessStdDevPx };
+}
+
+export function validateChiveMetrics(input, style = 'fine', reference = 'none') {
+  const errors = [];
+
+  if (!isRecord(input)) {
+    return { ok: false, errors: ['response must be a JSON object'] };
+  }
+
+  const { averageThicknessMm, thicknessStdDevMm, cutQualityLabel, rawNotes, regions } = input;
+
+  checkMeasurement(averageThicknessMm, 'averageThicknessMm', errors);
+  checkMeasurement(thicknessStdDevMm, 'thicknessStdDevMm', errors);
+
+  if (!OVERALL_LABELS.includes(cutQualityLabel)) {
+    errors.push(`cutQualityLabel must be one of ${OVERALL_LABELS.join(', ')} (got ${JSON.stringify(cutQualityLabel) ?? 'undefined'})`);
+  }
+
+  if (rawNotes !== undefined && typeof rawNotes !== 'string') {
+    errors.push('rawNotes must be a string');
+  }
+
+  const metric = STYLE_METRICS[style] ?? null;
+  const targetValue = metric ? input[metric] : undefined;
+  if (metric && checkMeasurement(targetValue, metric, errors)) {
+    if (metric === 'averageCutAngleDeg' && targetValue > 90) {
+      errors.push(`averageCutAngleDeg must be at most 90 (got ${targetValue})`);
+    }
+  }
+
+  // Every reference except `none` asks for pixel measurements (see
+  // src/server/domain/calibration.ts).
+  const referenceMeasurement = reference !== 'none' ? checkReference(input.reference, errors) : null;
+
+  const validRegions = [];
+  if (!Array.isArray(regions)) {
+    errors.push('regions must be an array of 9 region objects');
+  } else {
+    if (regions.length !== REGION_IDS.length) {
+      errors.push(`regions must contain exactly ${REGION_IDS.length} entries (got ${regions.length})`);
+    }
+
+    const seen = new Set();
+    regions.forEach((region, i) => {
+      if (!isRecord(region)) {
+        errors.push(`regions[${i}] must be an object`);
+        return;
+      }
+
+      const { id, regionAverageThicknessMm, regionThicknessStdDevMm, regionCutQualityLabel } = region;
+      const path = typeof id === 'string' ? `regions.${id}` : `regions[${i}]`;
+
+      if (!REGION_IDS.includes(id)) {
+        errors.push(`${path}.id must be one of ${REGION_IDS.join(', ')}`);
+      } else if (seen.has(id)) {
+        errors.push(`duplicate region id ${id}`);
+      } else {
+        seen.add(id);
+      }
+
+      const avgOk = checkMeasurement(regionAverageThicknessMm, `${path}.regionAverageThicknessMm`, errors);
+      const sdOk = checkMeasurement(regionThicknessStdDevMm, `${path}.regionThicknessStdDevMm`, errors);
+      const labelOk = REGION_LABELS.includes(regionCutQualityLabel);
+      if (!labelOk) {
+        errors.push(`${path}.regionCutQualityLabel must be one of ${REGION_LABELS.join(', ')} (got ${JSON.stringify(regionCutQualityLabel) ?? 'undefined'})`);
+      }
+
+      if (typeof id === 'string' && avgOk && sdOk && labelOk) {
+        validRegions.push({ id, regionAverageThicknessMm, regionThicknessStdDevMm, regionCutQualityLabel });
+      }
+    });
+
+    const missing = REGION_IDS.filter((id) => !seen.has(id));
+    if (missing.length) {
+      errors.push(`missing regions: ${missing.join(', ')}`);
+    }
+  }
+
+  if (errors.length) {
+    return { ok: false, errors };
+  }
+
+  validRegions.sort((a, b) => REGION_IDS.indexOf(a.id) - REGION_IDS.indexOf(b.id));
+
+  return {
+    ok: true,
+    value: {
+      averageThicknessMm,
+      thicknessStdDevMm,
+      cutQualityLabel,
+      rawNotes: rawNotes ?? '',
+      regions: validRegions,
+      ...(metric ? { [metric]: targetValue } : {}),
+      ...(referenceMeasurement ? { referenceMeasurement } : {}),
+    },
+  };
+}
@@ -1,14 +1,47 @@
+import { readFileSync } from 'fs';
+import { hostname } from 'os';
 import { createClient } from 'redis';
 import { config } from 'dotenv';
+import { analyzeSamples } from './consensus.js';
+import { createHeartbeat } from './heartbeat.js';
+import { createProvider } from './providers.js';
+import { createQueue } from './queue.js';
+import { createResultCache } from './resultCache.js';
+import { recordUsage } from './usage.js';
+import { InvalidModelOutput } from './validation.js';
 
 config();
 
 const REDIS_URL = process.env.REDIS_URL || 'redis://localhost:6379';
-const XAI_API_KEY = process.env.XAI_API_KEY;
+// Used for jobs that don't name a provider; jobs queued by the Devvit app carry
+// the subreddit's VISION_PROVIDER setting.
+const DEFAULT_PROVIDER = process.env.VISION_PROVIDER || 'xai';
 const POLL_INTERVAL = 2000; // 2 seconds
-
-if (!XAI_API_KEY) {
-  console.error('XAI_API_KEY environment variable required');
+const MAINTENANCE_INTERVAL = 5000; // how often delayed/expired jobs are checked
+
+const numberFromEnv = (name, fallback) => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const { version: VERSION } = JSON.parse(readFileSync(new URL('./package.json', import.meta.url), 'utf8'));
+const WORKER_ID = process.env.WORKER_ID || `${hostname()}-${process.pid}`;
+// Jobs analysed at once; each holds its own Redis connection while it waits.
+const CONCURRENCY = Math.floor(numberFromEnv('WORKER_CONCURRENCY', 1));
+// On SIGTERM/SIGINT, how long in-flight jobs may run before they are handed
+// back to the queue. Docker sends SIGKILL 10s after SIGTERM by default.
+const SHUTDOWN_GRACE_MS = numberFromEnv('SHUTDOWN_GRACE_MS', 8000);
+
+const QUEUE_OPTIONS = {
+  // A claimed job not finished within this window is assumed lost and retried.
+  visibilityTimeoutMs: numberFromEnv('VISIBILITY_TIMEOUT_MS', 5 * 60 * 1000),
+  maxAttempts: numberFromEnv('MAX_ATTEMPTS', 5),
+  backoffBaseMs: numberFromEnv('BACKOFF_BASE_MS', 5000),
+  backoffMaxMs: numberFromEnv('BACKOFF_MAX_MS', 5 * 60 * 1000),
+};
+
+if (!createProvider(DEFAULT_PROVIDER)) {
+  console.error(`Vision provider "${DEFAULT_PROVIDER}" is not configured (set XAI_API_KEY, or VISION_BASE_URL and VISION_MODEL, or VISION_PROVIDER=mock)`);
   process.exit(1);
 }
 
@@ -19,151 +52,191 @@ redis.on('error', (err) => console.error('Redis error:', err));
 await redis.connect();
 console.log('Connected to Redis');
 
-async function processJob(jobData) {
-  const { jobId, imageUrl, mimeType } = jobData;
+const queue = createQueue(redis, QUEUE_OPTIONS);
+const resultCache = createResultCache(redis);
+const heartbeat = createHeartbeat(redis, { workerId: WORKER_ID, version: VERSION, concurrency: CONCURRENCY });
+
+// Claimed jobs by id, so a shutdown knows what to hand back.
+const active = new Map();
+const stats = { processed: 0, failed: 0, lastError: null };
+let stopping = false;
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function noteError(jobId, error) {
+  stats.lastError = { jobId, message: error.message, at: Date.now() };
+}
+
+// Rate limits, upstream 5xx and network failures are worth another try; bad
+// requests, auth errors and output the model could not fix are not.
+function isRetryable(error) {
+  if (error instanceof InvalidModelOutput) return false;
+  if (typeof error.status === 'number') {
+    return error.status === 408 || error.status === 429 || error.status >= 500;
+  }
+  return error.name === 'AbortError' || error.name === 'TypeError';
+}
+
+async function storeResult(jobId, result) {
+  await redis.set(
+    `analysis:results:${jobId}`,
+    JSON.stringify({ jobId, ...result, processedAt: Date.now() }),
+    { EX: 3600 } // Expire after 1 hour
+  );
+}
+
+async function processJob(claimed) {
+  const { jobId, imageUrl, mimeType, visionProvider, attempts } = claimed.job;
 
-  console.log(`Processing job ${jobId}...`);
+  console.log(`Processing job ${jobId} (attempt ${attempts}/${QUEUE_OPTIONS.maxAttempts})...`);
 
   try {
     // Fetch image from Reddit CDN
     const imageResponse = await fetch(imageUrl);
     if (!imageResponse.ok) {
-      throw new Error(`Failed to fetch image: ${imageResponse.statusText}`);
+      const error = new Error(`Failed to fetch image: ${imageResponse.statusText}`);
+      error.status = imageResponse.status;
+      throw error;
     }
 
-    const imageBuffer = await imageResponse.arrayBuffer();
-    const base64 = Buffer.from(imageBuffer).toString('base64');
-    const dataUrl = `data:${mimeType};base64,${base64}`;
-
-    // Call X.AI API
-    const apiResponse = await fetch('https://api.x.ai/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${XAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'grok-4-fast',
-        temperature: 0.2,
-        response_format: { type: 'json_object' },
-        messages: [
-          {
-            role: 'system',
-            content:
-              'You are an expert chef and knife skills instructor evaluating photos of cut chives. ' +
-              'You must estimate chive thickness and cut quality and respond ONLY as JSON.',
-          },
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'text',
-                text:
-                  'Examine this image of cut chives. ' +
-                  '1) Divide the image into a 3×3 grid of regions, indexed row-major as r1c1, r1c2, r1c3, r2c1, r2c2, r2c3, r3c1, r3c2, r3c3. ' +
-                  '2) For each region, detect the chive pieces that are visible in that region and estimate: ' +
-                  '   regionAverageThicknessMm (average thickness of chive pieces in that region, in millimetres), ' +
-                  '   regionThicknessStdDevMm (standard deviation of thickness in that region, in millimetres), and ' +
-                  '   regionCutQualityLabel (one of "clean", "mixed", "ragged", or "no_chives"). Use "no_chives" whenever there are only a few stray pieces or effectively no dense cluster of chives in that region. ' +
-                  '3) Using all regions together, compute overall image-level metrics: ' +
-                  '   averageThicknessMm (overall average thickness across all regions that contain chives), ' +
-                  '   thicknessStdDevMm (overall standard deviation of thickness), and ' +
-                  '   cutQualityLabel (one of "clean", "mixed", or "ragged" for overall cut quality). ' +
-                  '   When estimating millimetres, assume typical grocery-store chives and use your best judgement; do not leave fields blank just because the scale is approximate. If the entire image lacks any finely bunched group of chopped chives (for example, only a single stray chive is present), then set averageThicknessMm to 0, thicknessStdDevMm to 0, cutQualityLabel to "unknown", and explain in rawNotes that there are not enough chives to score. ' +
-                  '4) Provide a short explanation of what you see about the cuts and consistency. ' +
-                  'Respond ONLY as a single JSON object in valid JSON syntax (no markdown, no extra prose) with this exact shape: ' +
-                  '{ "averageThicknessMm": number, "thicknessStdDevMm": number, "cutQualityLabel": "clean" | "mixed" | "ragged" | "unknown", "regions": [ { "id": "r1c1", "regionAverageThicknessMm": number, "regionThicknessStdDevMm": number, "regionCutQualityLabel": "clean" | "mixed" | "ragged" | "no_chives" } ], "rawNotes": string }. ' +
-                  'The "regions" array MUST contain exactly 9 objects, one for each of: r1c1, r1c2, r1c3, r2c1, r2c2, r2c3, r3c1, r3c2, r3c3. ' +
-                  'All numeric fields must be finite numbers (use approximate values if necessary, never null or undefined).',
-              },
-              {
-                type: 'image_url',
-                image_url: { url: dataUrl },
-              },
-            ],
-          },
-        ],
-      }),
-    });
+    const imageBuffer = Buffer.from(await imageResponse.arrayBuffer());
 
-    if (!apiResponse.ok) {
-      const errorText = await apiResponse.text();
-      throw new Error(`X.AI API error: ${apiResponse.status} - ${errorText}`);
+    const providerName = visionProvider || DEFAULT_PROVIDER;
+    const source = {
+      subreddit: claimed.job.subreddit || 'unknown',
+      userId: claimed.job.submittedBy || 'anonymous',
+      username: claimed.job.submittedByName || 'anonymous',
+    };
+    const provider = createProvider(providerName, process.env, {
+      onUsage: (usage) => recordUsage(redis, usage, source),
+    });
+    if (!provider) {
+      throw new Error(`Vision provider "${providerName}" is not configured on this worker`);
     }
 
-    const data = await apiResponse.json();
-    const content = data?.choices?.[0]?.message?.content;
+    const { samples, cache } = await analyzeSamples(
+      resultCache,
+      provider,
+      imageBuffer,
+      mimeType,
+      claimed.job
+    );
 
-    if (!content) {
-      throw new Error('No content returned from X.AI API');
+    // The user gave up on this job while it was being analysed.
+    if (await queue.isCancelled(jobId)) {
+      await queue.release(claimed);
+      console.log(`⊘ Job ${jobId} cancelled; result discarded`);
+      return;
     }
 
-    // Parse JSON from response
-    const match = content.match(/\{[\s\S]*\}/);
-    if (!match) {
-      throw new Error('No JSON object found in response');
+    // `result` stays the first sample for apps that predate consensus mode.
+    await storeResult(jobId, { status: 'completed', result: samples[0], samples, cache });
+    await queue.complete(claimed);
+
+    stats.processed += 1;
+    const sampled = samples.length > 1 ? ` (${samples.length} samples)` : '';
+    console.log(`✓ Job ${jobId} completed${sampled}${cache.hit ? ' (cached result)' : ''}`);
+  } catch (error) {
+    noteError(jobId, error);
+    if (isRetryable(error) && (await queue.retryOrBury(claimed, error))) {
+      console.warn(`↻ Job ${jobId} attempt ${attempts} failed, will retry:`, error.message);
+      return;
     }
 
-    const result = JSON.parse(match[0]);
-
-    // Store result in Redis
-    await redis.set(
-      `analysis:results:${jobId}`,
-      JSON.stringify({
-        jobId,
-        status: 'completed',
-        result,
-        processedAt: Date.now(),
-      }),
-      { EX: 3600 } // Expire after 1 hour
-    );
+    console.error(`✗ Job ${jobId} failed:`, error.message);
+    stats.failed += 1;
 
-    // Update job status
-    const jobKey = `analysis:jobs:${jobId}`;
-    const job = JSON.parse(await redis.get(jobKey));
-    job.status = 'completed';
-    await redis.set(jobKey, JSON.stringify(job), { EX: 3600 });
+    if (await queue.isCancelled(jobId)) {
+      await queue.release(claimed);
+      return;
+    }
 
-    console.log(`✓ Job ${jobId} completed`);
+    await storeResult(jobId, { status: 'failed', error: error.message, attempts });
+    if (!isRetryable(error)) {
+      await queue.fail(claimed, error);
+    }
+  }
+}
+
+async function runMaintenance() {
+  try {
+    const recovered = await queue.recoverExpired();
+    if (recovered) console.log(`Recovered ${recovered} stalled job(s)`);
+    await queue.promoteDelayed();
+    await queue.publishStats();
+    await heartbeat.beat({ active: active.size, ...stats });
   } catch (error) {
-    console.error(`✗ Job ${jobId} failed:`, error.message);
+    console.error('Queue maintenance error:', error);
+  }
+}
 
-    // Store error result
-    await redis.set(
-      `analysis:results:${jobId}`,
-      JSON.stringify({
-        jobId,
-        status: 'failed',
-        error: error.message,
-        processedAt: Date.now(),
-      }),
-      { EX: 3600 }
-    );
+let maintenanceTimer;
 
-    // Update job status
-    const jobKey = `analysis:jobs:${jobId}`;
-    const job = JSON.parse(await redis.get(jobKey));
-    job.status = 'failed';
-    await redis.set(jobKey, JSON.stringify(job), { EX: 3600 });
-  }
+async function scheduleMaintenance() {
+  await runMaintenance();
+  if (!stopping) maintenanceTimer = setTimeout(scheduleMaintenance, MAINTENANCE_INTERVAL);
 }
 
+// One of CONCURRENCY loops that each claim and process a job at a time.
 async function pollQueue() {
-  while (true) {
+  while (!stopping) {
     try {
-      // BLPOP blocks until job available (5s timeout)
-      const result = await redis.blPop('analysis:queue', 5);
+      // BLMOVE blocks until a job is available (5s timeout) and keeps it in
+      // analysis:processing until it is finished.
+      const claimed = await queue.claim(5);
+      if (!claimed) continue;
+
+      // Claimed just as the worker began shutting down.
+      if (stopping) {
+        await queue.requeue(claimed);
+        break;
+      }
 
-      if (result) {
-        const jobData = JSON.parse(result.element);
-        await processJob(jobData);
+      active.set(claimed.job.jobId, claimed);
+      try {
+        await processJob(claimed);
+      } finally {
+        active.delete(claimed.job.jobId);
       }
     } catch (error) {
       console.error('Queue poll error:', error);
-      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
+      await sleep(POLL_INTERVAL);
+    }
+  }
+}
+
+const pollers = Array.from({ length: CONCURRENCY }, () => pollQueue());
+
+// Stops claiming, lets in-flight jobs finish within the grace period and hands
+// the rest back to the queue, so a deploy doesn't cost anyone an attempt.
+async function shutdown(signal) {
+  if (stopping) return;
+  stopping = true;
+  clearTimeout(maintenanceTimer);
+  console.log(`${signal} received; waiting for ${active.size} in-flight job(s)...`);
+
+  const drained = await Promise.race([
+    Promise.all(pollers).then(() => true),
+    sleep(SHUTDOWN_GRACE_MS).then(() => false),
+  ]);
+
+  try {
+    if (!drained) {
+      for (const claimed of active.values()) {
+        await queue.requeue(claimed);
+        console.warn(`Requeued job ${claimed.job.jobId} unfinished`);
+      }
     }
+    await heartbeat.stop();
+    await redis.quit();
+  } catch (error) {
+    console.error('Error during shutdown:', error);
   }
+  process.exit(0);
 }
 
-console.log('Worker started, polling queue...');
-pollQueue();
+process.on('SIGTERM', () => void shutdown('SIGTERM'));
+process.on('SIGINT', () => void shutdown('SIGINT'));
+
+console.log(`Worker ${WORKER_ID} v${VERSION} started with concurrency ${CONCURRENCY}, polling queue...`);
+scheduleMaintenance();